@@ -0,0 +1,383 @@
+// src/controllers/admin.controller.ts
+// Administração do RBAC: roles, permissões dos roles e role de cada usuário.
+import AppError from '../utils/AppError';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppEnv, Context, Hono } from 'hono';
+import { PrismaD1 } from '@prisma/adapter-d1';
+import { zValidator } from '@hono/zod-validator';
+import { protect } from 'middlewares/auth.middleware';
+import next from 'middlewares/next.middleware';
+import { authorize, getPermissionsForRole, invalidateRolePermissionsCache } from 'middlewares/authorize.middleware';
+import permissions from 'utils/permissions';
+import ROLES from 'utils/roles';
+import {
+    assignRoleSchema,
+    attachPermissionsSchema,
+    createRoleSchema,
+    roleIdParamSchema,
+    rolePermissionParamSchema,
+    roleUsersQuerySchema,
+    updateRoleSchema,
+    userIdParamSchema,
+} from 'validators/admin.validator';
+
+const getPrisma = (c: Context<AppEnv>) => {
+    const adapter = new PrismaD1(c.env.DB);
+    const prisma = new PrismaClient({ adapter });
+    if (!prisma) throw new AppError('Internal server configuration error (Prisma).', 500);
+    return prisma;
+}
+
+// Roles do seed: o código depende dos nomes (ex: BASIC_USER no cadastro), então não podem ser renomeados nem excluídos
+const BUILT_IN_ROLES: string[] = Object.values(ROLES);
+
+const roleSelect = {
+    id: true,
+    name: true,
+    description: true,
+    requiresTwoFactor: true,
+    createdInApp: true,
+    createdAt: true,
+    updatedAt: true,
+    _count: { select: { users: true, permissions: true } },
+} satisfies Prisma.RoleSelect;
+
+const permissionSelect = { id: true, name: true, description: true } satisfies Prisma.PermissionSelect;
+
+const findRoleOrFail = async (prisma: PrismaClient, roleId: string) => {
+    const role = await prisma.role.findUnique({ where: { id: roleId }, select: { id: true, name: true } });
+    if (!role) throw new AppError(`Role com ID ${roleId} não encontrado.`, 404);
+    return role;
+}
+
+const adminRoutesController = new Hono<AppEnv>();
+
+adminRoutesController.use('*', protect);
+
+// ==============================
+// Roles
+// ==============================
+
+// GET /api/admin/roles
+adminRoutesController.get(
+    '/roles',
+    authorize([permissions.admin.permission_manage]),
+    async (c) => {
+        try {
+            const prisma = getPrisma(c);
+            const roles = await prisma.role.findMany({ orderBy: { name: 'asc' }, select: roleSelect });
+            return c.json({ data: roles });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// GET /api/admin/roles/:roleId - Role com suas permissões
+adminRoutesController.get(
+    '/roles/:roleId',
+    authorize([permissions.admin.permission_manage]),
+    zValidator('param', roleIdParamSchema.shape.params),
+    async (c) => {
+        const { roleId } = c.req.valid('param');
+        try {
+            const prisma = getPrisma(c);
+            const role = await prisma.role.findUnique({
+                where: { id: roleId },
+                select: {
+                    ...roleSelect,
+                    permissions: {
+                        orderBy: { permission: { name: 'asc' } },
+                        select: { assignedAt: true, permission: { select: permissionSelect } },
+                    },
+                },
+            });
+            if (!role) {
+                return next(new AppError(`Role com ID ${roleId} não encontrado.`, 404));
+            }
+
+            const { permissions: rolePermissions, ...rest } = role;
+            return c.json({ ...rest, permissions: rolePermissions.map(rp => ({ ...rp.permission, assignedAt: rp.assignedAt })) });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// POST /api/admin/roles
+adminRoutesController.post(
+    '/roles',
+    authorize([permissions.admin.permission_manage]),
+    zValidator('json', createRoleSchema.shape.body),
+    async (c) => {
+        const { name, description, requiresTwoFactor } = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const existing = await prisma.role.findUnique({ where: { name }, select: { id: true } });
+            if (existing) {
+                return next(new AppError(`Role com nome '${name}' já existe.`, 409));
+            }
+
+            const role = await prisma.role.create({
+                data: { name, description, requiresTwoFactor, createdInApp: true },
+                select: roleSelect,
+            });
+            return c.json(role, 201);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// PATCH /api/admin/roles/:roleId
+adminRoutesController.patch(
+    '/roles/:roleId',
+    authorize([permissions.admin.permission_manage]),
+    zValidator('param', roleIdParamSchema.shape.params),
+    zValidator('json', updateRoleSchema.shape.body),
+    async (c) => {
+        const { roleId } = c.req.valid('param');
+        const dataToUpdate = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const role = await findRoleOrFail(prisma, roleId);
+
+            if (dataToUpdate.name && dataToUpdate.name !== role.name) {
+                if (BUILT_IN_ROLES.includes(role.name)) {
+                    return next(new AppError(`O role '${role.name}' é do sistema e não pode ser renomeado.`, 409));
+                }
+                const existing = await prisma.role.findUnique({ where: { name: dataToUpdate.name }, select: { id: true } });
+                if (existing) {
+                    return next(new AppError(`Role com nome '${dataToUpdate.name}' já existe.`, 409));
+                }
+            }
+
+            const updated = await prisma.role.update({ where: { id: roleId }, data: dataToUpdate, select: roleSelect });
+            return c.json(updated);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// DELETE /api/admin/roles/:roleId - Só roles sem usuários
+adminRoutesController.delete(
+    '/roles/:roleId',
+    authorize([permissions.admin.permission_manage]),
+    zValidator('param', roleIdParamSchema.shape.params),
+    async (c) => {
+        const { roleId } = c.req.valid('param');
+        try {
+            const prisma = getPrisma(c);
+            const role = await findRoleOrFail(prisma, roleId);
+            if (BUILT_IN_ROLES.includes(role.name)) {
+                return next(new AppError(`O role '${role.name}' é do sistema e não pode ser excluído.`, 409));
+            }
+
+            const userCount = await prisma.user.count({ where: { roleId } });
+            if (userCount > 0) {
+                return next(new AppError(`O role possui ${userCount} usuário(s). Atribua outro role a eles antes de excluir.`, 409));
+            }
+
+            await prisma.role.delete({ where: { id: roleId } }); // RolePermission é removido em cascata
+            await invalidateRolePermissionsCache(c.env, prisma, roleId);
+            return c.body(null, 204);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// ==============================
+// Permissões dos Roles
+// ==============================
+
+// GET /api/admin/permissions - Catálogo de permissões existentes
+adminRoutesController.get(
+    '/permissions',
+    authorize([permissions.admin.permission_manage]),
+    async (c) => {
+        try {
+            const prisma = getPrisma(c);
+            const allPermissions = await prisma.permission.findMany({ orderBy: { name: 'asc' }, select: permissionSelect });
+            return c.json({ data: allPermissions });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// POST /api/admin/roles/:roleId/permissions - Vincula permissões (pelo nome); as já vinculadas são ignoradas
+adminRoutesController.post(
+    '/roles/:roleId/permissions',
+    authorize([permissions.admin.permission_manage]),
+    zValidator('param', roleIdParamSchema.shape.params),
+    zValidator('json', attachPermissionsSchema.shape.body),
+    async (c) => {
+        const { roleId } = c.req.valid('param');
+        const names = [...new Set(c.req.valid('json').permissions)];
+        try {
+            const prisma = getPrisma(c);
+            await findRoleOrFail(prisma, roleId);
+
+            const found = await prisma.permission.findMany({ where: { name: { in: names } }, select: { id: true, name: true } });
+            if (found.length !== names.length) {
+                const foundNames = new Set(found.map(p => p.name));
+                const unknown = names.filter(name => !foundNames.has(name));
+                return next(new AppError(`Permissões inexistentes: ${unknown.join(', ')}.`, 400));
+            }
+
+            const alreadyAttached = await prisma.rolePermission.findMany({
+                where: { roleId, permissionId: { in: found.map(p => p.id) } },
+                select: { permissionId: true },
+            });
+            const attachedIds = new Set(alreadyAttached.map(rp => rp.permissionId));
+            const toAttach = found.filter(p => !attachedIds.has(p.id));
+
+            if (toAttach.length > 0) {
+                await prisma.rolePermission.createMany({
+                    data: toAttach.map(p => ({ roleId, permissionId: p.id, createdInApp: true })),
+                });
+                await invalidateRolePermissionsCache(c.env, prisma, roleId);
+            }
+
+            return c.json({ attached: toAttach.map(p => p.name), alreadyAttached: found.filter(p => attachedIds.has(p.id)).map(p => p.name) });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// DELETE /api/admin/roles/:roleId/permissions/:permissionId
+adminRoutesController.delete(
+    '/roles/:roleId/permissions/:permissionId',
+    authorize([permissions.admin.permission_manage]),
+    zValidator('param', rolePermissionParamSchema.shape.params),
+    async (c) => {
+        const { roleId, permissionId } = c.req.valid('param');
+        try {
+            const prisma = getPrisma(c);
+            const rolePermission = await prisma.rolePermission.findUnique({
+                where: { roleId_permissionId: { roleId, permissionId } },
+                select: { permission: { select: { name: true } } },
+            });
+            if (!rolePermission) {
+                return next(new AppError('Permissão não vinculada a este role.', 404));
+            }
+
+            // Evita que o administrador perca o próprio acesso a esta API
+            if (roleId === c.get('user').roleId && rolePermission.permission.name === permissions.admin.permission_manage) {
+                return next(new AppError('Não é possível remover a permissão de gerenciar roles do seu próprio role.', 409));
+            }
+
+            await prisma.rolePermission.delete({ where: { roleId_permissionId: { roleId, permissionId } } });
+            await invalidateRolePermissionsCache(c.env, prisma, roleId);
+            return c.body(null, 204);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// ==============================
+// Usuários
+// ==============================
+
+// GET /api/admin/roles/:roleId/users - Usuários do role (paginado)
+adminRoutesController.get(
+    '/roles/:roleId/users',
+    authorize([permissions.admin.read]),
+    zValidator('param', roleIdParamSchema.shape.params),
+    zValidator('query', roleUsersQuerySchema.shape.query),
+    async (c) => {
+        const { roleId } = c.req.valid('param');
+        const { page = 1, limit = 20, search } = c.req.valid('query') ?? {};
+        const skip = (page - 1) * limit;
+        try {
+            const prisma = getPrisma(c);
+            await findRoleOrFail(prisma, roleId);
+
+            const where: Prisma.UserWhereInput = {
+                roleId,
+                ...(search && { OR: [{ email: { contains: search } }, { username: { contains: search } }] }),
+            };
+            const [users, totalCount] = await prisma.$transaction([
+                prisma.user.findMany({
+                    where,
+                    orderBy: { createdAt: 'desc' },
+                    skip,
+                    take: limit,
+                    select: { id: true, name: true, username: true, email: true, emailVerifiedAt: true, createdAt: true },
+                }),
+                prisma.user.count({ where }),
+            ]);
+
+            return c.json({
+                data: users,
+                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: Math.ceil(totalCount / limit) }
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// PUT /api/admin/users/:userId/role - Vale na próxima requisição do usuário (protect lê o role do banco)
+adminRoutesController.put(
+    '/users/:userId/role',
+    authorize([permissions.admin.assign]),
+    zValidator('param', userIdParamSchema.shape.params),
+    zValidator('json', assignRoleSchema.shape.body),
+    async (c) => {
+        const { userId } = c.req.valid('param');
+        const { roleId } = c.req.valid('json');
+        try {
+            if (userId === c.get('user').id) {
+                return next(new AppError('Não é possível alterar o seu próprio role.', 409));
+            }
+
+            const prisma = getPrisma(c);
+            const role = await findRoleOrFail(prisma, roleId);
+            const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+            if (!user) {
+                return next(new AppError(`Usuário com ID ${userId} não encontrado.`, 404));
+            }
+
+            const updated = await prisma.user.update({
+                where: { id: userId },
+                data: { roleId: role.id },
+                select: { id: true, username: true, email: true, roleId: true, role: { select: { name: true } } },
+            });
+            return c.json(updated);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// GET /api/admin/users/:userId/permissions - Permissões efetivas (as do role do usuário)
+adminRoutesController.get(
+    '/users/:userId/permissions',
+    authorize([permissions.admin.read]),
+    zValidator('param', userIdParamSchema.shape.params),
+    async (c) => {
+        const { userId } = c.req.valid('param');
+        try {
+            const prisma = getPrisma(c);
+            const user = await prisma.user.findUnique({
+                where: { id: userId },
+                select: { id: true, username: true, role: { select: { id: true, name: true, requiresTwoFactor: true } } },
+            });
+            if (!user) {
+                return next(new AppError(`Usuário com ID ${userId} não encontrado.`, 404));
+            }
+
+            const effective = await getPermissionsForRole(user.role.id, prisma);
+            return c.json({ userId: user.id, username: user.username, role: user.role, permissions: [...effective].sort() });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+export default adminRoutesController;
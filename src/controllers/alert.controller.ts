@@ -0,0 +1,169 @@
+// src/controllers/alert.controller.ts
+import AppError from '../utils/AppError';
+import { Prisma, PrismaClient, VehicleAlertStatus } from '@prisma/client';
+import { alertActionSchema, listAlertsSchema } from '../validators/alert.validator';
+import { getRefuelRecommendations } from '../services/alert.service';
+import { tankCapacitySelect } from '../services/fuelLevel.service';
+import { AppEnv, Context } from 'hono';
+import { PrismaD1 } from '@prisma/adapter-d1';
+import next from 'middlewares/next.middleware';
+import vehicleRoutesController from './vehicle.controller';
+import permissions from 'utils/permissions';
+import { zValidator } from '@hono/zod-validator';
+import { authorizeResource } from 'middlewares/authorize.middleware';
+
+// Alertas que ainda pedem ação do usuário recebem recomendações de postos
+const RECOMMENDABLE_STATUSES: VehicleAlertStatus[] = [VehicleAlertStatus.ACTIVE, VehicleAlertStatus.ACKNOWLEDGED];
+
+const alertSelect = {
+    id: true,
+    type: true,
+    status: true,
+    fuelLevel: true,
+    estimatedRangeKm: true,
+    thresholdKm: true,
+    latitude: true,
+    longitude: true,
+    tripId: true,
+    fuelType: { select: { id: true, name: true } },
+    handledById: true,
+    acknowledgedAt: true,
+    dismissedAt: true,
+    resolvedAt: true,
+    createdAt: true,
+    updatedAt: true,
+} satisfies Prisma.VehicleAlertSelect;
+
+const getPrisma = (c: Context<AppEnv>) => {
+    const adapter = new PrismaD1(c.env.DB);
+    const prisma = new PrismaClient({ adapter });
+    if (!prisma) throw new AppError('Internal server configuration error (Prisma).', 500);
+    return prisma;
+}
+
+// Busca o alerta do veículo que ainda não terminou (RESOLVED não aceita mais ações)
+async function getOpenAlert(prisma: PrismaClient, vehicleId: string, alertId: string) {
+    const alert = await prisma.vehicleAlert.findFirst({
+        where: { id: alertId, vehicleId },
+        select: { id: true, status: true },
+    });
+    if (!alert) throw new AppError(`Alerta com ID ${alertId} não encontrado neste veículo.`, 404);
+    if (alert.status === VehicleAlertStatus.RESOLVED) {
+        throw new AppError('Este alerta já foi resolvido por um abastecimento.', 409);
+    }
+    return alert;
+}
+
+// ==============================
+// alert Routes
+// ==============================
+
+// GET /api/vehicles/:vehicleId/alerts - Listar alertas (com postos recomendados nos alertas em aberto)
+vehicleRoutesController.get(
+    '/:vehicleId/alerts',
+    zValidator('param', listAlertsSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read),
+    zValidator('query', listAlertsSchema.shape.query),
+    async (c) => {
+        const { vehicleId } = c.req.valid('param');
+        const { status, lat, lng, radius, page = 1, limit = 15 } = c.req.valid('query') ?? {};
+
+        try {
+            const prisma = getPrisma(c);
+
+            const where: Prisma.VehicleAlertWhereInput = { vehicleId, ...(status && { status }) };
+            const [alerts, totalCount, vehicle] = await Promise.all([
+                prisma.vehicleAlert.findMany({
+                    where,
+                    orderBy: { updatedAt: 'desc' },
+                    skip: (page - 1) * limit,
+                    take: limit,
+                    select: alertSelect,
+                }),
+                prisma.vehicleAlert.count({ where }),
+                prisma.vehicle.findUnique({ where: { id: vehicleId }, select: { appFuelTank: true, ...tankCapacitySelect } }),
+            ]);
+
+            // Preços mudam: as recomendações são calculadas na consulta, não armazenadas
+            const data = [];
+            for (const alert of alerts) {
+                const location = lat !== undefined && lng !== undefined
+                    ? { latitude: lat, longitude: lng }
+                    : alert.latitude !== null && alert.longitude !== null
+                        ? { latitude: alert.latitude, longitude: alert.longitude }
+                        : null;
+                const recommendations = RECOMMENDABLE_STATUSES.includes(alert.status) && alert.fuelType && location && vehicle
+                    ? await getRefuelRecommendations(prisma, vehicle, alert.fuelType.id, location, radius)
+                    : null;
+                data.push({ ...alert, recommendations });
+            }
+
+            const totalPages = Math.ceil(totalCount / limit);
+            return c.json({
+                data,
+                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: totalPages }
+            });
+
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// POST /api/vehicles/:vehicleId/alerts/:alertId/acknowledge - Marcar alerta como visto
+vehicleRoutesController.post(
+    '/:vehicleId/alerts/:alertId/acknowledge',
+    zValidator('param', alertActionSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read),
+    async (c) => {
+        const userId = c.get('user').id;
+        const { vehicleId, alertId } = c.req.valid('param');
+
+        try {
+            const prisma = getPrisma(c);
+            const alert = await getOpenAlert(prisma, vehicleId, alertId);
+            if (alert.status !== VehicleAlertStatus.ACTIVE) {
+                return next(new AppError(`Apenas alertas ativos podem ser reconhecidos (status atual: ${alert.status}).`, 409));
+            }
+
+            const updated = await prisma.vehicleAlert.update({
+                where: { id: alertId },
+                data: { status: VehicleAlertStatus.ACKNOWLEDGED, acknowledgedAt: new Date(), handledById: userId },
+                select: alertSelect,
+            });
+            return c.json(updated);
+
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// POST /api/vehicles/:vehicleId/alerts/:alertId/dismiss - Dispensar alerta até o próximo abastecimento
+vehicleRoutesController.post(
+    '/:vehicleId/alerts/:alertId/dismiss',
+    zValidator('param', alertActionSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read),
+    async (c) => {
+        const userId = c.get('user').id;
+        const { vehicleId, alertId } = c.req.valid('param');
+
+        try {
+            const prisma = getPrisma(c);
+            const alert = await getOpenAlert(prisma, vehicleId, alertId);
+            if (alert.status === VehicleAlertStatus.DISMISSED) {
+                return next(new AppError('Este alerta já foi dispensado.', 409));
+            }
+
+            const updated = await prisma.vehicleAlert.update({
+                where: { id: alertId },
+                data: { status: VehicleAlertStatus.DISMISSED, dismissedAt: new Date(), handledById: userId },
+                select: alertSelect,
+            });
+            return c.json(updated);
+
+        } catch (error) {
+            next(error);
+        }
+    }
+);
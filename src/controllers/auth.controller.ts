@@ -1,32 +1,81 @@
 // import { hashPassword, comparePassword } from '../utils/password.util';
-import crypto from 'crypto';
-import { generateToken } from '../utils/jwt.utils';
-import { AppEnv, Hono } from 'hono';
+import { AppEnv, Context, Hono } from 'hono';
 import {
   forgotPasswordSchema,
   loginSchema,
+  loginTwoFactorSchema,
+  refreshTokenSchema,
   registerSchema,
   resetPasswordSchema,
-  testSchema
+  testSchema,
+  verifyEmailSchema,
+  verifyResetCodeSchema
 } from 'validators/auth.validator';
 import AppError from 'utils/AppError';
 import { PrismaD1 } from '@prisma/adapter-d1';
 import { PrismaClient } from '@prisma/client';
 import { zValidator } from '@hono/zod-validator';
 import { comparePassword, hashPassword } from 'utils/password.util';
-
-// --- Função auxiliar para gerar OTP (ex: 6 dígitos) ---
-const generateOtp = (length: number = 6): string => {
-  if (length <= 0) {
-    throw new Error("OTP length must be positive");
-  }
-  // Garante que o resultado sempre tenha 'length' dígitos, preenchendo com 0 à esquerda se necessário
-  const min = 0; // Math.pow(10, length - 1) se quiser garantir que não comece com 0
-  const max = Math.pow(10, length) - 1;
-  const otp = crypto.randomInt(min, max + 1); // +1 porque randomInt é exclusivo no limite superior
-  return otp.toString().padStart(length, '0');
+import { ClientInfo, createSession, getSessionConfig, revokeSessionByRefreshToken, rotateSession } from 'services/session.service';
+import { requestPasswordReset, resetPassword, verifyResetCode } from 'services/passwordReset.service';
+import { getEmailProvider } from 'services/email.service';
+import { sendVerificationCode, verifyEmail } from 'services/emailVerification.service';
+import { protect } from 'middlewares/auth.middleware';
+import { byBodyField, byIp, rateLimit } from 'middlewares/rateLimit.middleware';
+import { clearLoginFailures, getLoginLockoutSeconds, getRateLimitStore, loginAccountKey, registerLoginFailure } from 'services/rateLimit.service';
+import { getClientIp } from 'utils/request.util';
+import { userWhereByIdentifier } from 'utils/identifier.util';
+import { generateTwoFactorChallenge, TWO_FACTOR_CHALLENGE_EXPIRES_IN, verifyTwoFactorChallenge } from 'utils/jwt.utils';
+import { verifySecondFactor } from 'services/twoFactor.service';
+
+// Dispositivo/origem da requisição, exibidos na lista de sessões
+const getClientInfo = (c: Context<AppEnv>, deviceName?: string): ClientInfo => ({
+  userAgent: c.req.header('User-Agent')?.slice(0, 255) ?? null,
+  ipAddress: getClientIp(c),
+  deviceName: deviceName ?? null,
+});
+
+// Conta do login (email ou username resolvidos para o mesmo usuário), para o limite por conta
+const byLoginAccount = async (c: Context): Promise<string | null> => {
+  const identifier = await byBodyField('identifier')(c);
+  if (!identifier) return null;
+  const prisma = new PrismaClient({ adapter: new PrismaD1(c.env.DB) });
+  const user = await prisma.user.findUnique({ where: userWhereByIdentifier(identifier), select: { id: true } });
+  return loginAccountKey(user?.id ?? null, identifier);
 };
 
+// Limites por IP e por conta (janelas em segundos)
+const loginRateLimit = rateLimit([
+  { name: 'login:ip', limit: 20, windowSeconds: 15 * 60, key: byIp },
+  { name: 'login:account', limit: 10, windowSeconds: 15 * 60, key: byLoginAccount },
+]);
+const registerRateLimit = rateLimit({ name: 'register:ip', limit: 5, windowSeconds: 60 * 60, key: byIp });
+const emailCodeRateLimit = rateLimit([
+  { name: 'email-code:ip', limit: 10, windowSeconds: 60 * 60, key: byIp },
+  { name: 'email-code:email', limit: 3, windowSeconds: 60 * 60, key: byBodyField('email') },
+]);
+const codeCheckRateLimit = rateLimit([
+  { name: 'code-check:ip', limit: 30, windowSeconds: 15 * 60, key: byIp },
+  { name: 'code-check:email', limit: 10, windowSeconds: 15 * 60, key: byBodyField('email') },
+]);
+const loginTwoFactorRateLimit = rateLimit({ name: 'login-2fa:ip', limit: 20, windowSeconds: 15 * 60, key: byIp });
+const refreshRateLimit = rateLimit({ name: 'refresh:ip', limit: 60, windowSeconds: 60, key: byIp });
+
+// Usuário devolvido ao concluir o login (com ou sem segundo fator)
+const loginUserSelect = {
+  id: true, name: true, username: true, email: true, emailVerifiedAt: true, roleId: true, role: { select: { name: true } }
+} as const;
+
+const toLoginUser = (user: { id: string; name: string; username: string; email: string; emailVerifiedAt: Date | null; roleId: string; role: { name: string } }) => ({
+  id: user.id,
+  name: user.name,
+  username: user.username,
+  email: user.email,
+  emailVerified: user.emailVerifiedAt !== null,
+  role: user.role.name,
+  roleId: user.roleId
+});
+
 const authRoutesController = new Hono<AppEnv>();
 
 // authRoutes.use('*', prismaMiddleware); 
@@ -55,6 +104,7 @@ authRoutesController.post(
 
 authRoutesController.post(
   '/register',
+  registerRateLimit,
   zValidator('json', registerSchema.shape.body), // <-- Apply validator middleware HERE
   async (c) => {
     // Os dados já foram validados pelo middleware 'validate(registerSchema)'
@@ -97,6 +147,7 @@ authRoutesController.post(
           name: true,
           username: true,
           email: true,
+          emailVerifiedAt: true,
           createdAt: true,
           role: {
             select: {
@@ -106,6 +157,13 @@ authRoutesController.post(
         },
       });
 
+      // Envia o código de verificação; falha no envio não desfaz o cadastro (o usuário pode pedir reenvio)
+      try {
+        await sendVerificationCode(prisma, newUser.id, getEmailProvider(c.env), { enforceCooldown: false });
+      } catch (emailError) {
+        console.error("Verification Email Error:", emailError);
+      }
+
       return c.json(newUser, 201);
     } catch (error) {
       // Re-throw AppErrors or handle other errors
@@ -121,39 +179,57 @@ authRoutesController.post(
 // --- Login (Sign In) ---
 authRoutesController.post(
   '/login',
+  loginRateLimit,
   zValidator('json', loginSchema.shape.body),
   async (c) => {
     // Dados validados pelo middleware 'validate(loginSchema)'
-    const { email, password } = c.req.valid('json');
+    const { identifier, password, deviceName } = c.req.valid('json');
 
     try {
       const adapter = new PrismaD1(c.env.DB);
       const prisma = new PrismaClient({ adapter });
+
       const user = await prisma.user.findUnique({
-        where: { email },
-        select: { id: true, name: true, username: true, email: true, password: true, roleId: true, role: { select: { name: true } } } // Inclui roleId e nome do role
+        where: userWhereByIdentifier(identifier),
+        select: { ...loginUserSelect, password: true, twoFactorEnabledAt: true } // Inclui roleId e nome do role
       });
 
+      // Bloqueio progressivo após falhas seguidas nesta conta (email e username contam juntos)
+      const rateLimitStore = getRateLimitStore(c.env);
+      const accountKey = loginAccountKey(user?.id ?? null, identifier);
+      const lockoutSeconds = await getLoginLockoutSeconds(rateLimitStore, accountKey);
+      if (lockoutSeconds > 0) {
+        c.header('Retry-After', String(lockoutSeconds));
+        throw new AppError(`Muitas tentativas de login. Tente novamente em ${lockoutSeconds} segundo(s).`, 429);
+      }
+
       if (!user || !(await comparePassword(password, user.password))) {
+        // Contas inexistentes também contam, para não revelar quais existem
+        const lockedFor = await registerLoginFailure(rateLimitStore, accountKey);
+        if (lockedFor > 0) c.header('Retry-After', String(lockedFor));
         return c.json({ message: 'Credenciais inválidas.' }, 401);
       }
+      await clearLoginFailures(rateLimitStore, accountKey);
+
+      // Com 2FA ativo a senha só libera um desafio; a sessão sai em /auth/login/2fa
+      if (user.twoFactorEnabledAt) {
+        return c.json({
+          twoFactorRequired: true,
+          challengeToken: generateTwoFactorChallenge(user.id, getSessionConfig(c.env).jwtSecret, deviceName),
+          expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+        }, 200);
+      }
 
-      const JWT_SECRET = c.env.JWT_SECRET || 'seu_super_segredo_jwt_aqui';
-      const JWT_EXPIRES_IN = c.env.JWT_EXPIRES_IN || "7d";
-      const tokenPayload = { userId: user.id, roleId: user.roleId };
-      const token = generateToken(tokenPayload, JWT_SECRET, JWT_EXPIRES_IN);
-      // const token = '';
+      // Access token curto + refresh token da nova sessão (um por dispositivo)
+      const { token, refreshToken, refreshTokenExpiresAt } = await createSession(
+        prisma, user, getClientInfo(c, deviceName), getSessionConfig(c.env)
+      );
 
       return c.json({
         token,
-        user: {
-          id: user.id,
-          name: user.name,
-          username: user.username,
-          email: user.email,
-          role: user.role.name,
-          roleId: user.roleId
-        },
+        refreshToken,
+        refreshTokenExpiresAt,
+        user: toLoginUser(user),
       }, 200);
     } catch (error) {
       // Re-throw AppErrors or handle other errors
@@ -166,147 +242,219 @@ authRoutesController.post(
 
 );
 
-
-
-// --- Solicitar Reset de Senha (Forgot Password) ---
+// --- Login: segundo fator (TOTP ou código de recuperação) ---
 authRoutesController.post(
-  '/forgot-password',
-  zValidator('json', forgotPasswordSchema.shape.body),
+  '/login/2fa',
+  loginTwoFactorRateLimit,
+  zValidator('json', loginTwoFactorSchema.shape.body),
   async (c) => {
-    const { email } = c.req.valid('json');
+    const { challengeToken, code, recoveryCode } = c.req.valid('json');
 
     try {
+      const sessionConfig = getSessionConfig(c.env);
+      const challenge = verifyTwoFactorChallenge(challengeToken, sessionConfig.jwtSecret);
+      if (!challenge) {
+        throw new AppError('Desafio de login inválido ou expirado. Faça login novamente.', 401);
+      }
+
       const adapter = new PrismaD1(c.env.DB);
       const prisma = new PrismaClient({ adapter });
 
-      const user = await prisma.user.findUnique({
-        where: { email },
-      });
+      // Mesmo bloqueio progressivo do login, contado por conta
+      const rateLimitStore = getRateLimitStore(c.env);
+      const lockKey = `2fa:${challenge.userId}`;
+      const lockoutSeconds = await getLoginLockoutSeconds(rateLimitStore, lockKey);
+      if (lockoutSeconds > 0) {
+        c.header('Retry-After', String(lockoutSeconds));
+        throw new AppError(`Muitas tentativas de verificação. Tente novamente em ${lockoutSeconds} segundo(s).`, 429);
+      }
 
+      if (!(await verifySecondFactor(prisma, challenge.userId, { code, recoveryCode }))) {
+        const lockedFor = await registerLoginFailure(rateLimitStore, lockKey);
+        if (lockedFor > 0) c.header('Retry-After', String(lockedFor));
+        return c.json({ message: 'Código de verificação inválido.' }, 401);
+      }
+      await clearLoginFailures(rateLimitStore, lockKey);
+
+      const user = await prisma.user.findUnique({ where: { id: challenge.userId }, select: loginUserSelect });
       if (!user) {
-        console.log(`Tentativa de reset para email não cadastrado: ${email}`);
-        c.json({ message: 'Se o email estiver cadastrado, você receberá um código para redefinir sua senha.' }, 200);
-        return;
+        throw new AppError('Desafio de login inválido ou expirado. Faça login novamente.', 401);
       }
 
-      // 1. Gerar um código OTP seguro (ex: 6 dígitos)
-      const resetCode = generateOtp(6);
+      const { token, refreshToken, refreshTokenExpiresAt } = await createSession(
+        prisma, user, getClientInfo(c, challenge.deviceName), sessionConfig, { twoFactorVerified: true }
+      );
 
-      // 2. Hash do código antes de salvar no banco
-      // Usar bcrypt é possível, mas para OTPs curtos e de curta duração, SHA256 é comum e mais rápido.
-      // Se usar bcrypt, lembre-se que a comparação será assíncrona.
-      // Vamos usar SHA256 aqui para simplicidade na comparação síncrona depois.
-      const hashedCode = crypto
-        .createHash('sha256')
-        .update(resetCode) // Hash do código REAL
-        .digest('hex');
+      return c.json({ token, refreshToken, refreshTokenExpiresAt, user: toLoginUser(user) }, 200);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error("Login 2FA Error:", error);
+      throw new AppError('Erro ao concluir login.', 500);
+    }
+  }
+);
 
-      // 3. Definir data de expiração (ex: 10 minutos)
-      const resetExpires = new Date(Date.now() + 10 * 60 * 1000); // 10 minutos
 
-      // 4. Salvar HASH e expiração no usuário
-      await prisma.user.update({
-        where: { id: user.id },
-        data: {
-          passwordResetToken: hashedCode, // Salva o HASH
-          passwordResetExpires: resetExpires,
-        },
-      });
 
-      // 5. Montar e enviar o email com o CÓDIGO REAL
-      const message = `
-      <p>Você solicitou a redefinição de senha.</p>
-      <p>Seu código de verificação é: <strong>${resetCode}</strong></p>
-      <p>Este código expirará em 10 minutos.</p>
-      <p>Insira este código no aplicativo para definir uma nova senha.</p>
-      <p>Se você não solicitou isso, ignore este email.</p>
-    `;
-
-      // **!! DESCOMENTE !!** para enviar email
-      /*
-      await sendEmail({
-         to: user.email,
-         subject: 'Código de Redefinição de Senha - Meu App',
-         html: message,
-      });
-      */
-      console.log(`Código de Reset para ${email} (remover em prod): ${resetCode}`); // Para DEBUG
+// --- Renovar Access Token (rotaciona o refresh token) ---
+authRoutesController.post(
+  '/refresh',
+  refreshRateLimit,
+  zValidator('json', refreshTokenSchema.shape.body),
+  async (c) => {
+    const { refreshToken } = c.req.valid('json');
+
+    try {
+      const adapter = new PrismaD1(c.env.DB);
+      const prisma = new PrismaClient({ adapter });
+
+      const { token, refreshToken: newRefreshToken, refreshTokenExpiresAt } = await rotateSession(
+        prisma, refreshToken, getClientInfo(c), getSessionConfig(c.env)
+      );
 
-      c.json({ message: 'Se o email estiver cadastrado, você receberá um código para redefinir sua senha.' }, 200);
-      return;
+      return c.json({ token, refreshToken: newRefreshToken, refreshTokenExpiresAt }, 200);
     } catch (error) {
-      // Re-throw AppErrors or handle other errors
       if (error instanceof AppError) throw error;
-      // Handle specific Prisma errors if necessary (like unique constraints if check fails somehow)
-      console.error("Register Error:", error);
-      throw new AppError('Erro ao registrar usuário.', 500); // Default internal error
+      console.error("Refresh Error:", error);
+      throw new AppError('Erro ao renovar sessão.', 500);
     }
   }
 );
 
-// --- Resetar Senha (Verifica Código e Reseta) ---
+// --- Logout (encerra a sessão do refresh token) ---
+authRoutesController.post(
+  '/logout',
+  zValidator('json', refreshTokenSchema.shape.body),
+  async (c) => {
+    const { refreshToken } = c.req.valid('json');
+
+    try {
+      const adapter = new PrismaD1(c.env.DB);
+      const prisma = new PrismaClient({ adapter });
+
+      // Token inválido ou sessão já encerrada: o resultado para o cliente é o mesmo
+      await revokeSessionByRefreshToken(prisma, refreshToken);
+
+      return c.body(null, 204);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error("Logout Error:", error);
+      throw new AppError('Erro ao encerrar sessão.', 500);
+    }
+  }
+);
+
+// --- Verificar Email (código enviado no cadastro) ---
+authRoutesController.post(
+  '/verify-email',
+  codeCheckRateLimit,
+  zValidator('json', verifyEmailSchema.shape.body),
+  async (c) => {
+    const { email, code } = c.req.valid('json');
+
+    try {
+      const adapter = new PrismaD1(c.env.DB);
+      const prisma = new PrismaClient({ adapter });
+
+      const emailVerifiedAt = await verifyEmail(prisma, email, code);
+
+      return c.json({ message: 'Email verificado com sucesso.', emailVerifiedAt }, 200);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error("Verify Email Error:", error);
+      throw new AppError('Erro ao verificar email.', 500);
+    }
+  }
+);
+
+// --- Reenviar Código de Verificação (usuário logado, com intervalo mínimo) ---
+authRoutesController.post(
+  '/resend-verification',
+  protect,
+  async (c) => {
+    try {
+      const userId = c.get('user')!.id;
+      const adapter = new PrismaD1(c.env.DB);
+      const prisma = new PrismaClient({ adapter });
+
+      await sendVerificationCode(prisma, userId, getEmailProvider(c.env));
+
+      return c.json({ message: 'Código de verificação enviado.' }, 200);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error("Resend Verification Error:", error);
+      throw new AppError('Erro ao reenviar código de verificação.', 500);
+    }
+  }
+);
+
+// --- Solicitar Código de Reset de Senha (Forgot Password) ---
 authRoutesController.post(
   '/forgot-password',
-  zValidator('json', resetPasswordSchema),
+  emailCodeRateLimit,
+  zValidator('json', forgotPasswordSchema.shape.body),
   async (c) => {
-    // email, code, password validados pelo middleware 'validate(resetPasswordSchema)'
-    const { email, code, password } = c.req.valid('json').body;
+    const { email } = c.req.valid('json');
 
     try {
       const adapter = new PrismaD1(c.env.DB);
       const prisma = new PrismaClient({ adapter });
-      // 1. Hash do código recebido para comparar com o banco
-      const hashedCode = crypto
-        .createHash('sha256')
-        .update(code) // Hash do código que o usuário digitou
-        .digest('hex');
-
-      // 2. Encontrar usuário pelo EMAIL E verificar HASH do código E expiração
-      const user = await prisma.user.findFirst({
-        where: {
-          email: email, // Busca pelo email fornecido
-          passwordResetToken: hashedCode, // Compara com o HASH armazenado
-          passwordResetExpires: { gt: new Date() }, // Verifica se ainda é válido
-        },
-      });
 
-      // Se não encontrou usuário que satisfaça TODAS as condições
-      if (!user) {
-        // Verificar separadamente se o usuário existe mas o código/expiração falhou
-        // para talvez dar um feedback mais específico ou implementar rate limiting/bloqueio
-        const userExists = await prisma.user.findUnique({ where: { email } });
-        if (userExists) {
-          // Usuário existe, mas o código está errado ou expirou
-          // Aqui você pode querer incrementar uma contagem de tentativas falhas
-          console.log(`Tentativa de reset falhou para ${email} (código/expiração inválido)`);
-        }
-        c.json({ message: 'Código inválido ou expirado, ou email não corresponde.' }, 400);
-        return;
-      }
+      await requestPasswordReset(prisma, email, getEmailProvider(c.env));
 
-      // 3. Hash da nova senha
-      const hashedPassword = await hashPassword(password);
+      // Mesma resposta exista ou não o email (evita enumeração de contas)
+      return c.json({ message: 'Se o email estiver cadastrado, você receberá um código para redefinir sua senha.' }, 200);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error("Forgot Password Error:", error);
+      throw new AppError('Erro ao solicitar redefinição de senha.', 500);
+    }
+  }
+);
 
-      // 4. Atualizar senha do usuário E limpar campos de reset
-      await prisma.user.update({
-        where: { id: user.id }, // Usa o ID do usuário encontrado
-        data: {
-          password: hashedPassword,
-          passwordResetToken: null, // Limpa o código
-          passwordResetExpires: null, // Limpa a expiração
-        },
-      });
+// --- Verificar Código (antes de pedir a nova senha no app) ---
+authRoutesController.post(
+  '/verify-reset-code',
+  codeCheckRateLimit,
+  zValidator('json', verifyResetCodeSchema.shape.body),
+  async (c) => {
+    const { email, code } = c.req.valid('json');
 
-      // (Opcional) Enviar email de confirmação de alteração de senha
+    try {
+      const adapter = new PrismaD1(c.env.DB);
+      const prisma = new PrismaClient({ adapter });
+
+      await verifyResetCode(prisma, email, code);
 
-      c.json({ message: 'Senha redefinida com sucesso.' }, 200);
-      return;
+      return c.json({ message: 'Código válido.', valid: true }, 200);
     } catch (error) {
-      // Re-throw AppErrors or handle other errors
       if (error instanceof AppError) throw error;
-      // Handle specific Prisma errors if necessary (like unique constraints if check fails somehow)
-      console.error("Register Error:", error);
-      throw new AppError('Erro ao registrar usuário.', 500); // Default internal error
+      console.error("Verify Reset Code Error:", error);
+      throw new AppError('Erro ao verificar código.', 500);
+    }
+  }
+);
+
+// --- Resetar Senha (Verifica Código e Reseta) ---
+authRoutesController.post(
+  '/reset-password',
+  codeCheckRateLimit,
+  zValidator('json', resetPasswordSchema.shape.body),
+  async (c) => {
+    const { email, code, password } = c.req.valid('json');
+
+    try {
+      const adapter = new PrismaD1(c.env.DB);
+      const prisma = new PrismaClient({ adapter });
+
+      // Confere o código (conta tentativas), troca a senha e encerra todas as sessões
+      await resetPassword(prisma, email, code, password);
+
+      return c.json({ message: 'Senha redefinida com sucesso.' }, 200);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error("Reset Password Error:", error);
+      throw new AppError('Erro ao redefinir senha.', 500);
     }
   }
 );
@@ -1,7 +1,6 @@
 // src/controllers/budget.controller.ts
 
-import AppError from '../utils/AppError';
-import { Prisma, PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { AppEnv, Hono } from 'hono';
 import { protect } from 'middlewares/auth.middleware';
@@ -9,23 +8,9 @@ import { prismaMiddleware } from 'middlewares/prisma.middleware';
 import { zValidator } from '@hono/zod-validator';
 import { budgetIdParamSchema, createBudgetSchema, listBudgetsSchema, updateBudgetSchema } from 'validators/budget.validator';
 import permissions from 'utils/permissions';
-import { authorize } from 'middlewares/authorize.middleware';
+import { assertResourceAccess, authorize, authorizeResource, getAuthorizedResource } from 'middlewares/authorize.middleware';
 import next from 'middlewares/next.middleware';
-import { checkVehicleAccess } from './vehicle.controller';
-
-// --- Helper: Verifica propriedade e existência do orçamento ---
-async function checkBudgetOwnership(prisma: PrismaClient, userId: string, budgetId: string): Promise<Prisma.BudgetGetPayload<{}>> {
-    const budget = await prisma.budget.findUnique({
-        where: { id: budgetId },
-    });
-    if (!budget) {
-        throw new AppError(`Orçamento com ID ${budgetId} não encontrado.`, 404);
-    }
-    if (budget.userId !== userId) {
-        throw new AppError('Acesso não autorizado a este orçamento.', 403);
-    }
-    return budget;
-}
+import { activeFuelingWhere, activeGeneralExpenseWhere } from 'services/trash.service';
 
 const budgetRoutesController = new Hono<AppEnv>();
 
@@ -45,11 +30,8 @@ budgetRoutesController.post(
             const prisma = req.get('prisma');
             // Valida vehicleId se fornecido
             if (vehicleId) {
-                // Verifica se o veículo existe E se o usuário tem acesso a ele
-                const vehicleAccess = await checkVehicleAccess(prisma, userId, vehicleId); // Usa helper existente
-                if (!vehicleAccess) {
-                    return next(new AppError(`Veículo ${vehicleId} não encontrado ou acesso negado.`, 404)); // 404 ou 403
-                }
+                // Verifica se o veículo existe E se o usuário tem acesso a ele (lança 404/403)
+                await assertResourceAccess(req, 'vehicle', permissions.vehicle.read, vehicleId);
             }
 
             const newBudget = await prisma.budget.create({
@@ -85,6 +67,7 @@ budgetRoutesController.get(
             const skip = (page - 1) * limit;
             const where: Prisma.BudgetWhereInput = {
                 userId: userId, // Apenas orçamentos do usuário logado
+                OR: [{ vehicleId: null }, { vehicle: { deletedAt: null } }], // Orçamentos de veículos na lixeira ficam ocultos
             };
 
             if (vehicleId) {
@@ -122,17 +105,15 @@ budgetRoutesController.get(
 
 budgetRoutesController.get(
     '/:budgetId',
-    authorize([permissions.budget.read]),
     zValidator('param', budgetIdParamSchema.shape.params),
+    authorizeResource('budget', permissions.budget.read), // Verifica propriedade (ou ":any") e existência
     async (req) => {
 
         try {
-            const userId = req.get('user')!.id;
             const { budgetId } = req.req.valid('param');
             const prisma = req.get('prisma');
-            const budget = await checkBudgetOwnership(prisma, userId, budgetId); // Verifica propriedade e busca
 
-            // Busca novamente com includes, ou ajusta checkBudgetOwnership para incluir
+            // Busca novamente com includes
             const detailedBudget = await prisma.budget.findUnique({
                 where: { id: budgetId },
                 include: {
@@ -143,7 +124,7 @@ budgetRoutesController.get(
 
             return req.json(detailedBudget, 200);
         } catch (error) {
-            next(error); // Passa 404/403 do helper
+            next(error);
         }
     }
 );
@@ -151,29 +132,22 @@ budgetRoutesController.get(
 // --- PATCH /:budgetId (Update Budget) ---
 budgetRoutesController.patch(
     '/:budgetId',
-    authorize([permissions.budget.update]),
     zValidator('param', updateBudgetSchema.shape.params),
+    authorizeResource('budget', permissions.budget.update), // 1. Verify ownership
     zValidator('json', updateBudgetSchema.shape.body),  // Then validate body
     async (c) => {
         const prisma = c.get('prisma');
-        const user = c.get('user');
         const { budgetId } = c.req.valid('param');
         const { vehicleId, amount, startDate, endDate, ...restData } = c.req.valid('json');
 
         try {
-            // 1. Verify ownership
-            await checkBudgetOwnership(prisma, user.id, budgetId);
-
             // 2. Validate new vehicleId if changing
             let vehicleConnectDisconnect: Prisma.BudgetUpdateInput['vehicle'] = undefined;
             if (vehicleId !== undefined) { // Check if key exists in payload
                 if (vehicleId === null) {
                     vehicleConnectDisconnect = { disconnect: true };
                 } else {
-                    const vehicleAccess = await checkVehicleAccess(prisma, user.id, vehicleId);
-                    if (!vehicleAccess) {
-                        throw new AppError(`Veículo ${vehicleId} não encontrado ou acesso negado.`, 404);
-                    }
+                    await assertResourceAccess(c, 'vehicle', permissions.vehicle.read, vehicleId);
                     vehicleConnectDisconnect = { connect: { id: vehicleId } };
                 }
             }
@@ -184,7 +158,7 @@ budgetRoutesController.patch(
                 ...(amount !== undefined && { amount: new Decimal(amount) }),
                 ...(startDate !== undefined && { startDate: new Date(startDate) }),
                 ...(endDate !== undefined && { endDate: new Date(endDate) }),
-                ...(vehicleConnectDisconnect !== undefined && { vehicle: vehicleConnectDisconnect })
+                ...(vehicleConnectDisconnect !== undefined && { vehicle: vehicleConnectDisconnect, vehicleLabel: null })
             };
 
             // 4. Update
@@ -205,16 +179,14 @@ budgetRoutesController.patch(
 // --- DELETE /:budgetId (Delete Budget) ---
 budgetRoutesController.delete(
     '/:budgetId',
-    authorize([permissions.budget.delete]),
     zValidator('param', budgetIdParamSchema.shape.params),
+    authorizeResource('budget', permissions.budget.delete), // Verify ownership
     async (c) => {
 
         const { budgetId } = c.req.valid('param');
 
         try {
             const prisma = c.get('prisma');
-            const user = c.get('user');
-            await checkBudgetOwnership(prisma, user.id, budgetId); // Verify ownership
             await prisma.budget.delete({ where: { id: budgetId } });
 
             return c.body(null, 204); // No Content
@@ -227,30 +199,33 @@ budgetRoutesController.delete(
 // --- GET /:budgetId/status (Calculate Budget Status) ---
 budgetRoutesController.get(
     '/:budgetId/status',
-    authorize([permissions.budget.read]), // Same read permission likely suffices
     zValidator('param', budgetIdParamSchema.shape.params),
+    authorizeResource('budget', permissions.budget.read), // Same read permission likely suffices
     async (c) => {
-        const { budgetId } = c.req.valid('param');
-
         try {
             const prisma = c.get('prisma');
-            const user = c.get('user');
-            const budget = await checkBudgetOwnership(prisma, user.id, budgetId);
-            const { startDate, endDate, vehicleId, amount } = budget;
+            const budget = getAuthorizedResource(c, 'budget');
+            const { startDate, endDate, vehicleId, vehicleLabel, amount, userId } = budget;
+            // Orçamento de um veículo transferido: conta os gastos desvinculados do mesmo veículo
+            const vehicleFilter = vehicleId
+                ? { vehicleId: vehicleId }
+                : vehicleLabel ? { vehicleId: null, vehicleLabel: vehicleLabel } : {};
 
             const adjustedEndDate = new Date(endDate);
             adjustedEndDate.setHours(23, 59, 59, 999);
 
             // Define where clauses for expenses/fueling
             const expenseWhere: Prisma.GeneralExpenseWhereInput = {
-                userId: user.id, // Only user's expenses affecting budget? Or anyone associated with the vehicle? Decide based on requirements. Assuming user's expenses.
+                ...activeGeneralExpenseWhere, // Itens na lixeira não contam
+                userId: userId, // Gastos do dono do orçamento (não de quem consulta, que pode ter escopo ":any")
                 expenseDate: { gte: startDate, lte: adjustedEndDate },
-                ...(vehicleId && { vehicleId: vehicleId })
+                ...vehicleFilter
             };
             const fuelingWhere: Prisma.FuelingWhereInput = {
-                userId: user.id, // Same decision as above
+                ...activeFuelingWhere,
+                userId: userId, // Same decision as above
                 timestamp: { gte: startDate, lte: adjustedEndDate },
-                ...(vehicleId && { vehicleId: vehicleId })
+                ...vehicleFilter
             };
 
             // Aggregate costs
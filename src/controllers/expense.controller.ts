@@ -3,25 +3,31 @@
 import { AppEnv, Hono } from 'hono';
 import { prismaMiddleware } from '../middlewares/prisma.middleware'; // Adjust path
 import { protect } from '../middlewares/auth.middleware'; // Adjust path
-import { authorize } from '../middlewares/authorize.middleware'; // Adjust path
+import { authorize, authorizeResource, getAuthorizedResource } from '../middlewares/authorize.middleware'; // Adjust path
 import next from '../middlewares/next.middleware'; // Adjust path *** IMPORT CUSTOM NEXT ***
 import permissions from '../utils/permissions'; // Adjust path
 import AppError from '../utils/AppError';
-import { Prisma, PrismaClient, GeneralExpense, Fueling } from '@prisma/client';
+import { Prisma, PrismaClient, StationPriceStatus, VehicleShareRole } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
-import vehicleRoutesController, { checkVehicleAccess } from './vehicle.controller';
+import vehicleRoutesController from './vehicle.controller';
 import { Context } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { createFuelingSchema, createGeneralExpenseSchema, fuelingIdParamSchema, generalExpenseIdParamSchema, listFuelingsSchema, listGeneralExpensesSchema, updateFuelingSchema, updateGeneralExpenseSchema } from 'validators/expense.validator';
 import { fuelTypeIdParamSchema } from 'validators/fuelType.validator';
 import { PrismaD1 } from '@prisma/adapter-d1';
+import { applyLearnedEfficiency } from '../services/efficiency.service';
+import { clampFuelLevel, getEffectiveTankCapacity, tankCapacitySelect } from '../services/fuelLevel.service';
+import { resolveLowFuelAlerts } from '../services/alert.service';
+import { assertRestorable, getTrashRetentionDays } from '../services/trash.service';
 
 
+// Só considera preços verificados pela comunidade (ACTIVE); preços em revisão ou rejeitados são ignorados
 export async function getLatestStationPrice(prisma: PrismaClient, stationId: string, fuelTypeId: string): Promise<Decimal | null> {
     const priceResult = await prisma.stationPrice.findFirst({
         where: {
             gasStationId: stationId,
             fuelTypeId: fuelTypeId,
+            status: StationPriceStatus.ACTIVE,
         },
         orderBy: { reportedAt: 'desc' },
         select: { price: true }
@@ -29,48 +35,55 @@ export async function getLatestStationPrice(prisma: PrismaClient, stationId: str
     return priceResult?.price ?? null;
 }
 
-// --- Helper Function for Specific Expense Access ---
-type ExpenseType = 'general' | 'fueling';
-// Use specific return types for better type safety where possible
-type KnownExpense = (GeneralExpense & { vehicleId: string }) | (Fueling & { vehicleId: string });
-
-export async function checkExpenseAccess(
+// Hodômetro crescente por veículo: a leitura não pode ser menor que a de um abastecimento
+// anterior nem maior que a de um posterior (ignorando o próprio registro na edição)
+export async function assertMonotonicOdometer(
     prisma: PrismaClient,
-    userId: string,
-    expenseId: string,
-    expenseType: ExpenseType
-): Promise<KnownExpense> { // Return type can be refined if needed
-    let expense: KnownExpense | null = null;
-    let entityName = '';
-
-    if (expenseType === 'general') {
-        entityName = 'Gasto Geral';
-        expense = await prisma.generalExpense.findUnique({ where: { id: expenseId } });
-    } else if (expenseType === 'fueling') {
-        entityName = 'Abastecimento';
-        expense = await prisma.fueling.findUnique({ where: { id: expenseId } });
-    }
-
-    if (!expense) {
-        throw new AppError(`${entityName} com ID ${expenseId} não encontrado(a).`, 404);
+    vehicleId: string,
+    timestamp: Date,
+    odometer: Decimal,
+    excludeFuelingId?: string
+): Promise<void> {
+    const baseWhere: Prisma.FuelingWhereInput = {
+        vehicleId: vehicleId,
+        deletedAt: null,
+        odometer: { not: null },
+        ...(excludeFuelingId && { NOT: { id: excludeFuelingId } }),
+    };
+    const [previous, following] = await Promise.all([
+        prisma.fueling.findFirst({
+            where: { ...baseWhere, timestamp: { lte: timestamp } },
+            orderBy: { timestamp: 'desc' },
+            select: { odometer: true, timestamp: true },
+        }),
+        prisma.fueling.findFirst({
+            where: { ...baseWhere, timestamp: { gt: timestamp } },
+            orderBy: { timestamp: 'asc' },
+            select: { odometer: true, timestamp: true },
+        }),
+    ]);
+
+    if (previous?.odometer && odometer.lessThan(previous.odometer)) {
+        throw new AppError(`Hodômetro (${odometer} km) menor que o do abastecimento anterior (${previous.odometer} km em ${previous.timestamp.toISOString()}).`, 400);
     }
-
-    // Ensure vehicleId exists before checking access
-    if (!expense.vehicleId) {
-        console.error(`Consistency error: Expense ${expenseId} (${expenseType}) has no vehicleId.`);
-        throw new AppError(`Erro interno: Gasto/abastecimento sem veículo associado.`, 500);
+    if (following?.odometer && odometer.greaterThan(following.odometer)) {
+        throw new AppError(`Hodômetro (${odometer} km) maior que o do abastecimento seguinte (${following.odometer} km em ${following.timestamp.toISOString()}).`, 400);
     }
+}
 
-    const hasVehicleAccess = await checkVehicleAccess(prisma, userId, expense.vehicleId);
-    if (!hasVehicleAccess) {
-        console.warn(`Forbidden access attempt: User ${userId} tried to access ${expenseType} expense ${expenseId} via vehicle ${expense.vehicleId}`);
-        throw new AppError(`Acesso proibido ao veículo associado a este gasto/abastecimento.`, 403);
+// O volume abastecido não pode exceder a capacidade do tanque (quando cadastrada)
+export function assertVolumeWithinCapacity(volume: Decimal, tankCapacity: Decimal | null): void {
+    if (tankCapacity && volume.greaterThan(tankCapacity)) {
+        throw new AppError(`Volume abastecido (${volume.toFixed(2)} L) excede a capacidade do tanque (${tankCapacity} L).`, 400);
     }
-
-    return expense;
 }
 
-
+// Nível atual do tanque simulado, lido dentro da transação que vai alterá-lo (como nas viagens)
+async function getFuelLevelForUpdate(tx: Prisma.TransactionClient, vehicleId: string, tankCapacity: Decimal | null): Promise<Decimal> {
+    const vehicle = await tx.vehicle.findUnique({ where: { id: vehicleId }, select: { appFuelTank: true } });
+    if (!vehicle) throw new AppError(`Veículo com ID ${vehicleId} não encontrado.`, 404);
+    return clampFuelLevel(vehicle.appFuelTank, tankCapacity);
+}
 
 // --- Context Helpers ---
 const getPrisma = (c: Context<AppEnv>) => {
@@ -99,8 +112,8 @@ expenseRoutesController.use('*', protect, prismaMiddleware); // Protect all and
 // --- POST /general/:vehicleId (Create General Expense) ---
 vehicleRoutesController.post(
     '/:vehicleId/expenses/general',
-    authorize([permissions.expense.create]),
     zValidator('param', createGeneralExpenseSchema.shape.params), // Validate param first
+    authorizeResource('vehicle', permissions.expense.create), // 1. Check vehicle access
     zValidator('json', createGeneralExpenseSchema.shape.body),   // Then validate body
     async (c) => {
         const prisma = getPrisma(c);
@@ -109,11 +122,6 @@ vehicleRoutesController.post(
         const { cost, categoryId, ...restData } = c.req.valid('json');
 
         try {
-            // 1. Check vehicle access
-            const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-            // *** USING CUSTOM next as requested ***
-            if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
-
             // 2. Validate CategoryId exists
             const categoryExists = await prisma.expenseCategory.findUnique({
                 where: { id: categoryId }, select: { id: true },
@@ -146,25 +154,20 @@ vehicleRoutesController.post(
 // --- GET /general/:vehicleId (List General Expenses) ---
 vehicleRoutesController.get(
     '/:vehicleId/expenses/general',
-    authorize([permissions.expense.read]),
     zValidator('param', listGeneralExpensesSchema.shape.params),
+    authorizeResource('vehicle', permissions.expense.read), // 1. Check vehicle access
     zValidator('query', listGeneralExpensesSchema.shape.query),
     async (c) => {
         const prisma = getPrisma(c);
-        const user = getUser(c);
         const { vehicleId } = c.req.valid('param');
         const query = c.req.valid('query');
         const { categoryId, dateStart, dateEnd, limit } = query ?? {};
 
-        // 1. Check vehicle access
-        const hasAccess = await checkVehicleAccess(prisma, user.id, vehicleId);
-        // *** USING CUSTOM next as requested ***
-        if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
-
         try {
             // 2. Build query filters
             const where: Prisma.GeneralExpenseWhereInput = {
                 vehicleId: vehicleId,
+                deletedAt: null,
                 ...(categoryId && { categoryId: categoryId }),
                 // Combine date ranges correctly
                 ...(dateStart && dateEnd && { expenseDate: { gte: dateStart, lte: dateEnd } }),
@@ -194,18 +197,13 @@ vehicleRoutesController.get(
 // --- GET /general/detail/:expenseId (Get General Expense By ID) ---
 expenseRoutesController.get(
     '/general/detail/:expenseId',
-    authorize([permissions.expense.read]),
     zValidator('param', generalExpenseIdParamSchema.shape.params),
+    authorizeResource('generalExpense', permissions.expense.read), // Existence and vehicle access check
     async (c) => {
         const prisma = getPrisma(c);
-        const user = getUser(c);
         const { expenseId } = c.req.valid('param');
 
         try {
-            // checkExpenseAccess handles existence and vehicle access check
-            // It throws AppError on failure, caught by the global handler
-            await checkExpenseAccess(prisma, user.id, expenseId, 'general');
-
             const detailedExpense = await prisma.generalExpense.findUnique({
                 where: { id: expenseId },
                 include: {
@@ -228,19 +226,15 @@ expenseRoutesController.get(
 // --- PATCH /general/detail/:expenseId (Update General Expense) ---
 expenseRoutesController.patch(
     '/general/detail/:expenseId',
-    authorize([permissions.expense.update]),
     zValidator('param', updateGeneralExpenseSchema.shape.params),
+    authorizeResource('generalExpense', permissions.expense.update), // 1. Check access
     zValidator('json', updateGeneralExpenseSchema.shape.body),
     async (c) => {
         const prisma = getPrisma(c);
-        const user = getUser(c);
         const { expenseId } = c.req.valid('param');
         const { cost, categoryId, expenseDate, ...restData } = c.req.valid('json');
 
         try {
-            // 1. Check access via helper (throws on failure)
-            await checkExpenseAccess(prisma, user.id, expenseId, 'general');
-
             // 2. Validate new CategoryId if provided
             if (categoryId) {
                 const categoryExists = await prisma.expenseCategory.findUnique({
@@ -276,19 +270,15 @@ expenseRoutesController.patch(
 // --- DELETE /general/detail/:expenseId (Delete General Expense) ---
 expenseRoutesController.delete(
     '/general/detail/:expenseId',
-    authorize([permissions.expense.delete]),
     zValidator('param', generalExpenseIdParamSchema.shape.params),
+    authorizeResource('generalExpense', permissions.expense.delete), // 1. Check access
     async (c) => {
         const prisma = getPrisma(c);
-        const user = getUser(c);
         const { expenseId } = c.req.valid('param');
 
         try {
-            // 1. Check access via helper (throws on failure)
-            await checkExpenseAccess(prisma, user.id, expenseId, 'general');
-
-            // 2. Delete
-            await prisma.generalExpense.delete({ where: { id: expenseId } });
+            // 2. Move to the trash
+            await prisma.generalExpense.update({ where: { id: expenseId }, data: { deletedAt: new Date() } });
 
             return c.body(null, 204); // No Content
         } catch (error) {
@@ -297,6 +287,31 @@ expenseRoutesController.delete(
     }
 );
 
+// --- POST /general/detail/:expenseId/restore (Restore General Expense from the trash) ---
+expenseRoutesController.post(
+    '/general/detail/:expenseId/restore',
+    zValidator('param', generalExpenseIdParamSchema.shape.params),
+    authorizeResource('generalExpense', permissions.expense.delete, { includeDeleted: true }), // Same rule as deleting
+    async (c) => {
+        const prisma = getPrisma(c);
+        const { expenseId } = c.req.valid('param');
+
+        try {
+            assertRestorable(getAuthorizedResource(c, 'generalExpense'), getTrashRetentionDays(c.env));
+
+            const restoredExpense = await prisma.generalExpense.update({
+                where: { id: expenseId },
+                data: { deletedAt: null },
+                include: { category: true, user: { select: { id: true, username: true } } }
+            });
+
+            return c.json(restoredExpense, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
 
 // ==============================
 // Fueling Routes
@@ -305,8 +320,8 @@ expenseRoutesController.delete(
 // --- POST /fueling/:vehicleId (Create Fueling) ---
 vehicleRoutesController.post(
     '/:vehicleId/expenses/fueling',
-    authorize([permissions.expense.create]),
     zValidator('param', createFuelingSchema.shape.params),
+    authorizeResource('vehicle', permissions.expense.create, { shareRole: VehicleShareRole.DRIVER }), // 1. Check vehicle access (drivers log fuelings)
     zValidator('json', createFuelingSchema.shape.body),
     async (c) => {
         const prisma = getPrisma(c);
@@ -314,15 +329,11 @@ vehicleRoutesController.post(
         const { vehicleId } = c.req.valid('param');
         const {
             cost, fuelTypeId, timestamp, latitude, longitude,
-            pricePerLiter: inputPricePerLiter, gasStationId
+            pricePerLiter: inputPricePerLiter, gasStationId,
+            volume: inputVolume, odometer, isFullTank
         } = c.req.valid('json');
 
         try {
-            // 1. Check vehicle access
-            const hasAccess = await checkVehicleAccess(prisma, user.id, vehicleId);
-            // *** USING CUSTOM next as requested ***
-            if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
-
             // 2. Validate FuelTypeId exists
             const fuelTypeExists = await prisma.fuelType.findUnique({
                 where: { id: fuelTypeId }, select: { id: true },
@@ -331,6 +342,9 @@ vehicleRoutesController.post(
             if (!fuelTypeExists) return next(new AppError(`Tipo de combustível com ID ${fuelTypeId} não encontrado.`, 400));
 
             // 3. Determine final price per liter based on station/input
+            const costDecimal = new Decimal(cost);
+            // Sem preço informado, o volume da bomba define o preço (custo / litros)
+            const priceFromVolume = inputVolume !== undefined ? costDecimal.dividedBy(inputVolume).toDecimalPlaces(3, Decimal.ROUND_HALF_UP) : null;
             let finalPricePerLiter: Decimal | null = null;
             if (gasStationId) {
                 const stationExists = await prisma.gasStation.findUnique({
@@ -347,12 +361,13 @@ vehicleRoutesController.post(
                         console.warn(`User price ${inputPricePerLiter} differs from station price ${stationPrice} for station ${gasStationId}. Using station price.`);
                     }
                 } else {
-                    // Station exists, no price found, inputPrice is required by validator refine
-                    finalPricePerLiter = new Decimal(inputPricePerLiter!); // Use non-null assertion as validator ensures it exists
+                    // Station exists but has no verified price: the user must inform the price (or volume)
+                    if (inputPricePerLiter === undefined && !priceFromVolume) return next(new AppError('Este posto não possui preço verificado para o combustível. Informe o preço por litro.', 400));
+                    finalPricePerLiter = inputPricePerLiter !== undefined ? new Decimal(inputPricePerLiter) : priceFromVolume;
                 }
             } else {
-                // No station, inputPrice is required by validator refine
-                finalPricePerLiter = new Decimal(inputPricePerLiter!); // Use non-null assertion
+                // No station, inputPrice (or volume) is required by validator refine
+                finalPricePerLiter = inputPricePerLiter !== undefined ? new Decimal(inputPricePerLiter) : priceFromVolume;
             }
 
             // Safeguard after logic
@@ -361,38 +376,52 @@ vehicleRoutesController.post(
                 throw new AppError('Não foi possível determinar um preço por litro válido.', 500);
             }
 
-            // 4. Prepare data and calculate volume
-            const costDecimal = new Decimal(cost);
-            const finalVolume = costDecimal.dividedBy(finalPricePerLiter).toNumber(); // Calculate volume
+            // 4. Prepare data and calculate volume (litros informados pela bomba ou custo / preço)
+            const finalVolume = inputVolume !== undefined
+                ? new Decimal(inputVolume)
+                : costDecimal.dividedBy(finalPricePerLiter).toDecimalPlaces(3, Decimal.ROUND_HALF_UP);
 
-            if (finalVolume === null || finalVolume < 0 || !Number.isFinite(finalVolume)) {
+            if (!finalVolume.isFinite() || !finalVolume.isPositive()) {
                 console.error("Failed to calculate a valid fueling volume.", { cost, finalPricePerLiter, finalVolume });
                 throw new AppError('Falha ao determinar o volume do abastecimento (custo/preço inválido?).', 500);
             }
 
             const vehicle = await prisma.vehicle.findUnique({
                 where: { id: vehicleId },
-                select: { id: true, appFuelTank: true }
+                select: { id: true, autoUpdateKml: true, ...tankCapacitySelect }
             });
             // *** USING CUSTOM next as requested *** (Or throw AppError)
             if (!vehicle) return next(new AppError(`Veiculo com ID ${vehicleId} não encontrado.`, 400));
 
+            // 5. Validate volume against tank and odometer ordering
+            const fuelingTimestamp = timestamp ?? new Date();
+            const tankCapacity = getEffectiveTankCapacity(vehicle);
+            assertVolumeWithinCapacity(finalVolume, tankCapacity);
+            const odometerDecimal = odometer !== undefined ? new Decimal(odometer) : null;
+            if (odometerDecimal) {
+                await assertMonotonicOdometer(prisma, vehicleId, fuelingTimestamp, odometerDecimal);
+            }
+
 
-            // 5. Create Fueling record and update tank in transaction
+            // 6. Create Fueling record and update tank in transaction
             const result = await prisma.$transaction(async (tx) => {
+                // Nível lido dentro da transação, para não perder viagens/abastecimentos simultâneos
+                const levelBefore = await getFuelLevelForUpdate(tx, vehicleId, tankCapacity);
                 const newFueling = await tx.fueling.create({
                     data: {
                         cost: costDecimal,
                         pricePerLiter: finalPricePerLiter,
-                        timestamp: timestamp ?? new Date(), // Use provided or current date
+                        timestamp: fuelingTimestamp, // Use provided or current date
                         latitude: latitude,
                         longitude: longitude,
-                        // volume: finalVolume, // Store calculated volume
+                        volume: finalVolume, // Store informed/calculated volume
+                        odometer: odometerDecimal,
+                        isFullTank: isFullTank,
                         fuelTypeId: fuelTypeId,
                         vehicleId: vehicleId,
                         userId: user.id,
                         gasStationId: gasStationId ?? null,
-                        momentAppFuelTank: vehicle.appFuelTank // Store tank level *before* update
+                        momentAppFuelTank: levelBefore // Store tank level *before* update
                     },
                     include: {
                         fuelType: true,
@@ -401,15 +430,23 @@ vehicleRoutesController.post(
                     }
                 });
 
-                // Update vehicle tank (atomic increment)
+                // Update vehicle tank (never above capacity: the excess means the simulation was behind)
                 await tx.vehicle.update({
                     where: { id: vehicleId },
-                    data: { appFuelTank: { increment: finalVolume } }
+                    data: { appFuelTank: clampFuelLevel(levelBefore.plus(finalVolume), tankCapacity) }
                 });
 
                 return newFueling;
             });
 
+            // Novo intervalo entre abastecimentos: reaprende kmlCity/kmlRoad se o veículo optou por isso
+            if (vehicle.autoUpdateKml) {
+                await applyLearnedEfficiency(prisma, vehicleId);
+            }
+
+            // Tanque reabastecido: encerra o alerta de combustível baixo se a autonomia voltou ao normal
+            await resolveLowFuelAlerts(prisma, vehicleId);
+
             return c.json(result, 201);
 
         } catch (error) {
@@ -422,25 +459,20 @@ vehicleRoutesController.post(
 // GET /api/vehicles/:vehicleId/expenses/fueling - List fuelings for a vehicle
 vehicleRoutesController.get(
     '/:vehicleId/expenses/fueling',
-    authorize([permissions.expense.read]),
     zValidator('param', listFuelingsSchema.shape.params),
+    authorizeResource('vehicle', permissions.expense.read), // 1. Check vehicle access
     zValidator('query', listFuelingsSchema.shape.query),
     async (c) => {
         const prisma = getPrisma(c);
-        const user = getUser(c);
         const { vehicleId } = c.req.valid('param');
         const query = c.req.valid('query');
         const { fuelTypeId, dateStart, dateEnd } = query ?? {};
 
-        // 1. Check vehicle access
-        const hasAccess = await checkVehicleAccess(prisma, user.id, vehicleId);
-        // *** USING CUSTOM next as requested ***
-        if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
-
         try {
             // 2. Build query filters
             const where: Prisma.FuelingWhereInput = {
                 vehicleId: vehicleId,
+                deletedAt: null,
                 ...(fuelTypeId && { fuelTypeId: fuelTypeId }),
                 ...(dateStart && dateEnd && { timestamp: { gte: dateStart, lte: dateEnd } }),
                 ...(dateStart && !dateEnd && { timestamp: { gte: dateStart } }),
@@ -470,20 +502,15 @@ vehicleRoutesController.get(
 // --- GET /fueling/detail/:fuelingId (Get Fueling By ID) ---
 expenseRoutesController.get(
     '/fueling/:fuelingId',
-    authorize([permissions.expense.read]),
     zValidator('param', fuelingIdParamSchema.shape.params),
+    authorizeResource('fueling', permissions.expense.read), // Existence and vehicle access check
     async (c) => {
         const adapter = new PrismaD1(c.env.DB);
         const prisma = new PrismaClient({ adapter });
-        const user = getUser(c);
         const { fuelingId } = c.req.valid('param');
 
 
         try {
-            // checkExpenseAccess handles existence and vehicle access check
-            await checkExpenseAccess(prisma, user.id, fuelingId, 'fueling');
-
-
             const detailedFueling = await prisma.fueling.findUnique({
                 where: { id: fuelingId },
                 include: {
@@ -506,33 +533,33 @@ expenseRoutesController.get(
 // --- PATCH /fueling/detail/:fuelingId (Update Fueling) ---
 expenseRoutesController.patch(
     '/fueling/:fuelingId',
-    authorize([permissions.expense.update]),
     zValidator('param', updateFuelingSchema.shape.params),
+    authorizeResource('fueling', permissions.expense.update), // 1. Check access
     zValidator('json', updateFuelingSchema.shape.body),
     async (c) => {
         const prisma = getPrisma(c);
-        const user = getUser(c);
         const { fuelingId } = c.req.valid('param');
         const {
             cost, pricePerLiter, timestamp, fuelTypeId,
-            gasStationId, latitude, longitude
+            gasStationId, latitude, longitude,
+            volume, odometer, isFullTank
         } = c.req.valid('json');
 
-        // 1. Check access (Simplified - doesn't use checkExpenseAccess for update as per original logic)
-        const currentFueling = await prisma.fueling.findUnique({
-            where: { id: fuelingId },
-            // Include enough info to check ownership/authorization via vehicle relation
-            include: { vehicle: { select: { ownerId: true, authorizedUsers: { where: { userId: user.id }, select: { userId: true } } } } }
-        });
-        // *** USING CUSTOM next as requested ***
-        if (!currentFueling) return next(new AppError(`Abastecimento ${fuelingId} não encontrado.`, 404));
-        const vehicle = currentFueling.vehicle;
-        // *** USING CUSTOM next as requested ***
-        if (!vehicle || (vehicle.ownerId !== user.id && vehicle.authorizedUsers.length === 0)) {
-            return next(new AppError(`Acesso proibido a este abastecimento.`, 403));
-        }
+        const currentFueling = getAuthorizedResource(c, 'fueling');
+        const vehicleId = currentFueling.vehicleId;
 
         try {
+            // Desvinculado numa transferência: não há mais tanque nem hodômetro para manter coerentes
+            if (!vehicleId) return next(new AppError('Abastecimentos de veículos transferidos só podem ser consultados ou excluídos.', 409));
+
+            // Capacidade do tanque do veículo do abastecimento
+            const vehicle = await prisma.vehicle.findUnique({
+                where: { id: vehicleId },
+                select: tankCapacitySelect
+            });
+            // *** USING CUSTOM next as requested ***
+            if (!vehicle) return next(new AppError(`Veículo do abastecimento ${fuelingId} não encontrado.`, 404));
+
             // 2. Prepare data - handle relations and type conversions
             const dataToUpdate: Prisma.FuelingUpdateInput = {};
             if (cost !== undefined) dataToUpdate.cost = new Decimal(cost);
@@ -540,6 +567,32 @@ expenseRoutesController.patch(
             if (timestamp !== undefined) dataToUpdate.timestamp = timestamp; // Already Date obj
             if (latitude !== undefined) dataToUpdate.latitude = latitude;
             if (longitude !== undefined) dataToUpdate.longitude = longitude;
+            if (isFullTank !== undefined) dataToUpdate.isFullTank = isFullTank;
+
+            // Volume: o informado ou o já salvo (da bomba) prevalece e, sem preço informado, o preço sai de
+            // custo / litros, como na criação; registros antigos sem volume o recalculam por custo / preço
+            const newCost = dataToUpdate.cost instanceof Decimal ? dataToUpdate.cost : currentFueling.cost;
+            if (volume !== undefined) dataToUpdate.volume = new Decimal(volume);
+            const effectiveVolume = volume !== undefined ? new Decimal(volume) : currentFueling.volume;
+            if (effectiveVolume) {
+                if (pricePerLiter === undefined && (cost !== undefined || volume !== undefined)) {
+                    dataToUpdate.pricePerLiter = newCost.dividedBy(effectiveVolume).toDecimalPlaces(3, Decimal.ROUND_HALF_UP);
+                }
+            } else if (cost !== undefined || pricePerLiter !== undefined) {
+                const newPrice = dataToUpdate.pricePerLiter instanceof Decimal ? dataToUpdate.pricePerLiter : currentFueling.pricePerLiter;
+                dataToUpdate.volume = newCost.dividedBy(newPrice).toDecimalPlaces(3, Decimal.ROUND_HALF_UP);
+            }
+            const tankCapacity = getEffectiveTankCapacity(vehicle);
+            if (dataToUpdate.volume instanceof Decimal) {
+                assertVolumeWithinCapacity(dataToUpdate.volume, tankCapacity);
+            }
+
+            // Hodômetro: revalida a ordem se a leitura ou a data mudarem
+            if (odometer !== undefined) dataToUpdate.odometer = odometer === null ? null : new Decimal(odometer);
+            const effectiveOdometer = odometer !== undefined ? odometer : currentFueling.odometer;
+            if (effectiveOdometer !== null && (odometer !== undefined || timestamp !== undefined)) {
+                await assertMonotonicOdometer(prisma, vehicleId, timestamp ?? currentFueling.timestamp, new Decimal(effectiveOdometer), fuelingId);
+            }
 
             if (fuelTypeId !== undefined) {
                 const exists = await prisma.fuelType.findUnique({ where: { id: fuelTypeId }, select: { id: true } });
@@ -557,13 +610,27 @@ expenseRoutesController.patch(
                     dataToUpdate.gasStation = { connect: { id: gasStationId } };
                 }
             }
-            // NOTE: Volume recalculation on update is omitted for simplicity, as in original code.
 
-            // 3. Update
-            const updatedFueling = await prisma.fueling.update({
-                where: { id: fuelingId },
-                data: dataToUpdate,
-                include: { fuelType: true, user: { select: { id: true, username: true } }, gasStation: { select: { id: true, name: true } } }
+            // 3. Update (and move the simulated tank by the volume difference)
+            const updatedFueling = await prisma.$transaction(async (tx) => {
+                const fueling = await tx.fueling.update({
+                    where: { id: fuelingId },
+                    data: dataToUpdate,
+                    include: { fuelType: true, user: { select: { id: true, username: true } }, gasStation: { select: { id: true, name: true } } }
+                });
+
+                if (dataToUpdate.volume instanceof Decimal) {
+                    const previousVolume = currentFueling.volume ?? currentFueling.cost.dividedBy(currentFueling.pricePerLiter);
+                    const deltaVolume = dataToUpdate.volume.minus(previousVolume);
+                    if (!deltaVolume.isZero()) {
+                        const level = await getFuelLevelForUpdate(tx, vehicleId, tankCapacity);
+                        await tx.vehicle.update({
+                            where: { id: vehicleId },
+                            data: { appFuelTank: clampFuelLevel(level.plus(deltaVolume), tankCapacity) }
+                        });
+                    }
+                }
+                return fueling;
             });
 
             return c.json(updatedFueling, 200);
@@ -577,23 +644,31 @@ expenseRoutesController.patch(
 // --- DELETE /fueling/detail/:fuelingId (Delete Fueling) ---
 expenseRoutesController.delete(
     '/fueling/:fuelingId',
-    authorize([permissions.expense.delete]),
     zValidator('param', fuelingIdParamSchema.shape.params),
+    authorizeResource('fueling', permissions.expense.delete), // 1. Check access
     async (c) => {
         const prisma = getPrisma(c);
-        const user = getUser(c);
         const { fuelingId } = c.req.valid('param');
 
         try {
-            // 1. Check access via helper (throws on failure)
-            await checkExpenseAccess(prisma, user.id, fuelingId, 'fueling');
-
-            // TODO: Consider transaction to also *subtract* volume from vehicle's appFuelTank?
-            // This makes delete more complex but maintains tank accuracy.
-            // For now, just delete the record as per original logic.
+            const fueling = getAuthorizedResource(c, 'fueling');
+            const vehicleId = fueling.vehicleId;
 
-            // 2. Delete
-            await prisma.fueling.delete({ where: { id: fuelingId } });
+            // 2. Move to the trash and remove the fueling volume from the simulated tank (if still linked to a vehicle)
+            await prisma.$transaction(async (tx) => {
+                const vehicle = vehicleId ? await tx.vehicle.findUnique({
+                    where: { id: vehicleId },
+                    select: { appFuelTank: true, ...tankCapacitySelect }
+                }) : null;
+                await tx.fueling.update({ where: { id: fuelingId }, data: { deletedAt: new Date() } });
+                if (vehicleId && vehicle) {
+                    const volume = fueling.volume ?? fueling.cost.dividedBy(fueling.pricePerLiter);
+                    await tx.vehicle.update({
+                        where: { id: vehicleId },
+                        data: { appFuelTank: clampFuelLevel(vehicle.appFuelTank.minus(volume), getEffectiveTankCapacity(vehicle)) }
+                    });
+                }
+            });
 
             return c.body(null, 204); // No Content
         } catch (error) {
@@ -602,6 +677,53 @@ expenseRoutesController.delete(
     }
 );
 
+// --- POST /fueling/:fuelingId/restore (Restore Fueling from the trash) ---
+expenseRoutesController.post(
+    '/fueling/:fuelingId/restore',
+    zValidator('param', fuelingIdParamSchema.shape.params),
+    authorizeResource('fueling', permissions.expense.delete, { includeDeleted: true }), // Same rule as deleting
+    async (c) => {
+        const prisma = getPrisma(c);
+        const { fuelingId } = c.req.valid('param');
+
+        try {
+            const fueling = getAuthorizedResource(c, 'fueling');
+            const vehicleId = fueling.vehicleId;
+            assertRestorable(fueling, getTrashRetentionDays(c.env));
+
+            // Abastecimentos registrados depois da exclusão podem ter leituras incompatíveis
+            if (vehicleId && fueling.odometer !== null) {
+                await assertMonotonicOdometer(prisma, vehicleId, fueling.timestamp, fueling.odometer, fuelingId);
+            }
+
+            // 2. Restore and put the fueling volume back into the simulated tank
+            const restoredFueling = await prisma.$transaction(async (tx) => {
+                const vehicle = vehicleId ? await tx.vehicle.findUnique({
+                    where: { id: vehicleId },
+                    select: { appFuelTank: true, ...tankCapacitySelect }
+                }) : null;
+                const restored = await tx.fueling.update({
+                    where: { id: fuelingId },
+                    data: { deletedAt: null },
+                    include: { fuelType: true, user: { select: { id: true, username: true } }, gasStation: { select: { id: true, name: true } } }
+                });
+                if (vehicleId && vehicle) {
+                    const volume = fueling.volume ?? fueling.cost.dividedBy(fueling.pricePerLiter);
+                    await tx.vehicle.update({
+                        where: { id: vehicleId },
+                        data: { appFuelTank: clampFuelLevel(vehicle.appFuelTank.plus(volume), getEffectiveTankCapacity(vehicle)) }
+                    });
+                }
+                return restored;
+            });
+
+            return c.json(restoredFueling, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
 
 // ==============================
 // Category Route
@@ -1,6 +1,6 @@
 // src/controllers/note.controller.ts
 import AppError from '../utils/AppError';
-import { Prisma, PrismaClient } from '@prisma/client';
+import { PrismaClient } from '@prisma/client';
 
 // Import types from validator
 import {
@@ -21,56 +21,15 @@ import {
 } from '../validators/note.validator';
 import { protect } from 'middlewares/auth.middleware';
 import { AppEnv, Context, Hono } from 'hono';
-import { authorize } from 'middlewares/authorize.middleware';
+import { authorize, authorizeResource, getAuthorizedResource } from 'middlewares/authorize.middleware';
 import permissions from 'utils/permissions';
 import { zValidator } from '@hono/zod-validator';
-import vehicleRoutesController, { checkVehicleAccess } from './vehicle.controller';
+import vehicleRoutesController from './vehicle.controller';
 import next from 'middlewares/next.middleware';
 import { PrismaD1 } from '@prisma/adapter-d1';
+import { assertRestorable, getTrashRetentionDays } from 'services/trash.service';
 import { z } from 'zod';
 
-// --- Helper Function for Note Access ---
-/**
- * Checks if a user has access to a note via its associated vehicle.
- * Throws AppError (404/403) if note/vehicle not found or access denied.
- */
-async function checkNoteAccess(prisma: PrismaClient, userId: string, noteId: string): Promise<Prisma.NoteReminderGetPayload<{ include: { vehicle: { select: { id: true } } } }>> {
-    const note = await prisma.noteReminder.findUnique({
-        where: { id: noteId },
-        include: {
-            vehicle: { // Need vehicle to check its owner/authorized users
-                select: {
-                    id: true, // Include vehicle ID for potential further use
-                    ownerId: true,
-                    authorizedUsers: { // Efficiently check if user is authorized
-                        where: { userId: userId },
-                        select: { userId: true }
-                    }
-                }
-            }
-        }
-    });
-
-    if (!note) {
-        throw new AppError(`Nota/Lembrete com ID ${noteId} não encontrado(a).`, 404);
-    }
-    if (!note.vehicle) {
-        // Data integrity issue, should not happen with required relation
-        console.error(`NoteReminder ${noteId} is missing its associated vehicle!`);
-        throw new AppError('Erro interno ao verificar acesso à nota.', 500);
-    }
-
-    const isOwner = note.vehicle.ownerId === userId;
-    const isAuthorized = note.vehicle.authorizedUsers.length > 0;
-
-    if (!isOwner && !isAuthorized) {
-        throw new AppError('Acesso proibido a esta nota/lembrete.', 403);
-    }
-
-    // Note: The returned note object still contains vehicle relation data here
-    return note;
-}
-
 // --- Note/Reminder Controllers ---
 const getPrisma = (c: Context<AppEnv>) => {
     const adapter = new PrismaD1(c.env.DB);
@@ -90,8 +49,8 @@ noteRoutesController.use('*', protect); // Protect all and ensure Prisma
 
 noteRoutesController.post(
     '/',
-    authorize([permissions.note.create]),
     zValidator('param', createNoteSchema.shape.params),
+    authorizeResource('vehicle', permissions.note.create), // 1. Check user has access to the target vehicle
     zValidator('json', z.object(noteReminderBaseSchema)),
     async (c) => {
         const userId = c.get('user').id; // Creator
@@ -100,13 +59,6 @@ noteRoutesController.post(
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check user has access to the target vehicle
-            const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-            if (!hasAccess) {
-                // Handle case where vehicle might not exist separately if needed
-                return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
-            }
-
             // 2. Validate TypeId exists
             const typeExists = await prisma.noteReminderType.findUnique({
                 where: { id: data.typeId }, select: { id: true },
@@ -140,25 +92,19 @@ noteRoutesController.post(
 
 vehicleRoutesController.get(
     '/:vehicleId/notes',
-    authorize([permissions.note.read]),
     zValidator('param', listNotesSchema.shape.params),
+    authorizeResource('vehicle', permissions.note.read), // 1. Check user has access to the target vehicle
     async (c) => {
-        const userId = c.get('user')!.id;
         const { vehicleId } = c.req.valid('param');
         // const { typeId } = req.query; // Example filtering
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check user has access to the target vehicle
-            const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-            if (!hasAccess) {
-                return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
-            }
-
             // 2. Fetch notes
             const notes = await prisma.noteReminder.findMany({
                 where: {
                     vehicleId: vehicleId,
+                    deletedAt: null,
                     // ...(typeId && { typeId: typeId as string }) // Apply filter if present
                 },
                 orderBy: { createdAt: 'desc' },
@@ -179,15 +125,12 @@ vehicleRoutesController.get(
 
 noteRoutesController.get(
     '/:noteId',
-    authorize([permissions.note.read]),
     zValidator('param', noteIdParamSchema.shape.params),
+    authorizeResource('note', permissions.note.read),
     async (c) => {
-        const userId = c.get('user').id;
         const { noteId } = c.req.valid('param');
         try {
             const prisma = getPrisma(c);
-            // Checks access and existence
-            await checkNoteAccess(prisma, userId, noteId);
 
             // Fetch full details including todos
             const note = await prisma.noteReminder.findUnique({
@@ -201,30 +144,27 @@ noteRoutesController.get(
                     }
                 }
             });
-            // Should exist because checkNoteAccess passed, but check again just in case
+            // Should exist because authorizeResource passed, but check again just in case
             if (!note) return next(new AppError(`Nota/Lembrete com ID ${noteId} não encontrado(a).`, 404));
 
             return c.json(note);
         } catch (error) {
-            next(error); // Handles AppError from checkNoteAccess (404/403)
+            next(error);
         }
     }
 );
 
 noteRoutesController.patch(
     '/:noteId',
-    authorize([permissions.note.update]),
     zValidator('param', updateNoteSchema.shape.params),
+    authorizeResource('note', permissions.note.update), // 1. Check access and existence
     zValidator('json', updateNoteSchema.shape.body),
     async (c) => {
-        const userId = c.get('user').id;
         const { noteId } = c.req.valid('param');
         const dataToUpdate = c.req.valid('json');
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check access and existence
-            await checkNoteAccess(prisma, userId, noteId);
 
             // 2. Validate new TypeId if provided
             if (dataToUpdate.typeId) {
@@ -265,26 +205,51 @@ noteRoutesController.patch(
 
 noteRoutesController.delete(
     '/:noteId',
-    authorize([permissions.note.delete]),
     zValidator('param', noteIdParamSchema.shape.params),
+    authorizeResource('note', permissions.note.delete), // 1. Check access and existence
     async (c) => {
-        const userId = c.get('user').id;
         const { noteId } = c.req.valid('param');
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check access and existence
-            await checkNoteAccess(prisma, userId, noteId);
 
-            // 2. Delete the note (Prisma cascade should delete related Todos)
-            await prisma.noteReminder.delete({
+            // 2. Move the note to the trash (its Todos are kept until the purge)
+            await prisma.noteReminder.update({
                 where: { id: noteId },
+                data: { deletedAt: new Date() },
             });
 
             return c.status(204);
 
         } catch (error) {
-            // Catch potential cascade constraint issues if any relation is Restrict
+            next(error);
+        }
+    }
+);
+
+noteRoutesController.post(
+    '/:noteId/restore',
+    zValidator('param', noteIdParamSchema.shape.params),
+    authorizeResource('note', permissions.note.delete, { includeDeleted: true }), // Same rule as deleting
+    async (c) => {
+        const { noteId } = c.req.valid('param');
+
+        try {
+            const prisma = getPrisma(c);
+            assertRestorable(getAuthorizedResource(c, 'note'), getTrashRetentionDays(c.env));
+
+            const restoredNote = await prisma.noteReminder.update({
+                where: { id: noteId },
+                data: { deletedAt: null },
+                include: {
+                    type: true,
+                    user: { select: { id: true, username: true } },
+                    _count: { select: { todos: true } }
+                }
+            });
+
+            return c.json(restoredNote);
+        } catch (error) {
             next(error);
         }
     }
@@ -295,18 +260,15 @@ noteRoutesController.delete(
 
 noteRoutesController.post(
     '/:noteId/todos',
-    authorize([permissions.todo.manage]), // Single permission for todo management
     zValidator('param', addTodoSchema.shape.params),
+    authorizeResource('note', permissions.todo.manage), // 1. Check user has access to the parent note
     zValidator('json', addTodoSchema.shape.body),
     async (c) => {
-        const userId = c.get('user').id;
         const { noteId } = c.req.valid('param');
         const { name } = c.req.valid('json');
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check user has access to the parent note
-            await checkNoteAccess(prisma, userId, noteId);
 
             // 2. Create Todo
             const newTodo = await prisma.todo.create({
@@ -327,18 +289,15 @@ noteRoutesController.post(
 
 noteRoutesController.patch(
     '/:noteId/todos/:todoId',
-    authorize([permissions.todo.manage]),
     zValidator('param', updateTodoSchema.shape.params),
+    authorizeResource('note', permissions.todo.manage), // 1. Check user has access to the parent note
     zValidator('json', updateTodoSchema.shape.body),
     async (c) => {
-        const userId = c.get('user').id;
         const { noteId, todoId } = c.req.valid('param')
         const dataToUpdate = c.req.valid('json'); // Contains name? and/or isComplete?
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check user has access to the parent note (implicitly checks note existence)
-            await checkNoteAccess(prisma, userId, noteId);
 
             // 2. Update the todo, but ensure it belongs to the correct note
             const updatedTodo = await prisma.todo.updateMany({ // Use updateMany to include noteId in where
@@ -374,16 +333,13 @@ noteRoutesController.patch(
 
 noteRoutesController.delete(
     '/:noteId/todos/:todoId',
-    authorize([permissions.todo.manage]),
     zValidator('param', deleteTodoSchema.shape.params),
+    authorizeResource('note', permissions.todo.manage), // 1. Check user has access to the parent note
     async (c) => {
-        const userId = c.get('user')!.id;
         const { noteId, todoId } = c.req.valid('param');
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check user has access to the parent note
-            await checkNoteAccess(prisma, userId, noteId);
 
             // 2. Delete the todo, ensuring it belongs to the correct note
             const deleteResult = await prisma.todo.deleteMany({
@@ -13,11 +13,12 @@ import { Hono } from 'hono';
 import { AppEnv } from 'hono';
 import { PrismaD1 } from '@prisma/adapter-d1';
 import { Context } from 'hono';
-import { authorize } from 'middlewares/authorize.middleware';
+import { assertResourceAccess, authorize, authorizeResource } from 'middlewares/authorize.middleware';
 import permissions from 'utils/permissions';
 import { zValidator } from '@hono/zod-validator';
-import vehicleRoutesController, { checkVehicleAccess } from './vehicle.controller';
+import vehicleRoutesController from './vehicle.controller';
 import next from 'middlewares/next.middleware';
+import { activeFuelingWhere, activeGeneralExpenseWhere } from 'services/trash.service';
 
 // Ajusta data final para incluir o dia inteiro
 export function getEndOfDay(date: Date): Date {
@@ -51,19 +52,15 @@ reportRoutesController.use('*', protect, authorize([permissions.user.any])); //
 // GET /api/vehicles/:vehicleId/reports/summary - Get expense summary for a vehicle
 vehicleRoutesController.get(
     '/:vehicleId/reports/summary',
-    authorize([permissions.user.any]), // Reuse expense read permission
     zValidator('param', vehicleReportSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read), // 1. Check vehicle access
     zValidator('query', vehicleReportSchema.shape.query),
     async (c) => {
-        const userId = c.get('user')!.id;
         const { vehicleId } = c.req.valid('param');
         const { startDate, endDate } = c.req.valid('query') ?? {}; // Use ?? {} for safety
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check vehicle access
-            const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-            if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
 
             // 2. Build date filters
             const dateFilterGeneral: Prisma.DateTimeFilter = {};
@@ -85,6 +82,7 @@ vehicleRoutesController.get(
                 _sum: { cost: true },
                 where: {
                     vehicleId: vehicleId,
+                    deletedAt: null,
                     ...(Object.keys(dateFilterGeneral).length > 0 && { expenseDate: dateFilterGeneral }),
                 },
             });
@@ -94,6 +92,7 @@ vehicleRoutesController.get(
                 _sum: { cost: true },
                 where: {
                     vehicleId: vehicleId,
+                    deletedAt: null,
                     ...(Object.keys(dateFilterFueling).length > 0 && { timestamp: dateFilterFueling }),
                 },
             });
@@ -129,19 +128,15 @@ vehicleRoutesController.get(
 // GET /api/vehicles/:vehicleId/reports/expenses-by-category - Get general expenses grouped by category
 vehicleRoutesController.get(
     '/:vehicleId/reports/expenses-by-category',
-    authorize([permissions.user.any]),
     zValidator('param', vehicleReportSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read), // 1. Check vehicle access
     zValidator('query', vehicleReportSchema.shape.query),
     async (c) => {
-        const userId = c.get('user')!.id;
         const { vehicleId } = c.req.valid('param');
         const { startDate, endDate } = c.req.valid('query') ?? {};
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check vehicle access
-            const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-            if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
 
             // 2. Build date filter
             const dateFilter: Prisma.DateTimeFilter = {};
@@ -158,6 +153,7 @@ vehicleRoutesController.get(
                 _sum: { cost: true },
                 where: {
                     vehicleId: vehicleId,
+                    deletedAt: null,
                     ...(Object.keys(dateFilter).length > 0 && { expenseDate: dateFilter }),
                 },
             });
@@ -202,18 +198,15 @@ vehicleRoutesController.get(
 // GET /api/vehicles/:vehicleId/reports/fueling-summary - Sumário de abastecimento
 vehicleRoutesController.get(
     '/:vehicleId/reports/fueling-summary',
-    authorize([permissions.user.any]), // Ou expense:read:own
     zValidator('param', vehicleReportSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read), // Check vehicle access
     zValidator('query', vehicleReportSchema.shape.query),
     async (c) => {
-        const userId = c.get('user')!.id;
         const { vehicleId } = c.req.valid('param');
         const { startDate, endDate } = c.req.valid('query') ?? {};
 
         try {
             const prisma = getPrisma(c);
-            const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-            if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
 
             const dateFilter: Prisma.DateTimeFilter = {};
             if (startDate) dateFilter.gte = getStartOfDay(startDate);
@@ -232,6 +225,7 @@ vehicleRoutesController.get(
                 },
                 where: {
                     vehicleId: vehicleId,
+                    deletedAt: null,
                     ...(Object.keys(dateFilter).length > 0 && { timestamp: dateFilter }),
                 },
             });
@@ -275,8 +269,7 @@ reportRoutesController.get(
             const prisma = getPrisma(c);
             // Se um vehicleId foi fornecido, verifica o acesso a ele
             if (vehicleId) {
-                const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-                if (!hasAccess) return next(new AppError(`Acesso negado ou veículo ${vehicleId} não encontrado.`, 403));
+                await assertResourceAccess(c, 'vehicle', permissions.vehicle.read, vehicleId);
             }
 
             // Filtros de data e veículo (se aplicável)
@@ -294,11 +287,13 @@ reportRoutesController.get(
             }
 
             const generalWhere: Prisma.GeneralExpenseWhereInput = {
+                ...activeGeneralExpenseWhere, // Fora da lixeira
                 userId: userId, // Filtra pelo usuário
                 ...(vehicleId && { vehicleId: vehicleId }), // Filtra por veículo se fornecido
                 ...(Object.keys(dateFilterGeneral).length > 0 && { expenseDate: dateFilterGeneral }),
             };
             const fuelingWhere: Prisma.FuelingWhereInput = {
+                ...activeFuelingWhere, // Fora da lixeira
                 userId: userId, // Filtra pelo usuário
                 ...(vehicleId && { vehicleId: vehicleId }), // Filtra por veículo se fornecido
                 ...(Object.keys(dateFilterFueling).length > 0 && { timestamp: dateFilterFueling }),
@@ -344,8 +339,7 @@ reportRoutesController.get(
         try {
             const prisma = getPrisma(c);
             if (vehicleId) {
-                const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-                if (!hasAccess) return next(new AppError(`Acesso negado ou veículo ${vehicleId} não encontrado.`, 403));
+                await assertResourceAccess(c, 'vehicle', permissions.vehicle.read, vehicleId);
             }
 
             const dateFilter: Prisma.DateTimeFilter = {};
@@ -353,6 +347,7 @@ reportRoutesController.get(
             if (endDate) dateFilter.lte = getEndOfDay(endDate);
 
             const where: Prisma.GeneralExpenseWhereInput = {
+                ...activeGeneralExpenseWhere, // Fora da lixeira
                 userId: userId, // Filtra pelo usuário
                 ...(vehicleId && { vehicleId: vehicleId }), // Filtra por veículo se fornecido
                 ...(Object.keys(dateFilter).length > 0 && { expenseDate: dateFilter }),
@@ -408,8 +403,7 @@ reportRoutesController.get(
         try {
             const prisma = getPrisma(c);
             if (vehicleId) {
-                const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-                if (!hasAccess) return next(new AppError(`Acesso negado ou veículo ${vehicleId} não encontrado.`, 403));
+                await assertResourceAccess(c, 'vehicle', permissions.vehicle.read, vehicleId);
             }
 
             // Define o ano alvo (padrão: ano atual se não fornecido)
@@ -419,11 +413,13 @@ reportRoutesController.get(
 
             // Filtros base
             const generalWhere: Prisma.GeneralExpenseWhereInput = {
+                ...activeGeneralExpenseWhere,
                 userId: userId,
                 expenseDate: { gte: yearStart, lte: yearEnd },
                 ...(vehicleId && { vehicleId: vehicleId }),
             };
             const fuelingWhere: Prisma.FuelingWhereInput = {
+                ...activeFuelingWhere,
                 userId: userId,
                 timestamp: { gte: yearStart, lte: yearEnd },
                 ...(vehicleId && { vehicleId: vehicleId }),
@@ -441,6 +437,8 @@ reportRoutesController.get(
                 SUM(cost)::float as total -- Cast para float para facilitar no JS
             FROM "general_expenses"
             WHERE "userId" = ${userId}
+              AND "deletedAt" IS NULL
+              AND ("vehicleId" IS NULL OR "vehicleId" IN (SELECT "id" FROM "vehicles" WHERE "deletedAt" IS NULL))
               AND "expenseDate" >= ${yearStart} AND "expenseDate" <= ${yearEnd}
               ${vehicleId ? Prisma.sql`AND "vehicleId" = ${vehicleId}` : Prisma.empty}
             GROUP BY month
@@ -451,6 +449,8 @@ reportRoutesController.get(
                 SUM(cost)::float as total
             FROM "fuelings"
              WHERE "userId" = ${userId}
+              AND "deletedAt" IS NULL
+              AND ("vehicleId" IS NULL OR "vehicleId" IN (SELECT "id" FROM "vehicles" WHERE "deletedAt" IS NULL))
               AND "timestamp" >= ${yearStart} AND "timestamp" <= ${yearEnd}
               ${vehicleId ? Prisma.sql`AND "vehicleId" = ${vehicleId}` : Prisma.empty}
             GROUP BY month
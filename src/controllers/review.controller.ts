@@ -1,17 +1,19 @@
 // src/controllers/review.controller.ts (Novo)
 
 import AppError from '../utils/AppError';
-import { Prisma, PrismaClient, ReviewStatus } from '@prisma/client'; // Import enums
+import { Prisma, PrismaClient, ProposalKind, ReviewStatus } from '@prisma/client'; // Import enums
 
-import { SubmitReviewInput, ListProposalsQuery, proposalIdParamSchema, submitReviewSchema, listProposalsSchema } from '../validators/review.validator';
+import { SubmitReviewInput, ListProposalsQuery, proposalIdParamSchema, submitReviewSchema, listProposalsSchema, forceResolveSchema, bulkResolveSchema, reopenProposalSchema, listModerationActionsSchema } from '../validators/review.validator';
 import { protect } from 'middlewares/auth.middleware';
-import { authorize } from 'middlewares/authorize.middleware';
+import { authorize, requireVerifiedEmail } from 'middlewares/authorize.middleware';
 import permissions from 'utils/permissions';
 import { Context, Hono } from 'hono';
 import { AppEnv } from 'hono';
 import { PrismaD1 } from '@prisma/adapter-d1';
 import { zValidator } from '@hono/zod-validator';
 import next from 'middlewares/next.middleware';
+import { getReviewThresholds, resolveGasStationProposal, resolveStationPriceProposal } from 'services/review.service';
+import { bulkResolveProposals, forceResolveProposal, reopenProposal } from 'services/moderation.service';
 
 // Helper to get proposal and check status (DRY principle)
 async function findProposal<T extends { status: ReviewStatus }>(
@@ -50,6 +52,7 @@ reviewRoutesController.use('*', protect, authorize([permissions.user.any])); //
 // --- Submissão de Votos ---
 reviewRoutesController.post(
     '/gas-station/:proposalId/vote',
+    requireVerifiedEmail(),
     zValidator('param', proposalIdParamSchema('gasStation').shape.params), // Valida ID da proposta
     zValidator('json', submitReviewSchema.shape.body), // Valida corpo do voto
     async (c) => {
@@ -71,8 +74,8 @@ reviewRoutesController.post(
                 'gasStationProposal'
             );
 
-            // 2. Prevent self-review? (Optional)
-            // if (proposal.proposerId === reviewerId) return next(new AppError('Auto-revisão não permitida.', 403));
+            // 2. Prevent self-review
+            if (proposal.proposerId === reviewerId) return next(new AppError('Auto-revisão não permitida.', 403));
 
             // 3. Record the vote (Upsert handles duplicates)
             const review = await prisma.gasStationReview.upsert({
@@ -82,21 +85,10 @@ reviewRoutesController.post(
                 select: { vote: true, createdAt: true, updatedAt: true }
             });
 
-            // --- TODO: Implement Vote Processing Logic ---
-            // This is where the complex part goes. After a vote, check:
-            // - Quorum reached? (e.g., >= 5 votes)
-            // - Consensus reached? (e.g., > 60% ACCEPT, 0 PROTEST)
-            // - If YES:
-            //    - Update GasStationProposal status to VERIFIED/REJECTED
-            //    - Update GasStation status to ACTIVE/REJECTED/INACTIVE
-            //    - Add resolutionNotes
-            // - If PROTEST:
-            //    - Update GasStationProposal status to PROTESTED
-            // This logic should likely live in a separate service/job, not directly here.
-            console.log(`GasStation review recorded for proposal ${proposalId}. Needs processing.`);
-            // --- End TODO ---
-
-            return c.json({ message: "Voto registrado.", review });
+            // 4. Process the vote (quorum/consensus) and resolve the proposal if decided
+            const resolution = await resolveGasStationProposal(prisma, proposalId, getReviewThresholds(c.env));
+
+            return c.json({ message: "Voto registrado.", review, proposal: resolution });
 
         } catch (error) {
             next(error);
@@ -106,6 +98,7 @@ reviewRoutesController.post(
 
 reviewRoutesController.post(
     '/station-price/:proposalId/vote',
+    requireVerifiedEmail(),
     zValidator('param', proposalIdParamSchema('stationPrice').shape.params),
     zValidator('json', submitReviewSchema.shape.body),
     async (c) => {
@@ -126,6 +119,8 @@ reviewRoutesController.post(
                 'stationPriceProposal'
             );
 
+            if (proposal.proposerId === reviewerId) return next(new AppError('Auto-revisão não permitida.', 403));
+
             const review = await prisma.stationPriceReview.upsert({
                 where: { stationPriceProposalId_reviewerId: { stationPriceProposalId: proposalId, reviewerId: reviewerId } },
                 update: { vote: vote, comment: comment ?? null },
@@ -133,13 +128,10 @@ reviewRoutesController.post(
                 select: { vote: true, createdAt: true, updatedAt: true }
             });
 
-            // --- TODO: Implement Vote Processing Logic for Prices ---
-            // Similar to station reviews, but updates StationPriceProposal status
-            // and StationPrice status (ACTIVE, REJECTED, maybe OUTDATED later).
-            console.log(`StationPrice review recorded for proposal ${proposalId}. Needs processing.`);
-            // --- End TODO ---
+            // Process the vote and promote/reject the price if decided
+            const resolution = await resolveStationPriceProposal(prisma, proposalId, getReviewThresholds(c.env));
 
-            return c.json({ message: "Voto registrado.", review });
+            return c.json({ message: "Voto registrado.", review, proposal: resolution });
 
         } catch (error) {
             next(error);
@@ -365,4 +357,143 @@ reviewRoutesController.get(
 );
 // Implementar getStationPriceProposalDetails de forma similar...
 
+
+// ==============================
+// Moderation Routes (admin:proposal:manage)
+// ==============================
+
+// --- Resolução direta de uma proposta ---
+reviewRoutesController.post(
+    '/admin/gas-station/:proposalId/resolve',
+    authorize([permissions.admin.porposal_manage]),
+    zValidator('param', proposalIdParamSchema('gasStation').shape.params),
+    zValidator('json', forceResolveSchema.shape.body),
+    async (c) => {
+        const moderatorId = c.get('user')!.id;
+        const { proposalId } = c.req.valid('param');
+        const { status, resolutionNotes } = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const result = await forceResolveProposal(prisma, ProposalKind.GAS_STATION, proposalId, status, resolutionNotes, moderatorId);
+            return c.json({ message: "Proposta resolvida.", proposal: result });
+        } catch (error) { next(error); }
+    }
+);
+
+reviewRoutesController.post(
+    '/admin/station-price/:proposalId/resolve',
+    authorize([permissions.admin.porposal_manage]),
+    zValidator('param', proposalIdParamSchema('stationPrice').shape.params),
+    zValidator('json', forceResolveSchema.shape.body),
+    async (c) => {
+        const moderatorId = c.get('user')!.id;
+        const { proposalId } = c.req.valid('param');
+        const { status, resolutionNotes } = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const result = await forceResolveProposal(prisma, ProposalKind.STATION_PRICE, proposalId, status, resolutionNotes, moderatorId);
+            return c.json({ message: "Proposta resolvida.", proposal: result });
+        } catch (error) { next(error); }
+    }
+);
+
+// --- Resolução em lote (filtro) ---
+reviewRoutesController.post(
+    '/admin/gas-station/resolve-bulk',
+    authorize([permissions.admin.porposal_manage]),
+    zValidator('json', bulkResolveSchema.shape.body),
+    async (c) => {
+        const moderatorId = c.get('user')!.id;
+        const { status, resolutionNotes, filter, limit } = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const result = await bulkResolveProposals(prisma, ProposalKind.GAS_STATION, { ...filter, limit }, status, resolutionNotes, moderatorId);
+            return c.json({ message: `${result.resolved.length} proposta(s) resolvida(s).`, ...result });
+        } catch (error) { next(error); }
+    }
+);
+
+reviewRoutesController.post(
+    '/admin/station-price/resolve-bulk',
+    authorize([permissions.admin.porposal_manage]),
+    zValidator('json', bulkResolveSchema.shape.body),
+    async (c) => {
+        const moderatorId = c.get('user')!.id;
+        const { status, resolutionNotes, filter, limit } = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const result = await bulkResolveProposals(prisma, ProposalKind.STATION_PRICE, { ...filter, limit }, status, resolutionNotes, moderatorId);
+            return c.json({ message: `${result.resolved.length} proposta(s) resolvida(s).`, ...result });
+        } catch (error) { next(error); }
+    }
+);
+
+// --- Reabrir proposta PROTESTED ---
+reviewRoutesController.post(
+    '/admin/gas-station/:proposalId/reopen',
+    authorize([permissions.admin.porposal_manage]),
+    zValidator('param', proposalIdParamSchema('gasStation').shape.params),
+    zValidator('json', reopenProposalSchema.shape.body),
+    async (c) => {
+        const moderatorId = c.get('user')!.id;
+        const { proposalId } = c.req.valid('param');
+        const { resolutionNotes, clearVotes } = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const result = await reopenProposal(prisma, ProposalKind.GAS_STATION, proposalId, resolutionNotes, clearVotes, moderatorId);
+            return c.json({ message: "Proposta reaberta para revisão.", proposal: result });
+        } catch (error) { next(error); }
+    }
+);
+
+reviewRoutesController.post(
+    '/admin/station-price/:proposalId/reopen',
+    authorize([permissions.admin.porposal_manage]),
+    zValidator('param', proposalIdParamSchema('stationPrice').shape.params),
+    zValidator('json', reopenProposalSchema.shape.body),
+    async (c) => {
+        const moderatorId = c.get('user')!.id;
+        const { proposalId } = c.req.valid('param');
+        const { resolutionNotes, clearVotes } = c.req.valid('json');
+        try {
+            const prisma = getPrisma(c);
+            const result = await reopenProposal(prisma, ProposalKind.STATION_PRICE, proposalId, resolutionNotes, clearVotes, moderatorId);
+            return c.json({ message: "Proposta reaberta para revisão.", proposal: result });
+        } catch (error) { next(error); }
+    }
+);
+
+// --- Trilha de auditoria ---
+reviewRoutesController.get(
+    '/admin/audit',
+    authorize([permissions.admin.porposal_manage]),
+    zValidator('query', listModerationActionsSchema.shape.query),
+    async (c) => {
+        const { proposalKind, proposalId, moderatorId, page = 1, limit = 20 } = c.req.valid('query') ?? {};
+        try {
+            const prisma = getPrisma(c);
+            const skip = (page - 1) * limit;
+            const where: Prisma.ModerationActionWhereInput = {
+                ...(proposalKind && { proposalKind }),
+                ...(proposalId && { proposalId }),
+                ...(moderatorId && { moderatorId }),
+            };
+            const [actions, totalCount] = await prisma.$transaction([
+                prisma.moderationAction.findMany({
+                    where: where,
+                    orderBy: { createdAt: 'desc' },
+                    skip: skip,
+                    take: limit,
+                    include: { moderator: { select: { id: true, username: true } } }
+                }),
+                prisma.moderationAction.count({ where: where })
+            ]);
+            return c.json({
+                data: actions,
+                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: Math.ceil(totalCount / limit) }
+            });
+        } catch (error) { next(error); }
+    }
+);
+
 export default reviewRoutesController;
\ No newline at end of file
@@ -14,9 +14,10 @@ import {
     proposeEditStationSchema,
     idParamSchema,
     reportStationPriceSchema,
-    getStationsSchema
+    getStationsSchema,
+    priceComparisonSchema
 } from '../validators/station.validator';
-import { authorize, getPermissionsForRole } from '../middlewares/authorize.middleware';
+import { assertResourceAccess, authorize, getUserPermissions, requireVerifiedEmail } from '../middlewares/authorize.middleware';
 
 import PERMISSION from '../utils/permissions';
 import { AppEnv, Context, Hono } from 'hono';
@@ -25,6 +26,8 @@ import { protect } from 'middlewares/auth.middleware';
 import permissions from '../utils/permissions';
 import { zValidator } from '@hono/zod-validator';
 import next from 'middlewares/next.middleware';
+import { compareNearbyStationPrices, findNearbyStations } from 'services/station.service';
+import { getFillLiters, tankCapacitySelect } from 'services/fuelLevel.service';
 
 // --- Station Reading ---
 
@@ -44,6 +47,48 @@ stationRoutesController.use('*', protect); // Protect all and ensure Prisma
 // Station Routes
 // ==============================
 
+// Registrada antes de '/:stationId' para não ser capturada como ID
+stationRoutesController.get(
+    '/price-comparison',
+    authorize([permissions.feature.price_comparison]),
+    zValidator('query', priceComparisonSchema.shape.query),
+    async (c) => {
+        const { fuelTypeId, lat, lng, radius, vehicleId, liters, page = 1, limit = 20 } = c.req.valid('query');
+        try {
+            const prisma = getPrisma(c);
+            const fuelType = await prisma.fuelType.findUnique({ where: { id: fuelTypeId }, select: { id: true, name: true } });
+            if (!fuelType) {
+                return next(new AppError(`Tipo de combustível ${fuelTypeId} não encontrado.`, 404));
+            }
+
+            // Volume da estimativa: o que falta para completar o tanque do veículo ou, sem veículo, os litros informados
+            let fillLiters = liters ?? null;
+            if (vehicleId) {
+                await assertResourceAccess(c, 'vehicle', permissions.vehicle.read, vehicleId);
+                const vehicle = await prisma.vehicle.findUnique({
+                    where: { id: vehicleId },
+                    select: { appFuelTank: true, ...tankCapacitySelect }
+                });
+                if (!vehicle) return next(new AppError(`Veículo com ID ${vehicleId} não encontrado.`, 404));
+                fillLiters = getFillLiters(vehicle);
+            }
+
+            const ranking = await compareNearbyStationPrices(prisma, { latitude: lat, longitude: lng }, radius * 1000, fuelTypeId, fillLiters);
+            const skip = (page - 1) * limit;
+            const totalCount = ranking.length;
+
+            return c.json({
+                fuelType,
+                fillLiters,
+                data: ranking.slice(skip, skip + limit),
+                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: Math.ceil(totalCount / limit) }
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
 stationRoutesController.get(
     '/:stationId',
     authorize([permissions.user.any]),
@@ -119,6 +164,7 @@ stationRoutesController.get(
 stationRoutesController.post(
     '/', // Cria novo posto (e proposta de revisão associada)
     authorize([permissions.user.any]),
+    requireVerifiedEmail(),
     zValidator('json', createGasStationSchema.shape.body),
     async (c) => {
         const proposerId = c.get('user')!.id;
@@ -196,6 +242,7 @@ stationRoutesController.post(
 
 stationRoutesController.post(
     '/:stationId/prices', // Reporta novo preço (cria preço e proposta associada)
+    requireVerifiedEmail(),
     zValidator('param', reportStationPriceSchema.shape.params),
     zValidator('json', reportStationPriceSchema.shape.body),
     async (c) => {
@@ -266,11 +313,11 @@ stationRoutesController.get(
     '/',
     zValidator('query', getStationsSchema.shape.query),
     async (c) => {
-        const { latitude, longitude, radius, status: statusFilter, name } = c.req.valid('query');
+        const { latitude, longitude, radius, status: statusFilter, name, page = 1, limit = 20 } = c.req.valid('query');
 
         try {
             const prisma = getPrisma(c);
-            const userPermissions = await getPermissionsForRole(c.get('user').roleId, prisma); // Assumes helper from authorize middleware context
+            const userPermissions = await getUserPermissions(c); // Permissões do role (cache)
             const where: Prisma.GasStationWhereInput = {};
 
             // --- Filtragem por Status Baseada em Permissão ---
@@ -283,38 +330,35 @@ stationRoutesController.get(
             if (canReadAll && statusFilter) {
                 where.status = statusFilter;
             }
+            if (name) {
+                where.name = { contains: name };
+            }
 
             // --- Fim da Filtragem por Status ---
 
-
-            let stations;
             if (latitude !== undefined && longitude !== undefined && radius !== undefined) {
-                // Raw query para busca espacial (Ajustar SELECT e adicionar WHERE para status)
-                const userLocation = Prisma.sql`ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geometry`;
-                const radiusInMeters = radius * 1000;
-
-                // Construir a cláusula WHERE dinamicamente para a query raw
-                let statusClause = Prisma.sql`status = ${GasStationStatus.ACTIVE}`; // Default for non-admins
-                if (canReadAll) {
-                    statusClause = statusFilter ? Prisma.sql`status = ${statusFilter}` : Prisma.sql`1=1`; // Se admin e sem filtro, busca todos
-                }
+                // Busca espacial: caixa delimitadora no índice (latitude, longitude) + distância haversine
+                const { stations, totalCount } = await findNearbyStations(prisma, {
+                    center: { latitude, longitude },
+                    radiusMeters: radius * 1000,
+                    where,
+                    page,
+                    limit,
+                });
+                return c.json({
+                    data: stations,
+                    meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: Math.ceil(totalCount / limit) }
+                });
+            }
 
-                stations = await prisma.$queryRaw`
-                SELECT
-                    id, name, latitude, longitude,
-                    street, number, complement, neighborhood, city, state, "postalCode", country,
-                    status, ST_Distance(location_geom, ${userLocation}) as distance_meters
-                FROM "gas_stations"
-                WHERE ST_DWithin(location_geom, ${userLocation}, ${radiusInMeters})
-                  AND ${statusClause} -- Aplicar filtro de status
-                ORDER BY distance_meters ASC;
-            `;
-                // Clean up potential null complement...
-            } else {
-                // Busca normal com where clause montado acima
-                stations = await prisma.gasStation.findMany({
-                    where: { ...where, name: { contains: name } },
+            // Busca normal com where clause montado acima
+            const skip = (page - 1) * limit;
+            const [stations, totalCount] = await prisma.$transaction([
+                prisma.gasStation.findMany({
+                    where: where,
                     orderBy: { name: 'asc' },
+                    skip: skip,
+                    take: limit,
                     select: {
                         id: true,
                         name: true,
@@ -331,8 +375,6 @@ stationRoutesController.get(
                         status: true,
                         createdAt: true,
                         updatedAt: true,
-                        // For nearby search
-                        // distance_meters: true, // If returned by raw query
                         prices: {
                             select: {
                                 id: true,
@@ -344,10 +386,14 @@ stationRoutesController.get(
                             }
                         },
                     }
-                });
-            }
+                }),
+                prisma.gasStation.count({ where: where })
+            ]);
 
-            return c.json(stations);
+            return c.json({
+                data: stations,
+                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: Math.ceil(totalCount / limit) }
+            });
         } catch (error) {
             next(error);
         }
@@ -358,6 +404,7 @@ stationRoutesController.get(
 stationRoutesController.post(
     '/:stationId/propose-edit', // <<< Nova Rota
     authorize([PERMISSION.user.any]), // <<< Permissão necessária
+    requireVerifiedEmail(),
     zValidator('param', proposeEditStationSchema.shape.params),
     zValidator('json', proposeEditStationSchema.shape.body),
     async (c) => {
@@ -381,16 +428,16 @@ stationRoutesController.post(
             // }
 
             // 2. Verifica se já existe uma proposta de EDIÇÃO pendente para este posto
-            // const existingPendingEditProposal = await prisma.gasStationProposal.findFirst({
-            //     where: {
-            //         gasStationId: stationId,
-            //         status: ReviewStatus.PENDING,
-            //         reasonType: ProposalReasonType.DATA_UPDATE, // Procura especificamente por propostas de edição
-            //     }
-            // });
-            // if (existingPendingEditProposal) {
-            //     return next(new AppError(`Já existe uma proposta de edição pendente para este posto. Aguarde a resolução.`, 409));
-            // }
+            const existingPendingEditProposal = await prisma.gasStationProposal.findFirst({
+                where: {
+                    gasStationId: stationId,
+                    status: ReviewStatus.PENDING,
+                    reasonType: ProposalReasonType.DATA_UPDATE, // Procura especificamente por propostas de edição
+                }
+            });
+            if (existingPendingEditProposal) {
+                return next(new AppError(`Já existe uma proposta de edição pendente para este posto. Aguarde a resolução.`, 409));
+            }
 
             // 3. Cria a nova proposta de edição
             const proposal = await prisma.gasStationProposal.create({
@@ -405,14 +452,33 @@ stationRoutesController.post(
                 select: { id: true, status: true, reasonType: true, createdAt: true } // Retorna dados da proposta
             });
 
-            const priceProposal = await prisma.stationPriceProposal.createManyAndReturn({
-                data: stationPrices.map(item => {
-                    return {
-                        proposerId: proposerId,
-                        ...item,
-                        reasonType: ProposalReasonType.DATA_UPDATE,
-                    } as any
-                })
+            // 4. Cada preço sugerido vira um novo StationPrice em revisão (o preço atual só é
+            //    marcado como OUTDATED quando o novo for verificado pela comunidade)
+            const priceProposal = await prisma.$transaction(async (tx) => {
+                const created = [];
+                for (const item of stationPrices) {
+                    const newPrice = await tx.stationPrice.create({
+                        data: {
+                            reportedById: proposerId,
+                            gasStationId: stationId,
+                            fuelTypeId: item.fuelTypeId,
+                            price: new Decimal(item.price),
+                            status: StationPriceStatus.UNDER_REVIEW,
+                            reportedAt: new Date(),
+                        }
+                    });
+                    const newProposal = await tx.stationPriceProposal.create({
+                        data: {
+                            stationPriceId: newPrice.id,
+                            proposerId: proposerId,
+                            status: ReviewStatus.PENDING,
+                            reasonType: ProposalReasonType.DATA_UPDATE,
+                            reason: reason,
+                        }
+                    });
+                    created.push({ ...newProposal, replacesStationPriceId: item.stationPriceId, stationPrice: newPrice });
+                }
+                return created;
             });
 
             const response = {
@@ -1,31 +1,152 @@
 // src/controllers/trip.controller.ts (Novo Arquivo)
 import AppError from '../utils/AppError';
-import { Prisma, PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, VehicleAlert, VehicleShareRole } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
-import { CreateTripInput, CreateTripParams, createTripSchema, GetOrDeleteTripParams, getOrDeleteTripSchema, ListTripsParams, ListTripsQuery, listTripsSchema, UpdateTripInput, UpdateTripParams, updateTripSchema } from '../validators/trip.validator';
+import { CreateTripInput, CreateTripParams, createTripSchema, GetOrDeleteTripParams, getOrDeleteTripSchema, ListTripsParams, ListTripsQuery, listTripsSchema, RoutePathInput, UpdateTripInput, UpdateTripParams, updateTripSchema } from '../validators/trip.validator';
+import { GeoJsonLineString, GpsJump, LongSegment, processRoute } from '../utils/route.util';
+import { Coordinates } from '../utils/geo.util';
+import { selectConsumptionRate } from '../services/trip.service';
+import { evaluateLowFuelAlert, resolveLowFuelAlerts } from '../services/alert.service';
+import { clampFuelLevel, getEffectiveTankCapacity, tankCapacitySelect, VehicleWithCapacity } from '../services/fuelLevel.service';
 import { getEndOfDay, getStartOfDay } from './report.controller';
 import { AppEnv, Context, Hono } from 'hono';
 import { PrismaD1 } from '@prisma/adapter-d1';
 import { protect } from 'middlewares/auth.middleware';
 import next from 'middlewares/next.middleware';
-import vehicleRoutesController, { checkVehicleAccess } from './vehicle.controller';
+import vehicleRoutesController from './vehicle.controller';
 import permissions from 'utils/permissions';
 import { zValidator } from '@hono/zod-validator';
-import { authorize } from 'middlewares/authorize.middleware';
+import { authorizeResource } from 'middlewares/authorize.middleware';
+import { AccessScope } from '../services/policy.service';
 
-// Helper (opcional, pode estar em vehicle.service ou utils)
-async function getVehicleForUpdate(tx: Prisma.TransactionClient, vehicleId: string, userId: string) {
+// O acesso já foi verificado por authorizeResource; relê os contadores dentro da transação
+async function getVehicleForUpdate(tx: Prisma.TransactionClient, vehicleId: string) {
     const vehicle = await tx.vehicle.findUnique({
         where: { id: vehicleId },
-        select: { id: true, ownerId: true, appFuelTank: true, authorizedUsers: { where: { userId } } }
+        select: { id: true, ownerId: true, appOdometer: true, appFuelTank: true, kmlCity: true, kmlRoad: true, ...tankCapacitySelect }
     });
-    if (!vehicle) throw new AppError('Veículo não encontrado.', 404);
-    if (vehicle.ownerId !== userId && vehicle.authorizedUsers.length === 0) {
-        throw new AppError('Acesso negado a este veículo.', 403);
-    }
+    if (!vehicle) throw new AppError(`Veículo com ID ${vehicleId} não encontrado.`, 404);
     return vehicle;
 }
 
+/**
+ * Combustível efetivamente retirado do tanque do app por uma viagem. O tanque nunca fica
+ * negativo, então a viagem só retira o que havia no início (momentAppFuelTank).
+ * Criação, edição e remoção usam este mesmo valor para que os ajustes se anulem.
+ */
+function getFuelDrawn(fuelConsumed: Decimal, momentAppFuelTank: Decimal): Decimal {
+    return Decimal.max(0, Decimal.min(fuelConsumed, momentAppFuelTank));
+}
+
+// Aplica as diferenças de hodômetro e tanque ao veículo, sem deixar valores negativos
+async function adjustVehicleCounters(
+    tx: Prisma.TransactionClient,
+    vehicle: { id: string; appOdometer: Decimal; appFuelTank: Decimal } & VehicleWithCapacity,
+    deltaOdometer: Decimal,
+    deltaFuelTank: Decimal
+) {
+    if (deltaOdometer.isZero() && deltaFuelTank.isZero()) return;
+    await tx.vehicle.update({
+        where: { id: vehicle.id },
+        data: {
+            appOdometer: Decimal.max(0, vehicle.appOdometer.plus(deltaOdometer)),
+            appFuelTank: clampFuelLevel(vehicle.appFuelTank.plus(deltaFuelTank), getEffectiveTankCapacity(vehicle)),
+        }
+    });
+}
+
+// Velocidade média acima deste valor indica trajeto/horários inconsistentes
+const MAX_PLAUSIBLE_SPEED_KMH = 250;
+
+// Barra trajetos cuja distância (km) não cabe no intervalo da viagem
+function assertPlausibleSpeed(distance: Decimal, startTime: Date, endTime: Date): void {
+    const hours = (endTime.getTime() - startTime.getTime()) / 36e5;
+    if (hours > 0 && distance.toNumber() / hours > MAX_PLAUSIBLE_SPEED_KMH) {
+        throw new AppError(`Velocidade média acima de ${MAX_PLAUSIBLE_SPEED_KMH} km/h. Verifique o trajeto e os horários da viagem.`, 400);
+    }
+}
+
+type VerifiedTripDistance = {
+    distance: Decimal; // km
+    reportedDistance: Decimal | null;
+    routePath: Prisma.InputJsonValue | typeof Prisma.JsonNull;
+    gpsJumpCount: number;
+    endPoint: Coordinates | null; // Último ponto do trajeto (onde a viagem terminou)
+    routeSummary: { pointCount: number; simplifiedPointCount: number; gpsJumps: GpsJump[]; longSegments: LongSegment[] } | null;
+};
+
+/**
+ * Define a distância da viagem: com trajeto, usa a distância calculada no servidor
+ * (haversine, sem saltos de GPS) e guarda o trajeto simplificado; sem trajeto, usa a do app.
+ * Trechos longos entram na distância e aparecem no resumo; a velocidade média barra trajetos implausíveis.
+ */
+function verifyTripDistance(
+    reportedDistance: number | undefined,
+    routePath: RoutePathInput | undefined,
+    startTime: Date,
+    endTime: Date
+): VerifiedTripDistance {
+    if (!routePath) {
+        if (reportedDistance === undefined) throw new AppError('Informe a distância ou o trajeto da viagem.', 400);
+        return { distance: new Decimal(reportedDistance), reportedDistance: null, routePath: Prisma.JsonNull, gpsJumpCount: 0, endPoint: null, routeSummary: null };
+    }
+
+    const route = processRoute(routePath);
+    const distance = new Decimal(route.distanceMeters).dividedBy(1000).toDecimalPlaces(3, Decimal.ROUND_HALF_UP);
+    if (!distance.isPositive()) {
+        throw new AppError('O trajeto não possui distância válida.', 400);
+    }
+
+    assertPlausibleSpeed(distance, startTime, endTime);
+
+    const lastPoint = route.simplified.coordinates.at(-1); // A simplificação preserva as extremidades
+    return {
+        distance,
+        reportedDistance: reportedDistance !== undefined ? new Decimal(reportedDistance) : null,
+        routePath: route.simplified,
+        gpsJumpCount: route.gpsJumps.length,
+        endPoint: lastPoint ? { longitude: lastPoint[0], latitude: lastPoint[1] } : null,
+        routeSummary: {
+            pointCount: route.pointCount,
+            simplifiedPointCount: route.simplified.coordinates.length,
+            gpsJumps: route.gpsJumps,
+            longSegments: route.longSegments,
+        },
+    };
+}
+
+// Último ponto do trajeto salvo (GeoJSON LineString simplificado), onde a viagem terminou
+function getRouteEndPoint(routePath: Prisma.JsonValue): Coordinates | null {
+    const route = routePath as GeoJsonLineString | null;
+    const lastPoint = route?.type === 'LineString' ? route.coordinates.at(-1) : undefined;
+    return lastPoint ? { longitude: lastPoint[0], latitude: lastPoint[1] } : null;
+}
+
+/**
+ * Reavalia o alerta de combustível baixo depois que a viagem foi salva: encerra o alerta se a
+ * autonomia voltou acima do limite e, com `trigger`, cria/atualiza o alerta se ela ficou abaixo.
+ * Falhas só são registradas: a viagem já foi gravada, e um erro levaria o app a repeti-la
+ * (somando hodômetro e tanque duas vezes).
+ */
+async function refreshLowFuelAlert(
+    prisma: PrismaClient,
+    vehicleId: string,
+    trigger: { tripId: string; location: Coordinates | null } | null
+): Promise<VehicleAlert | null> {
+    try {
+        await resolveLowFuelAlerts(prisma, vehicleId);
+        return trigger ? await evaluateLowFuelAlert(prisma, vehicleId, trigger) : null;
+    } catch (error) {
+        console.error(`Erro ao avaliar o alerta de combustível baixo do veículo ${vehicleId}:`, error);
+        return null;
+    }
+}
+
+// Quem registrou a viagem ou o dono do veículo podem alterá-la/removê-la (com ":any", qualquer um)
+function canModifyTrip(trip: { userId: string }, vehicle: { ownerId: string }, userId: string, scope: AccessScope): boolean {
+    return scope === 'any' || trip.userId === userId || vehicle.ownerId === userId;
+}
+
 const getPrisma = (c: Context<AppEnv>) => {
     const adapter = new PrismaD1(c.env.DB);
     const prisma = new PrismaClient({ adapter });
@@ -39,8 +160,8 @@ const getPrisma = (c: Context<AppEnv>) => {
 
 vehicleRoutesController.post(
     '/:vehicleId/trips',
-    authorize([permissions.user.any]), // <<< Nova permissão necessária
     zValidator('param', createTripSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.update, { shareRole: VehicleShareRole.DRIVER }), // Viagens alteram hodômetro e tanque; motoristas também registram
     zValidator('json', createTripSchema.shape.body),
     async (c) => {
         const userId = c.get('user').id;
@@ -56,27 +177,33 @@ vehicleRoutesController.post(
 
         try {
             const prisma = getPrisma(c);
-            const distanceDecimal = new Decimal(distance);
-            const consumptionRateDecimal = new Decimal(consumptionRateUsed);
+            // Distância verificada: calculada pelo trajeto quando enviado
+            const verified = verifyTripDistance(distance, routePath, startTime, endTime);
+            const distanceDecimal = verified.distance;
 
             // Validações básicas
             if (distanceDecimal.isNegative()) return next(new AppError('Distância não pode ser negativa.', 400));
-            if (consumptionRateDecimal.isNegative() || consumptionRateDecimal.isZero()) {
-                return next(new AppError('Taxa de consumo deve ser positiva.', 400));
-            }
-
-            // Calcula o combustível consumido
-            const fuelConsumedDecimal = distanceDecimal.dividedBy(consumptionRateDecimal).toDecimalPlaces(5, Decimal.ROUND_HALF_UP); // 5 casas decimais para combustível
-
-            if (!fuelConsumedDecimal.isFinite() || fuelConsumedDecimal.isNegative()) {
-                return next(new AppError('Falha ao calcular combustível consumido.', 500));
-            }
 
             // --- Transação para criar Trip e atualizar Veículo ---
             const result = await prisma.$transaction(async (tx) => {
 
-                // 1. Verifica acesso ao veículo dentro da transação (para lock implícito)
-                const vehicle = await getVehicleForUpdate(tx, vehicleId, userId);
+                // 1. Relê o veículo dentro da transação (para lock implícito)
+                const vehicle = await getVehicleForUpdate(tx, vehicleId);
+
+                // Taxa enviada pelo app ou escolhida pelo servidor (cidade/estrada pela velocidade média)
+                const selection = consumptionRateUsed === undefined
+                    ? selectConsumptionRate(vehicle, distanceDecimal, startTime, endTime)
+                    : null;
+                const consumptionRateDecimal = selection?.consumptionRate ?? new Decimal(consumptionRateUsed!);
+                if (!consumptionRateDecimal.isPositive()) {
+                    throw new AppError('Taxa de consumo deve ser positiva.', 400);
+                }
+
+                // Calcula o combustível consumido
+                const fuelConsumedDecimal = distanceDecimal.dividedBy(consumptionRateDecimal).toDecimalPlaces(5, Decimal.ROUND_HALF_UP); // 5 casas decimais para combustível
+                if (!fuelConsumedDecimal.isFinite() || fuelConsumedDecimal.isNegative()) {
+                    throw new AppError('Falha ao calcular combustível consumido.', 500);
+                }
 
                 // 2. Cria o registro da Viagem (Trip)
                 const newTrip = await tx.trip.create({
@@ -84,9 +211,13 @@ vehicleRoutesController.post(
                         startTime: new Date(startTime),
                         endTime: new Date(endTime),
                         distance: distanceDecimal,
-                        fuelConsumed: fuelConsumedDecimal, // <<< Combustível calculado
+                        reportedDistance: verified.reportedDistance,
+                        gpsJumpCount: verified.gpsJumpCount,
+                        fuelConsumed: fuelConsumedDecimal, // <<< Combustível calculado sobre a distância verificada
                         consumptionRateUsed: consumptionRateDecimal, // <<< Taxa usada
-                        routePath: routePath ?? Prisma.JsonNull, // Usa JsonNull se routePath for undefined
+                        drivingProfile: selection?.drivingProfile ?? null,
+                        averageSpeedKmh: selection?.averageSpeedKmh ?? null,
+                        routePath: verified.routePath, // Trajeto simplificado (ou JsonNull)
                         notes: notes,
                         vehicleId: vehicleId,
                         userId: userId,
@@ -97,40 +228,44 @@ vehicleRoutesController.post(
                         startTime: true,
                         endTime: true,
                         distance: true,
+                        reportedDistance: true,
+                        gpsJumpCount: true,
                         fuelConsumed: true,
                         notes: true,
                         vehicle: { select: { id: true, alias: true } },
                         routePath: true,
                         momentAppFuelTank: true,
                         consumptionRateUsed: true,
+                        drivingProfile: true,
+                        averageSpeedKmh: true,
                         createdAt: true,
                         updatedAt: true,
                     }
                 });
 
-                // 3. Atualiza o Veículo: Incrementa hodômetro, Decrementa tanque
-                await tx.vehicle.update({
-                    where: { id: vehicleId },
-                    data: {
-                        appOdometer: {
-                            increment: distanceDecimal // Adiciona distância percorrida
-                        },
-                        appFuelTank: {
-                            decrement: fuelConsumedDecimal // Remove combustível consumido
-                            // TODO: Considerar o que fazer se appFuelTank ficar negativo?
-                            // Poderia lançar erro, logar, ou apenas permitir (indicando erro de cálculo/taxa)
-                        }
-                    }
-                });
-
-                return newTrip; // Retorna a viagem criada
+                // 3. Atualiza o Veículo: Incrementa hodômetro, retira do tanque o combustível disponível
+                await adjustVehicleCounters(
+                    tx,
+                    vehicle,
+                    distanceDecimal,
+                    getFuelDrawn(fuelConsumedDecimal, vehicle.appFuelTank).negated()
+                );
+
+                return { // Retorna a viagem criada
+                    ...newTrip,
+                    routeSummary: verified.routeSummary,
+                    consumptionSelection: selection && { drivingProfile: selection.drivingProfile, roadShare: selection.roadShare, kmlCity: vehicle.kmlCity, kmlRoad: vehicle.kmlRoad },
+                };
             });
 
-            return c.json(result);
+            // Autonomia abaixo do limite do veículo gera/atualiza o alerta de combustível baixo
+            const lowFuelAlert = await refreshLowFuelAlert(prisma, vehicleId, { tripId: result.id, location: verified.endPoint });
+
+            return c.json({ ...result, lowFuelAlert });
 
         } catch (error) {
             // Verifica se o erro é de tanque negativo (se implementado com constraint CHECK no DB)
-            // Ou trata AppError vindo do getVehicleForUpdate
+            // Ou trata AppError vindo do getVehicleForUpdate (404)
             next(error);
         }
     }
@@ -139,30 +274,25 @@ vehicleRoutesController.post(
 // GET /api/vehicles/:vehicleId/trips - Listar viagens
 vehicleRoutesController.get(
     '/:vehicleId/trips',
-    authorize([permissions.user.any]),
     zValidator('param', listTripsSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read),
     zValidator('query', listTripsSchema.shape.query),
     async (c) => {
-        const userId = c.get('user').id;
         const { vehicleId } = c.req.valid('param');
-        const { startDate, endDate, page = 1, limit = 15 } = c.req.valid('query') ?? {};
+        const { startDate, endDate, driverId, page = 1, limit = 15 } = c.req.valid('query') ?? {};
 
         try {
             const prisma = getPrisma(c);
-            // 1. Check vehicle access
-            const hasAccess = await checkVehicleAccess(prisma, userId, vehicleId);
-            if (!hasAccess) return next(new AppError('Acesso negado ou veículo não encontrado.', 403));
-
-            // 2. Build where clause
+            // 1. Build where clause (todas as viagens do veículo, opcionalmente de um motorista)
             const skip = (page - 1) * limit;
             const where: Prisma.TripWhereInput = {
                 vehicleId: vehicleId,
-                userId: userId, // Geralmente queremos listar apenas as viagens do próprio usuário
+                ...(driverId && { userId: driverId }),
             };
             if (startDate) where.startTime = { gte: getStartOfDay(startDate) };
             if (endDate) where.endTime = { lte: getEndOfDay(endDate) }; // Usa helper de data
 
-            // 3. Fetch trips and count
+            // 2. Fetch trips and count
             const [trips, totalCount] = await prisma.$transaction([
                 prisma.trip.findMany({
                     where: where,
@@ -177,9 +307,12 @@ vehicleRoutesController.get(
                         fuelConsumed: true,
                         notes: true,
                         vehicle: { select: { id: true, alias: true } },
+                        user: { select: { id: true, name: true } }, // Motorista que registrou
                         routePath: true,
                         momentAppFuelTank: true,
                         consumptionRateUsed: true,
+                        drivingProfile: true,
+                        averageSpeedKmh: true,
                         createdAt: true,
                         updatedAt: true,
                     }
@@ -187,9 +320,10 @@ vehicleRoutesController.get(
                 prisma.trip.count({ where: where })
             ]);
 
+            const totalPages = Math.ceil(totalCount / limit);
             return c.json({
                 data: trips,
-                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: Math.ceil(totalCount / limit) }
+                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: totalPages, hasNextPage: page < totalPages }
             });
 
         } catch (error) {
@@ -202,15 +336,14 @@ vehicleRoutesController.get(
 // GET /api/vehicles/:vehicleId/trips/:tripId - Obter viagem específica
 vehicleRoutesController.get(
     '/:vehicleId/trips/:tripId',
-    authorize([permissions.user.any]), // Controller verifica acesso específico
     zValidator('param', getOrDeleteTripSchema.shape.params), // Valida ambos IDs
+    authorizeResource('vehicle', permissions.vehicle.read),
     async (c) => {
-        const userId = c.get('user').id;
         const { vehicleId, tripId } = c.req.valid('param'); // Extrai ambos os IDs
 
         try {
             const prisma = getPrisma(c);
-            // 1. Busca a viagem
+            // Busca a viagem (o acesso ao veículo já foi verificado)
             const trip = await prisma.trip.findUnique({
                 where: { id: tripId },
                 select: {
@@ -218,12 +351,16 @@ vehicleRoutesController.get(
                     startTime: true,
                     endTime: true,
                     distance: true,
+                    reportedDistance: true,
+                    gpsJumpCount: true,
                     fuelConsumed: true,
                     notes: true,
                     vehicle: { select: { id: true, alias: true } },
                     routePath: true,
                     momentAppFuelTank: true,
                     consumptionRateUsed: true,
+                    drivingProfile: true,
+                    averageSpeedKmh: true,
                     createdAt: true,
                     updatedAt: true,
                     user: { select: { id: true, name: true } },
@@ -234,18 +371,10 @@ vehicleRoutesController.get(
                 return next(new AppError(`Viagem com ID ${tripId} não encontrada.`, 404));
             }
 
-            // 2. Verifica se a viagem pertence ao veículo da URL (sanidade) e se o usuário tem acesso a ELA
+            // Verifica se a viagem pertence ao veículo da URL (quem acessa o veículo vê suas viagens)
             if (trip.vehicle.id !== vehicleId) {
                 return next(new AppError(`Viagem ${tripId} não pertence ao veículo ${vehicleId}.`, 400));
             }
-            if (trip.user.id !== userId) { // Verifica se o usuário logado é quem registrou a viagem
-                // Ou verifica acesso ao veículo? Depende da regra. Assumindo que só quem registrou pode ver/editar.
-                // Se qualquer um com acesso ao veículo puder ver:
-                // if (!trip.vehicle || (trip.vehicle.ownerId !== userId && trip.vehicle.authorizedUsers.length === 0)) {
-                //    return next(new AppError('Acesso negado.', 403));
-                // }
-                return next(new AppError('Você não tem permissão para acessar esta viagem.', 403));
-            }
 
             return c.json(trip);
 
@@ -260,8 +389,8 @@ vehicleRoutesController.get(
 // PATCH /api/vehicles/:vehicleId/trips/:tripId - Atualizar viagem
 vehicleRoutesController.patch(
     '/:vehicleId/trips/:tripId',
-    authorize([permissions.user.any]), // Controller verifica acesso específico
     zValidator('param', updateTripSchema.shape.params), // Valida IDs e body
+    authorizeResource('vehicle', permissions.vehicle.update, { shareRole: VehicleShareRole.DRIVER }), // canModifyTrip restringe às próprias viagens
     zValidator('json', updateTripSchema.shape.body), // Valida IDs e body
     async (c) => {
         const userId = c.get('user').id;
@@ -271,25 +400,74 @@ vehicleRoutesController.patch(
         try {
             const prisma = getPrisma(c);
             const result = await prisma.$transaction(async (tx) => {
-                // 1. Busca a viagem ATUAL e verifica acesso/propriedade
+                // 1. Verifica acesso ao veículo, busca a viagem ATUAL e verifica propriedade
+                const vehicle = await getVehicleForUpdate(tx, vehicleId);
                 const currentTrip = await tx.trip.findUnique({
                     where: { id: tripId },
-                    select: { id: true, vehicleId: true, userId: true, distance: true, fuelConsumed: true, startTime: true, endTime: true, consumptionRateUsed: true }
+                    select: { id: true, vehicleId: true, userId: true, distance: true, fuelConsumed: true, startTime: true, endTime: true, consumptionRateUsed: true, momentAppFuelTank: true, routePath: true, drivingProfile: true }
                 });
 
                 if (!currentTrip) throw new AppError('Viagem não encontrada.', 404);
                 if (currentTrip.vehicleId !== vehicleId) throw new AppError('Viagem não pertence a este veículo.', 400);
-                if (currentTrip.userId !== userId) throw new AppError('Você não pode editar esta viagem.', 403); // Só quem criou pode editar?
+                if (!canModifyTrip(currentTrip, vehicle, userId, c.get('resourceAccess')!.scope)) throw new AppError('Você não pode editar esta viagem.', 403);
+
+                // Datas parciais precisam continuar consistentes com as já gravadas
+                const effectiveStart = updateData.startTime ?? currentTrip.startTime;
+                const effectiveEnd = updateData.endTime ?? currentTrip.endTime;
+                if (effectiveEnd < effectiveStart) throw new AppError('Hora de fim deve ser maior ou igual à hora de início.', 400);
 
                 // 2. Prepara dados para atualização da viagem
                 const newTripData: Prisma.TripUpdateInput = {};
                 if (updateData.startTime) newTripData.startTime = new Date(updateData.startTime);
                 if (updateData.endTime) newTripData.endTime = new Date(updateData.endTime);
-                if (updateData.distance) newTripData.distance = new Decimal(updateData.distance);
-                if (updateData.consumptionRateUsed) newTripData.consumptionRateUsed = new Decimal(updateData.consumptionRateUsed);
-                if (updateData.routePath !== undefined) newTripData.routePath = updateData.routePath ?? Prisma.JsonNull;
+                if (updateData.consumptionRateUsed) {
+                    // Taxa explícita substitui a escolha automática
+                    newTripData.consumptionRateUsed = new Decimal(updateData.consumptionRateUsed);
+                    newTripData.drivingProfile = null;
+                    newTripData.averageSpeedKmh = null;
+                }
+                const keepsRoute = currentTrip.routePath !== null && updateData.routePath === undefined;
+                if (updateData.routePath) {
+                    // Novo trajeto: distância recalculada no servidor
+                    const verified = verifyTripDistance(updateData.distance, updateData.routePath, effectiveStart, effectiveEnd);
+                    newTripData.distance = verified.distance;
+                    newTripData.reportedDistance = verified.reportedDistance;
+                    newTripData.gpsJumpCount = verified.gpsJumpCount;
+                    newTripData.routePath = verified.routePath;
+                } else {
+                    if (updateData.routePath === null) { // Trajeto removido
+                        newTripData.routePath = Prisma.JsonNull;
+                        newTripData.reportedDistance = null;
+                        newTripData.gpsJumpCount = 0;
+                    }
+                    if (updateData.distance) {
+                        // Com trajeto salvo (e mantido), a distância do app é apenas registrada
+                        if (keepsRoute) newTripData.reportedDistance = new Decimal(updateData.distance);
+                        else newTripData.distance = new Decimal(updateData.distance);
+                    }
+                }
                 if (updateData.notes !== undefined) newTripData.notes = updateData.notes;
 
+                // Trajeto mantido com novos horários: a distância dele precisa caber no novo intervalo
+                if (keepsRoute && (updateData.startTime !== undefined || updateData.endTime !== undefined)) {
+                    assertPlausibleSpeed(currentTrip.distance, effectiveStart, effectiveEnd);
+                }
+
+                // Taxa escolhida pelo servidor: reclassifica quando distância ou horários mudam
+                const wasAutoSelected = currentTrip.drivingProfile !== null && !updateData.consumptionRateUsed;
+                const timingChanged = newTripData.distance !== undefined || updateData.startTime !== undefined || updateData.endTime !== undefined;
+                if (wasAutoSelected && timingChanged) {
+                    const selection = selectConsumptionRate(
+                        vehicle,
+                        newTripData.distance instanceof Decimal ? newTripData.distance : currentTrip.distance,
+                        effectiveStart,
+                        effectiveEnd
+                    );
+                    newTripData.consumptionRateUsed = selection.consumptionRate;
+                    newTripData.drivingProfile = selection.drivingProfile;
+                    newTripData.averageSpeedKmh = selection.averageSpeedKmh;
+                }
+
                 // 3. Recalcula combustível consumido SE distância ou taxa mudaram
                 const newDistance = newTripData.distance instanceof Decimal ? newTripData.distance : currentTrip.distance;
                 const newRate = newTripData.consumptionRateUsed instanceof Decimal ? newTripData.consumptionRateUsed : currentTrip.consumptionRateUsed;
@@ -309,25 +487,21 @@ vehicleRoutesController.patch(
                     data: newTripData,
                 });
 
-                // 5. Calcula as *diferenças* para atualizar o veículo
+                // 5. Calcula as *diferenças* para atualizar o veículo (com o mesmo limite usado na criação)
                 const deltaDistance = newDistance.minus(currentTrip.distance);
-                const deltaFuel = (newFuelConsumed ?? currentTrip.fuelConsumed).minus(currentTrip.fuelConsumed); // Compara novo calculado com antigo
+                const previousDrawn = getFuelDrawn(currentTrip.fuelConsumed, currentTrip.momentAppFuelTank);
+                const newDrawn = getFuelDrawn(newFuelConsumed ?? currentTrip.fuelConsumed, currentTrip.momentAppFuelTank);
 
                 // 6. Atualiza o Veículo (se houve mudança na distância ou consumo)
-                if (!deltaDistance.isZero() || !deltaFuel.isZero()) {
-                    await tx.vehicle.update({
-                        where: { id: vehicleId },
-                        data: {
-                            appOdometer: { increment: deltaDistance },
-                            appFuelTank: { decrement: deltaFuel } // Decrementa pelo delta do consumo
-                        }
-                    });
-                }
+                await adjustVehicleCounters(tx, vehicle, deltaDistance, previousDrawn.minus(newDrawn));
 
                 return updatedTrip;
             }); // Fim da transação
 
-            return c.json(result);
+            // O consumo da viagem mudou: o tanque pode ter ficado abaixo ou voltado acima do limite
+            const lowFuelAlert = await refreshLowFuelAlert(prisma, vehicleId, { tripId: result.id, location: getRouteEndPoint(result.routePath) });
+
+            return c.json({ ...result, lowFuelAlert });
 
         } catch (error) {
             next(error); // Captura AppError ou erros do Prisma
@@ -339,8 +513,8 @@ vehicleRoutesController.patch(
 // DELETE /api/vehicles/:vehicleId/trips/:tripId - Deletar viagem
 vehicleRoutesController.delete(
     '/:vehicleId/trips/:tripId',
-    authorize([permissions.user.any]), // Controller verifica acesso específico
     zValidator('param', getOrDeleteTripSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.update, { shareRole: VehicleShareRole.DRIVER }), // canModifyTrip restringe às próprias viagens
     async (c) => {
         const userId = c.get('user').id;
         const { vehicleId, tripId } = c.req.valid('param');
@@ -348,24 +522,24 @@ vehicleRoutesController.delete(
         try {
             const prisma = getPrisma(c);
             await prisma.$transaction(async (tx) => {
-                // 1. Busca a viagem a ser deletada e verifica acesso/propriedade
+                // 1. Verifica acesso ao veículo, busca a viagem a ser deletada e verifica propriedade
+                const vehicle = await getVehicleForUpdate(tx, vehicleId);
                 const tripToDelete = await tx.trip.findUnique({
                     where: { id: tripId },
-                    select: { id: true, vehicleId: true, userId: true, distance: true, fuelConsumed: true }
+                    select: { id: true, vehicleId: true, userId: true, distance: true, fuelConsumed: true, momentAppFuelTank: true }
                 });
 
                 if (!tripToDelete) throw new AppError('Viagem não encontrada.', 404);
                 if (tripToDelete.vehicleId !== vehicleId) throw new AppError('Viagem não pertence a este veículo.', 400);
-                if (tripToDelete.userId !== userId) throw new AppError('Você não pode deletar esta viagem.', 403);
+                if (!canModifyTrip(tripToDelete, vehicle, userId, c.get('resourceAccess')!.scope)) throw new AppError('Você não pode deletar esta viagem.', 403);
 
-                // 2. Reverte os efeitos no veículo
-                await tx.vehicle.update({
-                    where: { id: vehicleId },
-                    data: {
-                        appOdometer: { decrement: tripToDelete.distance }, // Subtrai a distância
-                        appFuelTank: { increment: tripToDelete.fuelConsumed } // Adiciona de volta o combustível
-                    }
-                });
+                // 2. Reverte os efeitos no veículo (devolve apenas o combustível que a viagem retirou)
+                await adjustVehicleCounters(
+                    tx,
+                    vehicle,
+                    tripToDelete.distance.negated(),
+                    getFuelDrawn(tripToDelete.fuelConsumed, tripToDelete.momentAppFuelTank)
+                );
 
                 // 3. Deleta a viagem
                 await tx.trip.delete({
@@ -373,6 +547,9 @@ vehicleRoutesController.delete(
                 });
             }); // Fim da transação
 
+            // O combustível da viagem voltou ao tanque: encerra o alerta se a autonomia se recuperou
+            await refreshLowFuelAlert(prisma, vehicleId, null);
+
             return c.body(null);
 
         } catch (error) {
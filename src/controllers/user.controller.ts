@@ -7,7 +7,15 @@ import { AppEnv, Hono } from 'hono';
 import { protect } from 'middlewares/auth.middleware';
 import next from 'middlewares/next.middleware';
 import { prismaMiddleware } from 'middlewares/prisma.middleware';
-import { changePasswordSchema, getUserByIdSchema, updateUserSchema } from 'validators/user.validator';
+import { changePasswordSchema, disableTwoFactorSchema, getUserByIdSchema, reputationHistorySchema, sessionIdParamSchema, twoFactorCodeSchema, updateUserSchema, vehicleInvitationParamSchema, vehicleTransferParamSchema } from 'validators/user.validator';
+import { getVoteWeight } from 'services/reputation.service';
+import { revokeSession, revokeUserSessions, sessionSelect } from 'services/session.service';
+import { confirmEnrollment, disableTwoFactor, getTwoFactorStatus, regenerateRecoveryCodes, startEnrollment } from 'services/twoFactor.service';
+import { listPendingInvitations, respondToInvitation } from 'services/vehicleShare.service';
+import { getTrashRetentionDays, listTrash } from 'services/trash.service';
+import { acceptVehicleTransfer, declineVehicleTransfer, listPendingTransfers } from 'services/vehicleTransfer.service';
+import { authorize } from 'middlewares/authorize.middleware';
+import permissions from 'utils/permissions';
 
 const userRoutesController = new Hono<AppEnv>();
 // --- Obter Detalhes do Usuário Logado ---
@@ -30,6 +38,7 @@ userRoutesController.get(
                     name: true,
                     username: true,
                     email: true,
+                    emailVerifiedAt: true,
                     createdAt: true,
                     updatedAt: true,
                     roleId: true,
@@ -84,10 +93,17 @@ userRoutesController.patch(
                 }
             }
 
+            // Email novo precisa ser confirmado de novo (o código é pedido em /auth/resend-verification)
+            const current = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+            const emailChanged = dataToUpdate.email !== undefined && dataToUpdate.email !== current?.email;
+
             // Atualizar o usuário - Prisma ignora campos 'undefined' no objeto 'data'
             const updatedUser = await prisma.user.update({
                 where: { id: userId },
-                data: dataToUpdate, // Passa o objeto validado diretamente
+                data: {
+                    ...dataToUpdate,
+                    ...(emailChanged && { emailVerifiedAt: null, emailVerificationToken: null, emailVerificationExpires: null, emailVerificationSentAt: null }),
+                },
                 select: { /* ...campos sem senha... */ },
             });
 
@@ -151,7 +167,7 @@ userRoutesController.post(
     async (req) => {
 
         try {
-            const userId = req.get('user')!.id;
+            const { id: userId, sessionId } = req.get('user')!;
             const { currentPassword, newPassword } = req.req.valid('json');
             const prisma = req.get('prisma');
             // 1. Buscar o usuário e sua senha atual
@@ -179,10 +195,334 @@ userRoutesController.post(
                 data: { password: hashedNewPassword },
             });
 
-            // (Opcional) Invalidar tokens JWT antigos se você tiver um mecanismo de blocklist
+            // 5. Encerrar as sessões dos outros dispositivos (a atual continua válida)
+            const revokedSessions = await revokeUserSessions(prisma, userId, 'PASSWORD_CHANGED', sessionId);
+
+            return req.json({ message: 'Senha alterada com sucesso.', revokedSessions }, 200);
+
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// --- Reputação do Usuário Logado (pontuação e histórico) ---
+userRoutesController.get(
+    '/me/reputation',
+    zValidator('query', reputationHistorySchema.shape.query),
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const prisma = req.get('prisma');
+            const { page = 1, limit = 20 } = req.req.valid('query') ?? {};
+            const skip = (page - 1) * limit;
+
+            const user = await prisma.user.findUnique({
+                where: { id: userId },
+                select: { reputationScore: true },
+            });
+            if (!user) {
+                return req.json({ message: 'Usuário não encontrado.' }, 404);
+            }
+
+            const [events, totalCount] = await prisma.$transaction([
+                prisma.reputationEvent.findMany({
+                    where: { userId },
+                    orderBy: { createdAt: 'desc' },
+                    skip: skip,
+                    take: limit,
+                    select: {
+                        id: true,
+                        type: true,
+                        delta: true,
+                        scoreAfter: true,
+                        gasStationProposalId: true,
+                        stationPriceProposalId: true,
+                        createdAt: true,
+                    }
+                }),
+                prisma.reputationEvent.count({ where: { userId } })
+            ]);
+
+            return req.json({
+                reputationScore: user.reputationScore,
+                voteWeight: getVoteWeight(user.reputationScore),
+                data: events,
+                meta: { currentPage: page, pageSize: limit, totalItems: totalCount, totalPages: Math.ceil(totalCount / limit) }
+            }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// --- Sessões (dispositivos) do Usuário Logado ---
+userRoutesController.get(
+    '/me/sessions',
+    async (req) => {
+        try {
+            const { id: userId, sessionId } = req.get('user');
+            const prisma = req.get('prisma');
+
+            const sessions = await prisma.userSession.findMany({
+                where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+                orderBy: { lastUsedAt: 'desc' },
+                select: sessionSelect,
+            });
+
+            return req.json({
+                data: sessions.map(session => ({ ...session, current: session.id === sessionId })),
+            }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Encerra todas as outras sessões (ex: "sair de todos os outros dispositivos")
+userRoutesController.delete(
+    '/me/sessions',
+    async (req) => {
+        try {
+            const { id: userId, sessionId } = req.get('user');
+            const prisma = req.get('prisma');
+
+            const revokedSessions = await revokeUserSessions(prisma, userId, 'REVOKED', sessionId);
+            return req.json({ message: 'Outras sessões encerradas.', revokedSessions }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+userRoutesController.delete(
+    '/me/sessions/:sessionId',
+    zValidator('param', sessionIdParamSchema.shape.params),
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const { sessionId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const session = await prisma.userSession.findFirst({
+                where: { id: sessionId, userId, revokedAt: null },
+                select: { id: true },
+            });
+            if (!session) {
+                return req.json({ message: 'Sessão não encontrada.' }, 404);
+            }
+
+            // Revogar a sessão atual equivale a logout: o access token deixa de valer imediatamente
+            await revokeSession(prisma, sessionId, 'REVOKED');
+            return req.json({ message: 'Sessão encerrada.' }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
 
-            return req.json({ message: 'Senha alterada com sucesso.' }, 200);
+// --- Autenticação em Dois Fatores (TOTP) ---
+userRoutesController.get(
+    '/me/2fa',
+    async (req) => {
+        try {
+            const status = await getTwoFactorStatus(req.get('prisma'), req.get('user').id);
+            return req.json(status, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
 
+// Gera o segredo (e a URI para o QR code); o 2FA só é ativado após /me/2fa/confirm
+userRoutesController.post(
+    '/me/2fa/enroll',
+    authorize([permissions.feature.two_factor]),
+    async (req) => {
+        try {
+            const enrollment = await startEnrollment(req.get('prisma'), req.get('user').id);
+            return req.json(enrollment, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+userRoutesController.post(
+    '/me/2fa/confirm',
+    zValidator('json', twoFactorCodeSchema.shape.body),
+    async (req) => {
+        try {
+            const { id: userId, sessionId } = req.get('user');
+            const { code } = req.req.valid('json');
+            const prisma = req.get('prisma');
+
+            const recoveryCodes = await confirmEnrollment(prisma, userId, code);
+            // O código acabou de ser conferido: a sessão atual já conta como verificada
+            await prisma.userSession.update({ where: { id: sessionId }, data: { twoFactorVerified: true } });
+
+            return req.json({ message: 'Autenticação em dois fatores ativada.', recoveryCodes }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+userRoutesController.post(
+    '/me/2fa/disable',
+    zValidator('json', disableTwoFactorSchema.shape.body),
+    async (req) => {
+        try {
+            const { password, code, recoveryCode } = req.req.valid('json');
+            await disableTwoFactor(req.get('prisma'), req.get('user').id, password, { code, recoveryCode });
+            return req.json({ message: 'Autenticação em dois fatores desativada.' }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Invalida os códigos de recuperação anteriores e devolve novos (exibidos uma única vez)
+userRoutesController.post(
+    '/me/2fa/recovery-codes',
+    zValidator('json', twoFactorCodeSchema.shape.body),
+    async (req) => {
+        try {
+            const { code } = req.req.valid('json');
+            const recoveryCodes = await regenerateRecoveryCodes(req.get('prisma'), req.get('user').id, code);
+            return req.json({ recoveryCodes }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// --- Convites de Compartilhamento de Veículos ---
+userRoutesController.get(
+    '/me/vehicle-invitations',
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const prisma = req.get('prisma');
+            return req.json({ data: await listPendingInvitations(prisma, userId) }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+userRoutesController.post(
+    '/me/vehicle-invitations/:vehicleId/accept',
+    zValidator('param', vehicleInvitationParamSchema.shape.params),
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const { vehicleId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const share = await respondToInvitation(prisma, userId, vehicleId, true);
+            return req.json({ message: 'Convite aceito.', share }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+userRoutesController.post(
+    '/me/vehicle-invitations/:vehicleId/decline',
+    zValidator('param', vehicleInvitationParamSchema.shape.params),
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const { vehicleId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const share = await respondToInvitation(prisma, userId, vehicleId, false);
+            return req.json({ message: 'Convite recusado.', share }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Sai de um veículo compartilhado (o dono pode convidar de novo depois)
+userRoutesController.delete(
+    '/me/vehicle-shares/:vehicleId',
+    zValidator('param', vehicleInvitationParamSchema.shape.params),
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const { vehicleId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const { count } = await prisma.userVehicleAuthorization.deleteMany({ where: { userId, vehicleId } });
+            if (count === 0) {
+                return req.json({ message: 'Compartilhamento não encontrado.' }, 404);
+            }
+            return req.body(null, 204);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Transferências de veículo recebidas (o veículo passa para o usuário ao aceitar)
+userRoutesController.get(
+    '/me/vehicle-transfers',
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const prisma = req.get('prisma');
+            return req.json({ data: await listPendingTransfers(prisma, userId) }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+userRoutesController.post(
+    '/me/vehicle-transfers/:transferId/accept',
+    zValidator('param', vehicleTransferParamSchema.shape.params),
+    authorize([permissions.vehicle.create]), // Passar a ter um veículo equivale a cadastrá-lo
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const { transferId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const transfer = await acceptVehicleTransfer(prisma, userId, transferId);
+            return req.json({ message: 'Transferência aceita. Você é o novo proprietário do veículo.', transfer }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+userRoutesController.post(
+    '/me/vehicle-transfers/:transferId/decline',
+    zValidator('param', vehicleTransferParamSchema.shape.params),
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const { transferId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const transfer = await declineVehicleTransfer(prisma, userId, transferId);
+            return req.json({ message: 'Transferência recusada.', transfer }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Lixeira: veículos e itens excluídos que ainda podem ser restaurados
+userRoutesController.get(
+    '/me/trash',
+    async (req) => {
+        try {
+            const userId = req.get('user').id;
+            const prisma = req.get('prisma');
+            return req.json(await listTrash(prisma, userId, getTrashRetentionDays(req.env)), 200);
         } catch (error) {
             next(error);
         }
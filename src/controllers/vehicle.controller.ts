@@ -1,49 +1,61 @@
 // src/controllers/vehicle.controller.ts
 import AppError from '../utils/AppError';
-import { Prisma, PrismaClient } from '@prisma/client'; // Import Prisma namespace for types
+import { Prisma, PrismaClient, VehicleShareStatus, VehicleTransferStatus } from '@prisma/client'; // Import Prisma namespace for types
 import { protect } from 'middlewares/auth.middleware';
 import { AppEnv, Hono } from 'hono';
 import { prismaMiddleware } from 'middlewares/prisma.middleware';
-import { authorize } from 'middlewares/authorize.middleware';
+import { authorize, authorizeResource, getAuthorizedResource } from 'middlewares/authorize.middleware';
 import permissions from 'utils/permissions';
 import { zValidator } from '@hono/zod-validator';
-import { createVehicleSchema, grantAuthorizationSchema, revokeAuthorizationSchema, updateVehicleSchema, vehicleIdSchema } from 'validators/vehicle.validator';
+import { createVehicleSchema, grantAuthorizationSchema, initiateTransferSchema, revokeAuthorizationSchema, updateAuthorizationSchema, updateVehicleSchema, vehicleEfficiencySchema, vehicleFuelLevelSchema, vehicleIdSchema, vehicleTransferIdSchema } from 'validators/vehicle.validator';
 import next from 'middlewares/next.middleware';
-
-
-const vehicleRoutesController = new Hono<AppEnv>();
-// --- Obter Detalhes do Usuário Logado ---
-vehicleRoutesController.use(protect)
-vehicleRoutesController.use('*', prismaMiddleware);
-
-// --- Helper Function (optional but recommended) ---
-/**
- * Checks if a user has access to a specific vehicle (either owner or authorized).
- * Throws AppError (403 or 404) if access denied or vehicle not found.
- */
-export async function checkVehicleAccess(prisma: PrismaClient, userId: string, vehicleId: string): Promise<Prisma.VehicleGetPayload<{}>> {
-    const vehicle = await prisma.vehicle.findUnique({
-        where: { id: vehicleId },
-        include: { authorizedUsers: { where: { userId: userId }, select: { userId: true } } } // Check authorization efficiently
+import { applyLearnedEfficiency, DEFAULT_EFFICIENCY_WINDOW, getVehicleEfficiencyReport } from 'services/efficiency.service';
+import { clampFuelLevel, DEFAULT_FUEL_TIMELINE_LIMIT, getEffectiveTankCapacity, getFuelLevelReport, tankCapacitySelect } from 'services/fuelLevel.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import { resolveLowFuelAlerts } from 'services/alert.service';
+import { activeShareWhere, inviteToVehicle, vehicleShareSelect } from 'services/vehicleShare.service';
+import { assertRestorable, getTrashRetentionDays } from 'services/trash.service';
+import { cancelVehicleTransfer, initiateVehicleTransfer, listVehicleTransfers } from 'services/vehicleTransfer.service';
+
+
+// Usuários do plano básico só podem ter 1 veículo ativo (os da lixeira não contam)
+async function assertVehicleLimit(prisma: PrismaClient, ownerId: string, roleId: string): Promise<void> {
+    const basicRole = await prisma.role.findUnique({
+        where: { name: 'BASIC_USER' },
+        select: { id: true }
     });
 
-    if (!vehicle) {
-        throw new AppError(`Veículo com ID ${vehicleId} não encontrado.`, 404);
+    if (!basicRole) {
+        throw new AppError('Erro interno ao verificar permissões de criação.', 500);
     }
 
-    const isOwner = vehicle.ownerId === userId;
-    const isAuthorized = vehicle.authorizedUsers.length > 0; // User ID found in the relation
-
-    if (!isOwner && !isAuthorized) {
-        throw new AppError('Acesso proibido a este veículo.', 403);
+    if (basicRole.id === roleId) {
+        // Conta quantos veículos este usuário JÁ POSSUI
+        const vehicleCount = await prisma.vehicle.count({
+            where: {
+                ownerId: ownerId,
+                deletedAt: null,
+            },
+        });
+
+        // Se o usuário já tem 1 ou mais veículos, impede a criação
+        if (vehicleCount >= 1) {
+            throw new AppError(
+                'Usuários do plano básico podem adicionar apenas 1 veículo. Considere fazer um upgrade para adicionar mais.',
+                403 // 403 Forbidden é apropriado aqui (permissão negada devido à limitação)
+            );
+        }
     }
-    // Remove temporary relation data before returning
-    // delete (vehicle as any).authorizedUsers; // Or use Prisma select without it if not needed later
-    return vehicle; // Return the vehicle if access is granted
 }
 
+const vehicleRoutesController = new Hono<AppEnv>();
+// --- Obter Detalhes do Usuário Logado ---
+vehicleRoutesController.use(protect)
+vehicleRoutesController.use('*', prismaMiddleware);
 
 // --- CRUD Operations ---
+// Acesso a um veículo específico: authorizeResource('vehicle', ...) carrega o veículo e avalia
+// o escopo (dono/autorizado com ":own", qualquer veículo com ":any")
 vehicleRoutesController.post(
     '/',
     authorize([permissions.vehicle.create]),
@@ -55,33 +67,8 @@ vehicleRoutesController.post(
             const roleId = req.get('user')!.roleId;
             const data = req.req.valid('json');
             const prisma = req.get('prisma');
-            const basicRole = await prisma.role.findUnique({
-                where: { name: 'BASIC_USER' },
-                select: { id: true }
-            });
-
-            if (!basicRole) {
-                return next(new AppError('Erro interno ao verificar permissões de criação.', 500));
-            }
-
-            const basicUserRoleId = basicRole.id;
 
-            if (basicUserRoleId === roleId) {
-                // Conta quantos veículos este usuário JÁ POSSUI
-                const vehicleCount = await prisma.vehicle.count({
-                    where: {
-                        ownerId: ownerId,
-                    },
-                });
-
-                // Se o usuário já tem 1 ou mais veículos, impede a criação
-                if (vehicleCount >= 1) {
-                    return next(new AppError(
-                        'Usuários do plano básico podem adicionar apenas 1 veículo. Considere fazer um upgrade para adicionar mais.',
-                        403 // 403 Forbidden é apropriado aqui (permissão negada devido à limitação)
-                    ));
-                }
-            }
+            await assertVehicleLimit(prisma, ownerId, roleId);
 
             // 1. Validate CategoryId exists
             const categoryExists = await prisma.vehicleCategory.findUnique({
@@ -95,9 +82,13 @@ vehicleRoutesController.post(
             // 2. Check for existing plate (case-insensitive recommended for plates)
             const plateExists = await prisma.vehicle.findUnique({
                 where: { plate: data.plate }, // Consider .toLowerCase() on both sides if needed
-                select: { id: true },
+                select: { id: true, ownerId: true, deletedAt: true },
             });
             if (plateExists) {
+                // A placa continua reservada enquanto o veículo estiver na lixeira
+                if (plateExists.deletedAt && plateExists.ownerId === ownerId) {
+                    return next(new AppError(`Placa ${data.plate} pertence a um veículo seu na lixeira. Restaure-o em vez de cadastrá-lo de novo.`, 409));
+                }
                 return next(new AppError(`Placa ${data.plate} já cadastrada.`, 409));
             }
 
@@ -130,10 +121,11 @@ vehicleRoutesController.get(
             const prisma = req.get('prisma');
             const vehicles = await prisma.vehicle.findMany({
                 where: {
-                    // User is the owner OR user is in the list of authorized users for the vehicle
+                    deletedAt: null, // Vehicles in the trash are listed in /users/me/trash
+                    // User is the owner OR the vehicle is shared with the user (accepted and not expired)
                     OR: [
                         { ownerId: userId },
-                        { authorizedUsers: { some: { userId: userId } } }
+                        { authorizedUsers: { some: activeShareWhere(userId) } }
                     ]
                 },
                 orderBy: { createdAt: 'desc' }, // Example ordering
@@ -168,48 +160,42 @@ vehicleRoutesController.get(
 
 vehicleRoutesController.get(
     '/:vehicleId',
-    authorize([permissions.vehicle.read]),
     zValidator('param', vehicleIdSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read),
     async (req) => {
         try {
-            const userId = req.get('user')!.id;
             const { vehicleId } = req.req.valid('param');
             const prisma = req.get('prisma');
-            // Use helper to check access and get vehicle data
-            await checkVehicleAccess(prisma, userId, vehicleId);
 
-            // Fetch full details if needed (or adjust helper to fetch more initially)
+            // Fetch full details
             const fullVehicleDetails = await prisma.vehicle.findUnique({
                 where: { id: vehicleId },
                 include: {
                     category: true,
                     owner: { select: { id: true, username: true } },
-                    authorizedUsers: { select: { user: { select: { id: true, username: true } } } } // Show authorized users
+                    // Compartilhamentos aceitos (convites pendentes/recusados: GET /:vehicleId/authorizations)
+                    authorizedUsers: { where: { status: VehicleShareStatus.ACCEPTED }, select: vehicleShareSelect }
                 }
             })
 
             return req.json(fullVehicleDetails, 200);
         } catch (error) {
-            next(error); // Handles AppError from checkVehicleAccess (403/404) or other errors
+            next(error);
         }
     }
 );
 
 vehicleRoutesController.patch(
     '/:vehicleId',
-    authorize([permissions.vehicle.update]),
     zValidator('param', updateVehicleSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.update), // 1. Existence and access (owner or authorized)
     zValidator('json', updateVehicleSchema.shape.body),
     async (req) => {
 
         try {
-            const userId = req.get('user')!.id;
             const { vehicleId } = req.req.valid('param');
             const dataToUpdate = req.req.valid('json');
             const prisma = req.get('prisma');
-            // 1. Check if user has access to the vehicle (owner or authorized)
-            // Note: checkVehicleAccess ensures the vehicle exists
-            await checkVehicleAccess(prisma, userId, vehicleId);
 
             // 2. Optional: Validate new CategoryId if provided
             if (dataToUpdate.categoryId) {
@@ -235,155 +221,273 @@ vehicleRoutesController.patch(
                 }
             }
 
-            // 4. Update the vehicle
+            // 4. Keep the simulated tank within the (possibly new) capacity
+            if (dataToUpdate.tankCapacity !== undefined || dataToUpdate.appFuelTank !== undefined || dataToUpdate.categoryId) {
+                const current = await prisma.vehicle.findUnique({
+                    where: { id: vehicleId },
+                    select: { appFuelTank: true, ...tankCapacitySelect }
+                });
+                const newCategory = dataToUpdate.categoryId
+                    ? await prisma.vehicleCategory.findUnique({ where: { id: dataToUpdate.categoryId }, select: { defaultTankCapacity: true } })
+                    : current!.category;
+                const capacity = getEffectiveTankCapacity({
+                    tankCapacity: dataToUpdate.tankCapacity !== undefined
+                        ? (dataToUpdate.tankCapacity === null ? null : new Decimal(dataToUpdate.tankCapacity))
+                        : current!.tankCapacity,
+                    category: newCategory,
+                });
+                if (dataToUpdate.appFuelTank !== undefined && capacity && capacity.lessThan(dataToUpdate.appFuelTank)) {
+                    return next(new AppError(`Nível do tanque (${dataToUpdate.appFuelTank} L) excede a capacidade (${capacity} L).`, 400));
+                }
+                const level = dataToUpdate.appFuelTank !== undefined ? new Decimal(dataToUpdate.appFuelTank) : current!.appFuelTank;
+                dataToUpdate.appFuelTank = clampFuelLevel(level, capacity).toNumber();
+            }
+
+            // 5. Update the vehicle
             const updatedVehicle = await prisma.vehicle.update({
                 where: { id: vehicleId },
                 data: dataToUpdate, // Prisma handles partial updates correctly
                 select: { // Select fields to return
-                    id: true, alias: true, brand: true, model: true, plate: true, yearManufacture: true, yearModel: true, color: true, appOdometer: true, createdAt: true, updatedAt: true,
+                    id: true, alias: true, brand: true, model: true, plate: true, yearManufacture: true, yearModel: true, color: true, appOdometer: true, appFuelTank: true, tankCapacity: true, lowFuelRangeKm: true, createdAt: true, updatedAt: true,
                     category: { select: { id: true, name: true } },
                     owner: { select: { id: true, username: true } }
                 }
             });
 
+            // 6. Manual reconcile or new threshold may end the low-fuel episode
+            if (dataToUpdate.appFuelTank !== undefined || dataToUpdate.lowFuelRangeKm !== undefined) {
+                await resolveLowFuelAlerts(prisma, vehicleId);
+            }
+
             return req.json(updatedVehicle, 200);
 
         } catch (error) {
-            next(error); // Handles AppError from checkVehicleAccess or validation/DB errors
+            next(error); // Handles validation/DB errors
         }
     }
 );
 
 vehicleRoutesController.delete(
     '/:vehicleId',
-    authorize([permissions.vehicle.delete]),
     zValidator('param', vehicleIdSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.delete), // Only the owner (authorized users don't count) or ':any'
     async (req) => {
         try {
-            const userId = req.get('user')!.id;
             const { vehicleId } = req.req.valid('param');
             const prisma = req.get('prisma');
-            // 1. Fetch vehicle to check OWNERSHIP specifically for deletion
-            const vehicle = await prisma.vehicle.findUnique({
+
+            // Move the vehicle to the trash; its history stays hidden with it until restored or purged
+            const deletedAt = new Date();
+            await prisma.$transaction([
+                prisma.vehicle.update({ where: { id: vehicleId }, data: { deletedAt } }),
+                prisma.vehicleTransfer.updateMany({
+                    where: { vehicleId, status: VehicleTransferStatus.PENDING },
+                    data: { status: VehicleTransferStatus.CANCELLED, respondedAt: deletedAt },
+                }),
+            ]);
+
+            return req.status(204); // No Content
+        } catch (error) {
+            next(error); // Handles not found, forbidden, or DB constraint errors
+        }
+    }
+);
+
+// Restaura o veículo da lixeira (com o histórico que foi junto)
+vehicleRoutesController.post(
+    '/:vehicleId/restore',
+    zValidator('param', vehicleIdSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.delete, { includeDeleted: true }), // Same rule as deleting
+    async (req) => {
+        try {
+            const { vehicleId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+            const vehicle = getAuthorizedResource(req, 'vehicle');
+
+            assertRestorable(vehicle, getTrashRetentionDays(req.env));
+            const owner = await prisma.user.findUnique({ where: { id: vehicle.ownerId }, select: { roleId: true } });
+            if (owner) await assertVehicleLimit(prisma, vehicle.ownerId, owner.roleId);
+
+            const restored = await prisma.vehicle.update({
                 where: { id: vehicleId },
-                select: { ownerId: true } // Only need ownerId
+                data: { deletedAt: null },
+                select: { id: true, alias: true, plate: true, brand: true, model: true },
             });
+            return req.json({ message: 'Veículo restaurado.', vehicle: restored }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
 
+
+// --- Nível do Tanque (simulado) ---
+vehicleRoutesController.get(
+    '/:vehicleId/fuel-level',
+    zValidator('param', vehicleFuelLevelSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read),
+    zValidator('query', vehicleFuelLevelSchema.shape.query),
+    async (req) => {
+        try {
+            const { vehicleId } = req.req.valid('param');
+            const { since, limit = DEFAULT_FUEL_TIMELINE_LIMIT } = req.req.valid('query') ?? {};
+            const prisma = req.get('prisma');
+
+            const vehicle = await prisma.vehicle.findUnique({
+                where: { id: vehicleId },
+                select: { id: true, appFuelTank: true, kmlCity: true, kmlRoad: true, ...tankCapacitySelect }
+            });
             if (!vehicle) {
                 return next(new AppError(`Veículo com ID ${vehicleId} não encontrado.`, 404));
             }
 
-            // 2. Enforce that ONLY the owner can delete
-            if (vehicle.ownerId !== userId) {
-                return next(new AppError('Apenas o proprietário pode excluir o veículo.', 403));
-            }
+            const report = await getFuelLevelReport(prisma, vehicle, { since, limit });
+            return req.json(report, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
 
-            // 3. Delete the vehicle
-            // Note: This might fail if related records (like Expenses) have restrictive onDelete rules.
-            // The errorHandler should catch Prisma P2003/P2014 if that happens.
-            await prisma.vehicle.delete({
-                where: { id: vehicleId },
-            });
+// --- Consumo Real (aprendido dos abastecimentos) ---
+vehicleRoutesController.get(
+    '/:vehicleId/efficiency',
+    zValidator('param', vehicleEfficiencySchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.read),
+    zValidator('query', vehicleEfficiencySchema.shape.query),
+    async (req) => {
+        try {
+            const { fuelTypeId, window = DEFAULT_EFFICIENCY_WINDOW } = req.req.valid('query') ?? {};
+            const prisma = req.get('prisma');
+            const vehicle = getAuthorizedResource(req, 'vehicle');
 
-            return req.status(204); // No Content
+            const report = await getVehicleEfficiencyReport(prisma, vehicle, window, fuelTypeId);
+            return req.json({ ...report, autoUpdateKml: vehicle.autoUpdateKml }, 200);
         } catch (error) {
-            next(error); // Handles not found, forbidden, or DB constraint errors
+            next(error);
+        }
+    }
+);
+
+// Aplica manualmente os valores aprendidos em kmlCity/kmlRoad
+vehicleRoutesController.post(
+    '/:vehicleId/efficiency/apply',
+    zValidator('param', vehicleIdSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.update),
+    async (req) => {
+        try {
+            const { vehicleId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const result = await applyLearnedEfficiency(prisma, vehicleId);
+            if (!result.updated) {
+                return next(new AppError('Ainda não há medições suficientes para atualizar o consumo do veículo.', 422));
+            }
+            return req.json({ message: 'Consumo do veículo atualizado com os valores medidos.', ...result }, 200);
+        } catch (error) {
+            next(error);
         }
     }
 );
 
 
 // --- Authorization Management Controllers ---
+// Compartilhamentos e convites do veículo (inclui pendentes, recusados e expirados)
+vehicleRoutesController.get(
+    '/:vehicleId/authorizations',
+    zValidator('param', vehicleIdSchema.shape.params),
+    authorizeResource('vehicle', permissions.feature.authorize), // Only the owner manages sharing
+    async (req) => {
+        try {
+            const { vehicleId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            const shares = await prisma.userVehicleAuthorization.findMany({
+                where: { vehicleId },
+                orderBy: { createdAt: 'desc' },
+                select: vehicleShareSelect,
+            });
+            return req.json({ data: shares }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Convida um usuário (por ID, email ou username); o acesso só começa quando ele aceitar
 vehicleRoutesController.post(
     '/:vehicleId/authorizations',
-    authorize([permissions.feature.authorize]), // Only owner can authorize
     zValidator('param', grantAuthorizationSchema.shape.params),
+    authorizeResource('vehicle', permissions.feature.authorize), // 1. Only the owner can invite
     zValidator('json', grantAuthorizationSchema.shape.body),
     async (req) => {
 
         try {
-            const ownerId = req.get('user')!.id; // The user making the request (must be the owner)
-            const { vehicleId } = req.req.valid('param');
-            const { userId: userIdToAuthorize } = req.req.valid('json');
+            const { userId, identifier, role, expiresAt } = req.req.valid('json');
             const prisma = req.get('prisma');
-            // 1. Check if the requester is the actual owner of the vehicle
-            const vehicle = await prisma.vehicle.findUnique({
-                where: { id: vehicleId },
-                select: { ownerId: true }
-            });
+            const vehicle = getAuthorizedResource(req, 'vehicle');
+
+            // 2. Create (or renew a declined/expired) invitation
+            const invitation = await inviteToVehicle(
+                prisma,
+                vehicle,
+                userId ? { userId } : { identifier: identifier! },
+                { role, expiresAt },
+                req.env
+            );
+            return req.json({ message: 'Convite enviado. O acesso começa quando o usuário aceitar.', invitation }, 201);
 
-            if (!vehicle) {
-                return next(new AppError(`Veículo com ID ${vehicleId} não encontrado.`, 404));
-            }
-            if (vehicle.ownerId !== ownerId) {
-                return next(new AppError('Apenas o proprietário pode conceder autorização.', 403));
-            }
+        } catch (error) {
+            next(error);
+        }
+    }
+);
 
-            // 2. Prevent authorizing oneself
-            if (ownerId === userIdToAuthorize) {
-                return next(new AppError('Você não pode autorizar a si mesmo.', 400));
-            }
+// Altera o papel e/ou a validade de um compartilhamento ou convite pendente
+vehicleRoutesController.patch(
+    '/:vehicleId/authorizations/:userId',
+    zValidator('param', updateAuthorizationSchema.shape.params),
+    authorizeResource('vehicle', permissions.feature.authorize),
+    zValidator('json', updateAuthorizationSchema.shape.body),
+    async (req) => {
+        try {
+            const { vehicleId, userId } = req.req.valid('param');
+            const { role, expiresAt } = req.req.valid('json');
+            const prisma = req.get('prisma');
 
-            // 3. Check if the user being authorized actually exists
-            const userToAuthorizeExists = await prisma.user.findUnique({
-                where: { id: userIdToAuthorize }, select: { id: true }
+            const share = await prisma.userVehicleAuthorization.findUnique({
+                where: { userId_vehicleId: { userId, vehicleId } },
+                select: { status: true },
             });
-            if (!userToAuthorizeExists) {
-                return next(new AppError(`Usuário com ID ${userIdToAuthorize} não encontrado.`, 404));
+            if (!share) {
+                return next(new AppError('Autorização não encontrada para este usuário e veículo.', 404));
             }
-
-            // 4. Create the authorization record
-            // Use upsert or create with error handling for duplicates
-            try {
-                const authorization = await prisma.userVehicleAuthorization.create({
-                    data: {
-                        userId: userIdToAuthorize,
-                        vehicleId: vehicleId,
-                    },
-                    select: { // Select fields for response confirmation
-                        user: { select: { id: true, username: true } },
-                        vehicle: { select: { id: true, alias: true } },
-                        createdAt: true
-                    }
-                });
-                return req.json({ message: 'Autorização concedida com sucesso.', authorization }, 201);
-            } catch (e) {
-                if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
-                    // Unique constraint failed - already authorized
-                    return next(new AppError(`Usuário já está autorizado para este veículo.`, 409));
-                }
-                throw e; // Re-throw other errors
+            if (share.status === VehicleShareStatus.DECLINED) {
+                return next(new AppError('O usuário recusou o convite. Envie um novo convite.', 409));
             }
 
-
+            const authorization = await prisma.userVehicleAuthorization.update({
+                where: { userId_vehicleId: { userId, vehicleId } },
+                data: { ...(role && { role }), ...(expiresAt !== undefined && { expiresAt }) },
+                select: vehicleShareSelect,
+            });
+            return req.json(authorization, 200);
         } catch (error) {
             next(error);
         }
     }
 );
 
+// Revoga o compartilhamento (ou cancela o convite)
 vehicleRoutesController.delete(
     '/:vehicleId/authorizations/:userId',
-    authorize([permissions.feature.authorize]), // Only owner can revoke (matches the grant permission for simplicity)
     zValidator('param', revokeAuthorizationSchema.shape.params),
+    authorizeResource('vehicle', permissions.feature.authorize), // 1. Only the owner can revoke (matches the grant permission for simplicity)
     async (req) => {
 
         try {
-            const ownerId = req.get('user')!.id; // The user making the request (must be the owner)
             const { vehicleId, userId: userIdToRevoke } = req.req.valid('param');
             const prisma = req.get('prisma');
-            // 1. Check if the requester is the actual owner of the vehicle
-            const vehicle = await prisma.vehicle.findUnique({
-                where: { id: vehicleId },
-                select: { ownerId: true }
-            });
-
-            if (!vehicle) {
-                return next(new AppError(`Veículo com ID ${vehicleId} não encontrado.`, 404));
-            }
-            if (vehicle.ownerId !== ownerId) {
-                return next(new AppError('Apenas o proprietário pode revogar autorização.', 403));
-            }
 
             // 2. Attempt to delete the authorization record
             // Deleting by composite key
@@ -409,4 +513,59 @@ vehicleRoutesController.delete(
 );
 
 
+// --- Ownership Transfer Controllers ---
+// Inicia a transferência do veículo; a propriedade só muda quando o destinatário aceitar
+vehicleRoutesController.post(
+    '/:vehicleId/transfers',
+    zValidator('param', initiateTransferSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.transfer), // Only the owner (or ':any')
+    zValidator('json', initiateTransferSchema.shape.body),
+    async (req) => {
+        try {
+            const { identifier, history } = req.req.valid('json');
+            const prisma = req.get('prisma');
+            const vehicle = getAuthorizedResource(req, 'vehicle');
+
+            const transfer = await initiateVehicleTransfer(prisma, vehicle, identifier, history, req.env);
+            return req.json({ message: 'Transferência iniciada. O veículo muda de proprietário quando o destinatário aceitar.', transfer }, 201);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+vehicleRoutesController.get(
+    '/:vehicleId/transfers',
+    zValidator('param', vehicleIdSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.transfer),
+    async (req) => {
+        try {
+            const prisma = req.get('prisma');
+            const vehicle = getAuthorizedResource(req, 'vehicle');
+            return req.json({ data: await listVehicleTransfers(prisma, vehicle) }, 200);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Cancela a transferência pendente
+vehicleRoutesController.delete(
+    '/:vehicleId/transfers/:transferId',
+    zValidator('param', vehicleTransferIdSchema.shape.params),
+    authorizeResource('vehicle', permissions.vehicle.transfer),
+    async (req) => {
+        try {
+            const { vehicleId, transferId } = req.req.valid('param');
+            const prisma = req.get('prisma');
+
+            await cancelVehicleTransfer(prisma, vehicleId, transferId);
+            return req.body(null, 204);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+
 export default vehicleRoutesController;
\ No newline at end of file
@@ -40,7 +40,7 @@ vehicleCategoryRoutesController.post(
     authorize([permissions.admin.update_any]),
     zValidator('json', createVehicleCategorySchema.shape.body),
     async (c) => {
-        const { name, iconName } = c.req.valid('json');
+        const { name, iconName, defaultTankCapacity } = c.req.valid('json');
         try {
             const prisma = getPrisma(c);
             // Check if name already exists (case-insensitive check might be better)
@@ -53,8 +53,8 @@ vehicleCategoryRoutesController.post(
             }
 
             const newCategory = await prisma.vehicleCategory.create({
-                data: { name, iconName },
-                select: { id: true, name: true, iconName: true, createdAt: true }
+                data: { name, iconName, defaultTankCapacity },
+                select: { id: true, name: true, iconName: true, defaultTankCapacity: true, createdAt: true }
             });
             return c.json(newCategory);
 
@@ -93,7 +93,7 @@ vehicleCategoryRoutesController.get(
             const prisma = getPrisma(c);
             const category = await prisma.vehicleCategory.findUnique({
                 where: { id: categoryId },
-                select: { id: true, name: true, iconName: true, createdAt: true, updatedAt: true }
+                select: { id: true, name: true, iconName: true, defaultTankCapacity: true, createdAt: true, updatedAt: true }
             });
 
             if (!category) {
@@ -144,7 +144,7 @@ vehicleCategoryRoutesController.patch(
             const updatedCategory = await prisma.vehicleCategory.update({
                 where: { id: categoryId },
                 data: dataToUpdate,
-                select: { id: true, name: true, iconName: true, createdAt: true, updatedAt: true }
+                select: { id: true, name: true, iconName: true, defaultTankCapacity: true, createdAt: true, updatedAt: true }
             });
             return c.json(updatedCategory);
 
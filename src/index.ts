@@ -1,5 +1,6 @@
 import { PrismaD1 } from "@prisma/adapter-d1";
 import { PrismaClient } from "@prisma/client";
+import adminRoutesController from "controllers/admin.controller";
 import authRoutesController from "controllers/auth.controller";
 import budgetRoutesController from "controllers/budget.controller";
 import expenseRoutesController from "controllers/expense.controller";
@@ -8,6 +9,8 @@ import noteRoutesController from "controllers/note.controller";
 import reportRoutesController from "controllers/report.controller";
 import reviewRoutesController from "controllers/review.controller";
 import stationRoutesController from "controllers/station.controller";
+import "controllers/alert.controller"; // Registra as rotas /vehicles/:vehicleId/alerts em vehicleRoutesController
+import "controllers/trip.controller"; // Registra as rotas /vehicles/:vehicleId/trips em vehicleRoutesController
 import userRoutesController from "controllers/user.controller";
 import vehicleRoutesController from "controllers/vehicle.controller";
 import vehicleCategoryRoutesController from "controllers/vehicleCategory.controller";
@@ -15,6 +18,7 @@ import { Hono } from "hono";
 import { honoErrorHandler } from "middlewares/error.middleware";
 import seedRoutes from "routes/seed.routes";
 import testRoutes from "routes/test.routes";
+import { getTrashRetentionDays, purgeExpiredTrash } from "services/trash.service";
 import { Bindings } from "types";
 
 
@@ -34,8 +38,20 @@ app.route('/fuel-types', fuelTypeRoutesController);
 app.route('/reviews', reviewRoutesController);
 app.route('/budgets', budgetRoutesController);
 app.route('/reports', reportRoutesController);
+app.route('/admin', adminRoutesController);
 
 app.onError(honoErrorHandler);
 
-// Export the Hono app
-export default app;
+// Export the Hono app (fetch) and the cron handler (wrangler.jsonc: triggers.crons)
+export default {
+    fetch: app.fetch,
+    // Exclusão definitiva dos itens da lixeira com a retenção vencida
+    async scheduled(_controller: ScheduledController, env: Bindings, ctx: ExecutionContext) {
+        const prisma = new PrismaClient({ adapter: new PrismaD1(env.DB) });
+        ctx.waitUntil(
+            purgeExpiredTrash(prisma, getTrashRetentionDays(env))
+                .then(purged => console.log('Lixeira: itens excluídos de vez:', purged))
+                .catch(error => console.error('Erro ao esvaziar a lixeira:', error))
+        );
+    },
+};
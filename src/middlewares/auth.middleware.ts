@@ -5,6 +5,7 @@ import AppError from '../utils/AppError';
 import { PrismaD1 } from '@prisma/adapter-d1';
 import { PrismaClient } from '@prisma/client';
 import { AuthVariables } from 'types';
+import { getActiveSessionRoleId } from 'services/session.service';
 
 // Define the type for variables expected/set by this middleware
 // Use the types defined in hono.d.ts
@@ -30,7 +31,7 @@ export const protect: MiddlewareHandler<AuthVariables> = async (c, next) => {
         const JWT_SECRET = c.env.JWT_SECRET || "seu_super_segredo_jwt_aqui";
         const decoded = verifyToken(token, JWT_SECRET); // Assuming verifyToken throws on error or returns null/undefined
         
-        if (!decoded || !decoded.userId || !decoded.roleId) {
+        if (!decoded || !decoded.userId || !decoded.roleId || !decoded.sessionId) {
             throw new AppError('Não autorizado. Token inválido ou expirado.', 401);
             // OR: return c.json({ status: 'fail', message: 'Não autorizado. Token inválido ou expirado.' }, 401);
         }
@@ -38,27 +39,28 @@ export const protect: MiddlewareHandler<AuthVariables> = async (c, next) => {
         const adapter = new PrismaD1(c.env.DB);
         const prisma = new PrismaClient({ adapter });
 
-        // 3. (Optional) Check if user still exists
-        const currentUser = await prisma.user.findUnique({
-            where: { id: decoded.userId },
-            select: { id: true }, // Minimal selection
-        });
-
-        if (!currentUser) {
-            throw new AppError('Não autorizado. Usuário não encontrado.', 401);
-            // OR: return c.json({ status: 'fail', message: 'Não autorizado. Usuário não encontrado.' }, 401);
+        // 3. Check the session is still active (logout, revocation or password change end it).
+        // Sessions are deleted with the user, so this also covers deleted accounts.
+        const roleId = await getActiveSessionRoleId(prisma, decoded.sessionId, decoded.userId);
+        if (!roleId) {
+            throw new AppError('Não autorizado. Sessão encerrada ou expirada.', 401);
         }
 
         // 4. Set user information on context variables
         c.set('user', {
             id: decoded.userId,
-            roleId: decoded.roleId,
+            roleId, // Role atual do banco (o do token pode estar desatualizado após /admin/users/:userId/role)
+            sessionId: decoded.sessionId,
+            // A versão do token só vale para o role em que ele foi emitido
+            permissionsVersion: roleId === decoded.roleId ? decoded.permissionsVersion : undefined,
         });
 
         // Proceed to the next middleware/handler
         await next();
 
     } catch (error: any) {
+        // 401s raised above (invalid token, ended session) must not become 500s
+        if (error instanceof AppError) throw error;
         // Handle JWT errors specifically if verifyToken throws them
         if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
             throw new AppError(`Não autorizado. ${error.message}`, 401);
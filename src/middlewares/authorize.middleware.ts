@@ -1,23 +1,22 @@
 // src/middlewares/authorize.middleware.ts
 import { MiddlewareHandler } from 'hono';
 import AppError from '../utils/AppError';
-import { AuthVariables } from 'types';
+import { AuthVariables, Bindings } from 'types';
+import { Context } from 'hono';
 import { PrismaClient } from '@prisma/client';
 import { PrismaD1 } from '@prisma/adapter-d1';
+import permissions from '../utils/permissions';
+import { evaluateResourceAccess, getPolicyParam, PolicyResource, ResourceAccess, ResourceAccessOptions, ResourceRecord } from '../services/policy.service';
+import { CachedRolePermissions, getCachedRolePermissions, getPermissionCacheStore } from '../services/permissionCache.service';
 
-// Cache (Keep simple in-memory cache logic or replace with Redis later)
-const rolePermissionsCache = new Map<string, { permissions: Set<string>, timestamp: number }>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-export async function getPermissionsForRole(roleId: string, prisma: PrismaClient): Promise<Set<string>> {
-    // const cachedEntry = rolePermissionsCache.get(roleId);
-    // if (cachedEntry && (Date.now() - cachedEntry.timestamp < CACHE_TTL)) {
-    //     return cachedEntry.permissions;
-    // }
-
+/**
+ * Lê as permissões do role direto do banco (sem cache), com a versão atual delas.
+ */
+async function loadRolePermissions(roleId: string, prisma: PrismaClient): Promise<CachedRolePermissions | null> {
     const roleWithPermissions = await prisma.role.findUnique({
         where: { id: roleId },
-        include: {
+        select: {
+            permissionsVersion: true,
             permissions: {
                 include: {
                     permission: { select: { name: true } }
@@ -27,19 +26,63 @@ export async function getPermissionsForRole(roleId: string, prisma: PrismaClient
     });
 
     if (!roleWithPermissions) {
-        return new Set();
+        return null;
+    }
+
+    return {
+        version: roleWithPermissions.permissionsVersion,
+        permissions: roleWithPermissions.permissions.map(rp => rp.permission.name),
+    };
+}
+
+/**
+ * Permissões de um role lidas do banco. Para o usuário da requisição prefira getUserPermissions (cache).
+ */
+export async function getPermissionsForRole(roleId: string, prisma: PrismaClient): Promise<Set<string>> {
+    const loaded = await loadRolePermissions(roleId, prisma);
+    return new Set(loaded?.permissions ?? []);
+}
+
+/**
+ * Permissões do usuário logado (use AFTER 'protect'), pelo cache de permissões do role.
+ * Só abre conexão com o banco quando o cache não tem a versão do access token.
+ */
+export async function getUserPermissions(c: Context): Promise<Set<string>> {
+    const user = c.get('user');
+    if (!user || !user.roleId) {
+        throw new AppError('Não autorizado (usuário ou role não identificado).', 401);
     }
 
-    const permissionsSet = new Set(
-        roleWithPermissions.permissions.map(rp => rp.permission.name)
-    );
+    return getCachedRolePermissions(getPermissionCacheStore(c.env), user.roleId, user.permissionsVersion, () => {
+        const adapter = new PrismaD1(c.env.DB);
+        return loadRolePermissions(user.roleId, new PrismaClient({ adapter }));
+    });
+}
+
+/**
+ * Invalida as permissões em cache de um role (ou de todos, sem roleId). Chamar sempre que
+ * roles/permissões mudarem (ex: rotas /admin): a nova versão vale para os tokens emitidos
+ * daqui em diante e a exclusão da entrada, para os já emitidos.
+ */
+export async function invalidateRolePermissionsCache(env: Bindings, prisma: PrismaClient, roleId?: string): Promise<void> {
+    await prisma.role.updateMany({
+        ...(roleId && { where: { id: roleId } }),
+        data: { permissionsVersion: { increment: 1 } },
+    });
 
-    // Update cache
-    rolePermissionsCache.set(roleId, { permissions: permissionsSet, timestamp: Date.now() });
+    const store = getPermissionCacheStore(env);
+    if (roleId) await store.delete(roleId);
+    else await store.clear();
+}
 
-    // Optional: Clean up old cache entries periodically (not shown here)
+async function assertAdminTwoFactor(prisma: PrismaClient, roleId: string, sessionId: string): Promise<void> {
+    const role = await prisma.role.findUnique({ where: { id: roleId }, select: { requiresTwoFactor: true } });
+    if (!role?.requiresTwoFactor) return;
 
-    return permissionsSet;
+    const session = await prisma.userSession.findUnique({ where: { id: sessionId }, select: { twoFactorVerified: true } });
+    if (!session?.twoFactorVerified) {
+        throw new AppError('Autenticação em dois fatores obrigatória para ações administrativas.', 403);
+    }
 }
 
 /**
@@ -66,10 +109,7 @@ export const authorize = (requiredPermissions: string[]): MiddlewareHandler<Auth
         const userRoleId = user.roleId;
 
         try {
-            const adapter = new PrismaD1(c.env.DB);
-            const prisma = new PrismaClient({ adapter });
-
-            const userPermissions = await getPermissionsForRole(userRoleId, prisma);
+            const userPermissions = await getUserPermissions(c);
             const hasAllPermissions = requiredPermissions.every(rp => userPermissions.has(rp));
 
             if (!hasAllPermissions) {
@@ -79,6 +119,12 @@ export const authorize = (requiredPermissions: string[]): MiddlewareHandler<Auth
                 // OR: return c.json({ status: 'fail', message: 'Proibido. Permissões insuficientes.' }, 403);
             }
 
+            // Roles marcados com requiresTwoFactor só usam permissões admin:* em sessões com 2FA verificado
+            if (requiredPermissions.some(rp => rp.startsWith('admin:'))) {
+                const adapter = new PrismaD1(c.env.DB);
+                await assertAdminTwoFactor(new PrismaClient({ adapter }), userRoleId, user.sessionId);
+            }
+
             // Permissions grant access
             await next();
 
@@ -92,4 +138,112 @@ export const authorize = (requiredPermissions: string[]): MiddlewareHandler<Auth
             // OR: return c.json({ status: 'error', message: 'Erro interno ao verificar permissões.' }, 500);
         }
     };
-};
\ No newline at end of file
+};
+
+/**
+ * Hono Middleware that blocks community actions (proposals, votes) for users whose email
+ * is not verified, unless their role has the community "unverified" permission. Use AFTER 'protect'.
+ */
+export const requireVerifiedEmail = (): MiddlewareHandler<AuthVariables> => {
+    return async (c, next) => {
+        const user = c.get('user');
+        if (!user || !user.roleId) {
+            throw new AppError('Não autorizado (usuário ou role não identificado).', 401);
+        }
+
+        try {
+            const adapter = new PrismaD1(c.env.DB);
+            const prisma = new PrismaClient({ adapter });
+
+            const currentUser = await prisma.user.findUnique({ where: { id: user.id }, select: { emailVerifiedAt: true } });
+            if (!currentUser?.emailVerifiedAt) {
+                const userPermissions = await getUserPermissions(c);
+                if (!userPermissions.has(permissions.community.unverified)) {
+                    throw new AppError('Confirme seu email para participar da comunidade.', 403);
+                }
+            }
+
+            await next();
+
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            console.error('Erro no middleware de verificação de email:', error);
+            throw new AppError('Erro interno ao verificar email.', 500);
+        }
+    };
+};
+
+/**
+ * Checks access to ONE resource (see services/policy.service): the own-scoped `permission`
+ * covers the user's data, its ":any" variant covers anyone's. Use directly in handlers when the
+ * ID comes from the body or query; routes with the ID in the path use authorizeResource.
+ */
+export async function assertResourceAccess<R extends PolicyResource>(
+    c: Context,
+    resource: R,
+    permission: string,
+    id: string,
+    options: ResourceAccessOptions = {}
+): Promise<ResourceAccess<R>> {
+    const user = c.get('user');
+    if (!user || !user.roleId) {
+        throw new AppError('Não autorizado (usuário ou role não identificado).', 401);
+    }
+
+    const adapter = new PrismaD1(c.env.DB);
+    const prisma = new PrismaClient({ adapter });
+
+    const userPermissions = await getUserPermissions(c);
+    const access = await evaluateResourceAccess(prisma, user.id, userPermissions, resource, permission, id, options);
+    if (access.scope === 'any') {
+        // Agir sobre dados de outros usuários é ação administrativa
+        await assertAdminTwoFactor(prisma, user.roleId, user.sessionId);
+    }
+    return access;
+}
+
+/**
+ * Hono Middleware factory that loads the resource identified by the route param
+ * (default: the resource's own, e.g. :vehicleId) and evaluates own/any scopes for
+ * `permission`; `shareRole` overrides the minimum vehicle share role. Use AFTER 'protect';
+ * read the record with getAuthorizedResource.
+ * @example vehicleRoutesController.get('/:vehicleId', authorizeResource('vehicle', permissions.vehicle.read), ...)
+ */
+export const authorizeResource = (
+    resource: PolicyResource,
+    permission: string,
+    { param, ...options }: { param?: string } & ResourceAccessOptions = {}
+): MiddlewareHandler<AuthVariables> => {
+    return async (c, next) => {
+        const id = c.req.param(param ?? getPolicyParam(resource));
+        if (!id) {
+            console.error(`authorizeResource('${resource}') sem o parâmetro de rota ${param ?? getPolicyParam(resource)}.`);
+            throw new AppError('Erro interno ao verificar permissões.', 500);
+        }
+
+        try {
+            c.set('resourceAccess', await assertResourceAccess(c, resource, permission, id, options));
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            console.error('Erro no middleware de autorização por recurso:', error);
+            throw new AppError('Erro interno ao verificar permissões.', 500);
+        }
+
+        await next();
+    };
+};
+
+/**
+ * Record loaded (and authorized) by authorizeResource for this request.
+ */
+export function getAuthorizedResource<R extends PolicyResource>(c: Context, resource: R): ResourceRecord<R> {
+    const access = c.get('resourceAccess');
+    if (!access || access.resource !== resource) {
+        throw new AppError('Erro interno ao verificar permissões.', 500);
+    }
+    return access.record as ResourceRecord<R>;
+}
@@ -0,0 +1,67 @@
+// src/middlewares/rateLimit.middleware.ts
+import { Context, MiddlewareHandler } from 'hono';
+import AppError from '../utils/AppError';
+import { AuthVariables } from 'types';
+import { getClientIp } from '../utils/request.util';
+import { getRateLimitStore, RateLimitCounter } from '../services/rateLimit.service';
+
+export type RateLimitRule = {
+    name: string; // Prefixo da chave (ex: 'login:ip')
+    limit: number; // Requisições permitidas por janela
+    windowSeconds: number;
+    // Chave do cliente (IP, email...); null ignora a regra nesta requisição
+    key: (c: Context) => string | null | Promise<string | null>;
+};
+
+// --- Chaves comuns ---
+
+export const byIp = (c: Context): string | null => getClientIp(c);
+
+// Campo do corpo JSON (o Hono guarda o corpo já lido, então funciona antes ou depois do zValidator)
+export const byBodyField = (field: string) => async (c: Context): Promise<string | null> => {
+    const body = await c.req.json().catch(() => null);
+    const value = body?.[field];
+    return typeof value === 'string' && value.length > 0 ? value.trim().toLowerCase() : null;
+};
+
+export const byUser = (c: Context): string | null => c.get('user')?.id ?? null;
+
+/**
+ * Hono Middleware factory que limita requisições por janela fixa em uma ou mais regras
+ * (ex: por IP e por email). Envia os cabeçalhos RateLimit-* da regra mais próxima do limite
+ * e, ao exceder, responde 429 com Retry-After. Funciona em qualquer router.
+ */
+export const rateLimit = (rules: RateLimitRule | RateLimitRule[]): MiddlewareHandler<AuthVariables> => {
+    const ruleList = Array.isArray(rules) ? rules : [rules];
+
+    return async (c, next) => {
+        const store = getRateLimitStore(c.env);
+        const now = Date.now();
+
+        let tightest: { rule: RateLimitRule; counter: RateLimitCounter } | null = null;
+        for (const rule of ruleList) {
+            const key = await rule.key(c);
+            if (!key) continue;
+            const counter = await store.increment(`rl:${rule.name}:${key}`, rule.windowSeconds);
+            const remaining = rule.limit - counter.count;
+            if (!tightest || remaining < tightest.rule.limit - tightest.counter.count) {
+                tightest = { rule, counter };
+            }
+        }
+
+        if (tightest) {
+            const { rule, counter } = tightest;
+            const resetSeconds = Math.max(0, Math.ceil((counter.resetAt - now) / 1000));
+            c.header('RateLimit-Limit', String(rule.limit));
+            c.header('RateLimit-Remaining', String(Math.max(0, rule.limit - counter.count)));
+            c.header('RateLimit-Reset', String(resetSeconds));
+
+            if (counter.count > rule.limit) {
+                c.header('Retry-After', String(resetSeconds));
+                throw new AppError(`Muitas requisições. Tente novamente em ${resetSeconds} segundo(s).`, 429);
+            }
+        }
+
+        await next();
+    };
+};
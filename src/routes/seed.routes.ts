@@ -2,6 +2,7 @@ import { PrismaD1 } from "@prisma/adapter-d1";
 import { PrismaClient } from "@prisma/client";
 import { AppEnv, Hono } from "hono";
 import { main } from "seed";
+import { invalidateRolePermissionsCache } from "middlewares/authorize.middleware";
 import AppError from "utils/AppError";
 
 const seedRoutes = new Hono<AppEnv>();
@@ -11,6 +12,8 @@ seedRoutes.post("/", async (c) => {
         const adapter = new PrismaD1(c.env.DB);
         const prisma = new PrismaClient({ adapter });
         await main(prisma);
+        // A seed regrava as permissões dos roles
+        await invalidateRolePermissionsCache(c.env, prisma);
 
         return c.json({ message: "seed finalizada!" });
     } catch (error) {
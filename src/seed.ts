@@ -2,6 +2,8 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import PERMISSION from './utils/permissions'
 import ROLES from './utils/roles'
+import { normalizeUserIdentifiers } from './services/userIdentifier.service'
+import { EMAIL_VERIFICATION_CUTOVER, markLegacyEmailsVerified } from './services/emailVerification.service'
 
 // Defina suas permissões aqui (use a convenção <recurso>:<ação>:<escopo?>)
 const permissions: Prisma.PermissionCreateInput[] = [
@@ -24,6 +26,7 @@ const permissions: Prisma.PermissionCreateInput[] = [
   { name: PERMISSION.vehicle.read, description: 'Ler dados de veículos próprios ou autorizados' },
   { name: PERMISSION.vehicle.update, description: 'Atualizar dados de veículos próprios ou autorizados' },
   { name: PERMISSION.vehicle.delete, description: 'Deletar veículos próprios' },
+  { name: PERMISSION.vehicle.transfer, description: 'Transferir veículos próprios para outro usuário' },
 
   // Note permissions
   { name: PERMISSION.note.create, description: 'Criar notas ou lembretes para veículos autorizados' },
@@ -36,6 +39,8 @@ const permissions: Prisma.PermissionCreateInput[] = [
   { name: PERMISSION.station.create, description: 'Propor a criação de um posto' },
   { name: PERMISSION.station.update, description: 'Propor a atualização de um posto' },
 
+  { name: PERMISSION.community.unverified, description: 'Participar da comunidade (propostas e votos) sem email verificado' },
+
   // Price
   { name: PERMISSION.price.update, description: 'Propor a atualização de um preço' },
   { name: PERMISSION.price.read, description: 'Ler preços de combustíveis' },
@@ -54,6 +59,7 @@ const permissions: Prisma.PermissionCreateInput[] = [
   // Premium Features 
   { name: PERMISSION.feature.advanced_report, description: 'Acessar relatórios avançados' },
   { name: PERMISSION.feature.price_comparison, description: 'Acessar comparação de preços de combustiveis' },
+  { name: PERMISSION.feature.two_factor, description: 'Ativar autenticação em dois fatores (TOTP)' },
   { name: PERMISSION.feature.authorize, description: 'Autorizar outro usuário a gerenciar veículo próprio' },
 
   // Admin Permissions
@@ -68,6 +74,25 @@ const permissions: Prisma.PermissionCreateInput[] = [
   { name: PERMISSION.admin.create_any, description: 'Criar qualquer coisa, serve para gerenciar dados que são apenas de leitura para usuários' },
   { name: PERMISSION.admin.update_any, description: 'Atualizar qualquer coisa, serve para gerenciar dados que são apenas de leitura para usuários' },
   { name: PERMISSION.admin.delete_any, description: 'Deletar qualquer coisa, serve para gerenciar dados que são apenas de leitura para usuários' },
+
+  // Escopo ":any" - agir sobre dados de qualquer usuário (suporte/administração)
+  { name: PERMISSION.vehicle.read_any, description: 'Ler dados de qualquer veículo' },
+  { name: PERMISSION.vehicle.update_any, description: 'Atualizar dados de qualquer veículo' },
+  { name: PERMISSION.vehicle.delete_any, description: 'Deletar qualquer veículo' },
+  { name: PERMISSION.vehicle.authorize_any, description: 'Gerenciar autorizações de qualquer veículo' },
+  { name: PERMISSION.vehicle.transfer_any, description: 'Transferir qualquer veículo' },
+  { name: PERMISSION.note.create_any, description: 'Criar notas/lembretes em qualquer veículo' },
+  { name: PERMISSION.note.read_any, description: 'Ler notas/lembretes de qualquer veículo' },
+  { name: PERMISSION.note.update_any, description: 'Atualizar notas/lembretes de qualquer veículo' },
+  { name: PERMISSION.note.delete_any, description: 'Deletar notas/lembretes de qualquer veículo' },
+  { name: PERMISSION.todo.manage_any, description: 'Gerenciar tarefas (To-Do) de qualquer nota/lembrete' },
+  { name: PERMISSION.expense.create_any, description: 'Adicionar gastos a qualquer veículo' },
+  { name: PERMISSION.expense.read_any, description: 'Ler gastos de qualquer veículo' },
+  { name: PERMISSION.expense.update_any, description: 'Atualizar gastos de qualquer veículo' },
+  { name: PERMISSION.expense.delete_any, description: 'Deletar gastos de qualquer veículo' },
+  { name: PERMISSION.budget.read_any, description: 'Ler orçamentos de qualquer usuário' },
+  { name: PERMISSION.budget.update_any, description: 'Atualizar orçamentos de qualquer usuário' },
+  { name: PERMISSION.budget.delete_any, description: 'Deletar orçamentos de qualquer usuário' },
 ];
 
 // Defina seus Roles aqui
@@ -138,6 +163,7 @@ export async function main(prisma: PrismaClient) {
     PERMISSION.vehicle.read,
     PERMISSION.vehicle.update,
     PERMISSION.vehicle.delete,
+    PERMISSION.vehicle.transfer,
 
     // price
     PERMISSION.price.read,
@@ -173,6 +199,7 @@ export async function main(prisma: PrismaClient) {
     PERMISSION.feature.advanced_report,
     PERMISSION.feature.authorize,
     PERMISSION.feature.price_comparison,
+    PERMISSION.feature.two_factor,
   ];
 
   for (const permName of premiumUserPermissions) {
@@ -249,18 +276,18 @@ export async function main(prisma: PrismaClient) {
   // --- Adicione também algumas categorias iniciais no seed ---
   console.log('\nSeeding vehicle categories...');
   const vehicleCategories = [
-    { name: 'Carro', iconName: 'car' },
-    { name: 'Moto', iconName: 'motorcycle' },
-    { name: 'Caminhonete / SUV', iconName: 'truck' },
-    { name: 'Van / Utilitário', iconName: 'bus' },
-    { name: 'Caminhão', iconName: 'truck' },
-    { name: 'Ônibus', iconName: 'bus' },
+    { name: 'Carro', iconName: 'car', defaultTankCapacity: 50 },
+    { name: 'Moto', iconName: 'motorcycle', defaultTankCapacity: 15 },
+    { name: 'Caminhonete / SUV', iconName: 'truck', defaultTankCapacity: 70 },
+    { name: 'Van / Utilitário', iconName: 'bus', defaultTankCapacity: 80 },
+    { name: 'Caminhão', iconName: 'truck', defaultTankCapacity: 300 },
+    { name: 'Ônibus', iconName: 'bus', defaultTankCapacity: 300 },
   ];
 
   for (const cat of vehicleCategories) {
     await prisma.vehicleCategory.upsert({
       where: { name: cat.name },
-      update: { iconName: cat.iconName },
+      update: { iconName: cat.iconName, defaultTankCapacity: cat.defaultTankCapacity },
       create: cat,
     });
     console.log(`Created/Updated vehicle category: ${cat.name}`);
@@ -283,5 +310,20 @@ export async function main(prisma: PrismaClient) {
     console.log(`Created/Updated vehicle category: ${nt.name}`);
   }
 
+  // Usuários anteriores à normalização de email/username (login case-insensitive)
+  console.log('\nNormalizing user emails and usernames...');
+  const { updated, conflicts } = await normalizeUserIdentifiers(prisma);
+  console.log(`Normalized ${updated} user(s).`);
+  for (const conflict of conflicts) {
+    console.warn(`Conflict normalizing ${conflict.field} of user ${conflict.userId}: "${conflict.value}" already in use`);
+  }
+
+  // Usuários anteriores à verificação de email (senão requireVerifiedEmail os bloqueia)
+  console.log('\nMarking emails of pre-verification users as verified...');
+  const cutover = process.env.EMAIL_VERIFICATION_CUTOVER ? new Date(process.env.EMAIL_VERIFICATION_CUTOVER) : EMAIL_VERIFICATION_CUTOVER;
+  if (Number.isNaN(cutover.getTime())) throw new Error(`EMAIL_VERIFICATION_CUTOVER inválido: ${process.env.EMAIL_VERIFICATION_CUTOVER}`);
+  const verified = await markLegacyEmailsVerified(prisma, cutover);
+  console.log(`Marked ${verified} user(s) as verified (created before ${cutover.toISOString()}).`);
+
   console.log(`Seeding finished.`);
 }
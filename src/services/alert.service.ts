@@ -0,0 +1,133 @@
+// src/services/alert.service.ts
+// Alertas de combustível baixo: geração após viagens, resolução após abastecimentos
+// e recomendação de postos próximos com o menor preço verificado.
+import { Prisma, PrismaClient, VehicleAlert, VehicleAlertStatus, VehicleAlertType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Coordinates } from 'utils/geo.util';
+import { clampFuelLevel, estimateRangeKm, getEffectiveTankCapacity, getFillLiters, tankCapacitySelect, VehicleWithCapacity } from './fuelLevel.service';
+import { compareNearbyStationPrices, StationPriceComparison } from './station.service';
+
+// Abastecimentos recentes considerados para descobrir o combustível habitual
+const USUAL_FUEL_TYPE_SAMPLE = 10;
+
+// Postos recomendados por alerta
+export const MAX_RECOMMENDED_STATIONS = 5;
+export const DEFAULT_RECOMMENDATION_RADIUS_KM = 10;
+
+// Alertas de um episódio de combustível baixo que ainda não terminou (sem abastecimento)
+export const OPEN_ALERT_STATUSES: VehicleAlertStatus[] = [
+    VehicleAlertStatus.ACTIVE,
+    VehicleAlertStatus.ACKNOWLEDGED,
+    VehicleAlertStatus.DISMISSED,
+];
+
+const lowFuelVehicleSelect = {
+    id: true, appFuelTank: true, kmlCity: true, kmlRoad: true, lowFuelRangeKm: true, ...tankCapacitySelect,
+} satisfies Prisma.VehicleSelect;
+
+type LowFuelVehicle = Awaited<ReturnType<typeof loadLowFuelVehicle>>;
+
+const loadLowFuelVehicle = (prisma: PrismaClient, vehicleId: string) =>
+    prisma.vehicle.findUnique({ where: { id: vehicleId }, select: lowFuelVehicleSelect });
+
+/**
+ * Autonomia conservadora: a menor entre cidade e estrada (null se o veículo não tem consumo cadastrado).
+ */
+function getConservativeRangeKm(vehicle: NonNullable<LowFuelVehicle>): { level: Decimal; rangeKm: number | null } {
+    const level = clampFuelLevel(vehicle.appFuelTank, getEffectiveTankCapacity(vehicle));
+    const { city, road } = estimateRangeKm(level, vehicle);
+    const ranges = [city, road].filter((range): range is number => range !== null);
+    return { level, rangeKm: ranges.length > 0 ? Math.min(...ranges) : null };
+}
+
+/**
+ * Combustível mais abastecido entre os abastecimentos recentes (empate: o mais recente).
+ */
+export async function getUsualFuelTypeId(prisma: PrismaClient, vehicleId: string): Promise<string | null> {
+    const fuelings = await prisma.fueling.findMany({
+        where: { vehicleId, deletedAt: null },
+        orderBy: { timestamp: 'desc' },
+        take: USUAL_FUEL_TYPE_SAMPLE,
+        select: { fuelTypeId: true },
+    });
+    const counts = new Map<string, number>();
+    for (const { fuelTypeId } of fuelings) counts.set(fuelTypeId, (counts.get(fuelTypeId) ?? 0) + 1);
+
+    let usual: string | null = null;
+    for (const [fuelTypeId, count] of counts) { // Map mantém a ordem de inserção (mais recente primeiro)
+        if (usual === null || count > counts.get(usual)!) usual = fuelTypeId;
+    }
+    return usual;
+}
+
+/**
+ * Avalia a autonomia do veículo após uma viagem (nova ou editada). Abaixo do limite, cria o alerta ou,
+ * se o episódio já tem um alerta aberto, atualiza-o (mantendo o status escolhido pelo usuário).
+ * Retorna null quando não há alerta a gerar.
+ */
+export async function evaluateLowFuelAlert(
+    prisma: PrismaClient,
+    vehicleId: string,
+    trigger: { tripId: string; location: Coordinates | null }
+): Promise<VehicleAlert | null> {
+    const vehicle = await loadLowFuelVehicle(prisma, vehicleId);
+    if (!vehicle || vehicle.lowFuelRangeKm === null) return null;
+
+    const { level, rangeKm } = getConservativeRangeKm(vehicle);
+    if (rangeKm === null || rangeKm >= vehicle.lowFuelRangeKm) return null;
+
+    const data = {
+        fuelLevel: level,
+        estimatedRangeKm: rangeKm,
+        thresholdKm: vehicle.lowFuelRangeKm,
+        tripId: trigger.tripId,
+        fuelTypeId: await getUsualFuelTypeId(prisma, vehicleId),
+        latitude: trigger.location?.latitude ?? null,
+        longitude: trigger.location?.longitude ?? null,
+    };
+
+    const openAlert = await prisma.vehicleAlert.findFirst({
+        where: { vehicleId, type: VehicleAlertType.LOW_FUEL, status: { in: OPEN_ALERT_STATUSES } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+    });
+    if (openAlert) {
+        return prisma.vehicleAlert.update({ where: { id: openAlert.id }, data });
+    }
+    return prisma.vehicleAlert.create({ data: { ...data, type: VehicleAlertType.LOW_FUEL, vehicleId } });
+}
+
+/**
+ * Encerra os alertas abertos de combustível baixo quando a autonomia voltou acima do limite
+ * (ou o alerta foi desativado no veículo). Chamado após abastecimentos e alterações de viagens.
+ */
+export async function resolveLowFuelAlerts(prisma: PrismaClient, vehicleId: string): Promise<number> {
+    const vehicle = await loadLowFuelVehicle(prisma, vehicleId);
+    if (!vehicle) return 0;
+
+    if (vehicle.lowFuelRangeKm !== null) {
+        const { rangeKm } = getConservativeRangeKm(vehicle);
+        if (rangeKm === null || rangeKm < vehicle.lowFuelRangeKm) return 0;
+    }
+
+    const { count } = await prisma.vehicleAlert.updateMany({
+        where: { vehicleId, type: VehicleAlertType.LOW_FUEL, status: { in: OPEN_ALERT_STATUSES } },
+        data: { status: VehicleAlertStatus.RESOLVED, resolvedAt: new Date() },
+    });
+    return count;
+}
+
+/**
+ * Postos ATIVOS próximos com o menor preço verificado para o combustível habitual,
+ * com o custo estimado para completar o tanque (quando a capacidade é conhecida).
+ */
+export async function getRefuelRecommendations(
+    prisma: PrismaClient,
+    vehicle: { appFuelTank: Decimal } & VehicleWithCapacity,
+    fuelTypeId: string,
+    location: Coordinates,
+    radiusKm = DEFAULT_RECOMMENDATION_RADIUS_KM
+): Promise<StationPriceComparison[]> {
+    const stations = await compareNearbyStationPrices(prisma, location, radiusKm * 1000, fuelTypeId, getFillLiters(vehicle));
+    return stations.slice(0, MAX_RECOMMENDED_STATIONS);
+}
@@ -0,0 +1,240 @@
+// src/services/efficiency.service.ts
+// Consumo real (km/L) aprendido do histórico de abastecimentos e viagens do veículo.
+import { PrismaClient } from '@prisma/client';
+import { getRoadShare } from './trip.service';
+
+// Intervalos com consumo fora desta faixa são considerados erro de registro e ignorados
+const MIN_PLAUSIBLE_KM_PER_LITER = 2;
+const MAX_PLAUSIBLE_KM_PER_LITER = 60;
+
+// Parcela de estrada que define um intervalo predominantemente urbano / de estrada
+const CITY_MAX_ROAD_SHARE = 0.3;
+const ROAD_MIN_ROAD_SHARE = 0.7;
+
+// Intervalos mínimos de cada tipo antes de atualizar kmlCity/kmlRoad automaticamente
+const MIN_INTERVALS_FOR_UPDATE = 2;
+
+// Variação (fração) entre as janelas a partir da qual a tendência deixa de ser estável
+const TREND_THRESHOLD = 0.05;
+
+export const DEFAULT_EFFICIENCY_WINDOW = 3;
+
+export type EfficiencyTrend = 'IMPROVING' | 'WORSENING' | 'STABLE' | 'INSUFFICIENT_DATA';
+
+export type EfficiencyInterval = {
+    fromFuelingId: string;
+    toFuelingId: string;
+    start: Date;
+    end: Date;
+    fuelTypeId: string; // Combustível abastecido no início do intervalo (o que foi consumido)
+    distanceKm: number;
+    distanceSource: 'ODOMETER' | 'TRIPS'; // Diferença de hodômetro quando ambos os abastecimentos têm leitura
+    liters: number;
+    partialFillings: number; // Abastecimentos parciais somados ao intervalo
+    kmPerLiter: number;
+    roadShare: number; // Fração da distância em estrada (0 = cidade, 1 = estrada)
+};
+
+export type FuelTypeEfficiency = {
+    fuelTypeId: string;
+    fuelTypeName: string;
+    intervalCount: number;
+    averageKmPerLiter: number; // Distância total / litros totais
+    rollingAverageKmPerLiter: number; // Média das últimas `window` medições
+    previousRollingAverageKmPerLiter: number | null;
+    trend: EfficiencyTrend;
+    cityKmPerLiter: number | null;
+    roadKmPerLiter: number | null;
+};
+
+export type VehicleEfficiencyReport = {
+    vehicleId: string;
+    window: number;
+    manual: { kmlCity: number | null; kmlRoad: number | null }; // Valores cadastrados no veículo
+    learned: { fuelTypeId: string | null; kmlCity: number | null; kmlRoad: number | null }; // Usados na atualização automática
+    fuelTypes: FuelTypeEfficiency[];
+    intervals: EfficiencyInterval[];
+};
+
+const round = (value: number, places = 2): number => Math.round(value * 10 ** places) / 10 ** places;
+
+// Consumo agregado (distância total / litros totais), ou null se não houver intervalos suficientes
+const aggregateKmPerLiter = (intervals: EfficiencyInterval[], minCount = 1): number | null => {
+    if (intervals.length < minCount) return null;
+    const liters = intervals.reduce((sum, i) => sum + i.liters, 0);
+    const distance = intervals.reduce((sum, i) => sum + i.distanceKm, 0);
+    return liters > 0 ? round(distance / liters) : null;
+};
+
+const getTrend = (current: number | null, previous: number | null): EfficiencyTrend => {
+    if (current === null || previous === null) return 'INSUFFICIENT_DATA';
+    const change = (current - previous) / previous;
+    if (change > TREND_THRESHOLD) return 'IMPROVING';
+    if (change < -TREND_THRESHOLD) return 'WORSENING';
+    return 'STABLE';
+};
+
+/**
+ * Mede o consumo entre abastecimentos de tanque cheio consecutivos: os litros abastecidos
+ * depois do primeiro (parciais + o que completou o tanque) repõem o que foi gasto na distância
+ * percorrida. A distância vem do hodômetro dos dois abastecimentos ou, na falta dele,
+ * das viagens iniciadas no intervalo.
+ */
+export async function computeEfficiencyIntervals(prisma: PrismaClient, vehicleId: string): Promise<EfficiencyInterval[]> {
+    const [fuelings, trips] = await Promise.all([
+        prisma.fueling.findMany({
+            where: { vehicleId, deletedAt: null },
+            orderBy: { timestamp: 'asc' },
+            select: { id: true, timestamp: true, cost: true, pricePerLiter: true, volume: true, odometer: true, isFullTank: true, fuelTypeId: true },
+        }),
+        prisma.trip.findMany({
+            where: { vehicleId },
+            orderBy: { startTime: 'asc' },
+            select: { startTime: true, endTime: true, distance: true },
+        }),
+    ]);
+
+    // Registros antigos não têm volume: usa custo / preço
+    const litersOf = (fueling: typeof fuelings[number]): number => {
+        if (fueling.volume) return fueling.volume.toNumber();
+        return fueling.pricePerLiter.isPositive() ? fueling.cost.dividedBy(fueling.pricePerLiter).toNumber() : 0;
+    };
+
+    const intervals: EfficiencyInterval[] = [];
+    let from: typeof fuelings[number] | null = null; // Último tanque cheio
+    let liters = 0;
+    let partialFillings = 0;
+
+    for (const to of fuelings) {
+        if (!from) {
+            if (to.isFullTank) from = to; // Abastecimentos parciais antes do primeiro tanque cheio são ignorados
+            continue;
+        }
+        liters += litersOf(to);
+        if (!to.isFullTank) {
+            partialFillings++;
+            continue;
+        }
+
+        const start = from;
+        const intervalLiters = liters;
+        const intervalPartials = partialFillings;
+        from = to;
+        liters = 0;
+        partialFillings = 0;
+
+        let tripDistanceKm = 0;
+        let roadDistanceKm = 0;
+        for (const trip of trips) {
+            if (trip.startTime < start.timestamp || trip.startTime >= to.timestamp) continue;
+            const distance = trip.distance.toNumber();
+            const hours = (trip.endTime.getTime() - trip.startTime.getTime()) / 36e5;
+            tripDistanceKm += distance;
+            roadDistanceKm += distance * (hours > 0 ? getRoadShare(distance / hours) : 0.5);
+        }
+
+        const odometerDistanceKm = start.odometer && to.odometer ? to.odometer.minus(start.odometer).toNumber() : 0;
+        const distanceSource = odometerDistanceKm > 0 ? 'ODOMETER' : 'TRIPS';
+        const distanceKm = odometerDistanceKm > 0 ? odometerDistanceKm : tripDistanceKm;
+        // Sem viagens no intervalo não há como separar cidade/estrada: fica como misto
+        const roadShare = tripDistanceKm > 0 ? roadDistanceKm / tripDistanceKm : 0.5;
+
+        if (intervalLiters <= 0 || distanceKm <= 0) continue;
+        const kmPerLiter = distanceKm / intervalLiters;
+        if (kmPerLiter < MIN_PLAUSIBLE_KM_PER_LITER || kmPerLiter > MAX_PLAUSIBLE_KM_PER_LITER) continue;
+
+        intervals.push({
+            fromFuelingId: start.id,
+            toFuelingId: to.id,
+            start: start.timestamp,
+            end: to.timestamp,
+            fuelTypeId: start.fuelTypeId,
+            distanceKm: round(distanceKm),
+            distanceSource,
+            liters: round(intervalLiters, 3),
+            partialFillings: intervalPartials,
+            kmPerLiter: round(kmPerLiter),
+            roadShare: round(roadShare),
+        });
+    }
+    return intervals;
+}
+
+/**
+ * Relatório de consumo real do veículo: médias, média móvel e tendência por combustível,
+ * e os valores de cidade/estrada aprendidos para o combustível mais recente.
+ */
+export async function getVehicleEfficiencyReport(
+    prisma: PrismaClient,
+    vehicle: { id: string; kmlCity: number | null; kmlRoad: number | null },
+    window = DEFAULT_EFFICIENCY_WINDOW,
+    fuelTypeId?: string
+): Promise<VehicleEfficiencyReport> {
+    const allIntervals = await computeEfficiencyIntervals(prisma, vehicle.id);
+    const intervals = fuelTypeId ? allIntervals.filter(i => i.fuelTypeId === fuelTypeId) : allIntervals;
+
+    const fuelTypeIds = [...new Set(intervals.map(i => i.fuelTypeId))];
+    const fuelTypeNames = new Map(
+        (await prisma.fuelType.findMany({ where: { id: { in: fuelTypeIds } }, select: { id: true, name: true } }))
+            .map(ft => [ft.id, ft.name])
+    );
+
+    const fuelTypes: FuelTypeEfficiency[] = fuelTypeIds.map(id => {
+        const ofType = intervals.filter(i => i.fuelTypeId === id);
+        const recent = ofType.slice(-window);
+        const previous = ofType.slice(-2 * window, -window);
+        const rolling = aggregateKmPerLiter(recent)!;
+        const previousRolling = aggregateKmPerLiter(previous, window);
+        return {
+            fuelTypeId: id,
+            fuelTypeName: fuelTypeNames.get(id) ?? '',
+            intervalCount: ofType.length,
+            averageKmPerLiter: aggregateKmPerLiter(ofType)!,
+            rollingAverageKmPerLiter: rolling,
+            previousRollingAverageKmPerLiter: previousRolling,
+            trend: getTrend(ofType.length >= window ? rolling : null, previousRolling),
+            cityKmPerLiter: aggregateKmPerLiter(ofType.filter(i => i.roadShare <= CITY_MAX_ROAD_SHARE)),
+            roadKmPerLiter: aggregateKmPerLiter(ofType.filter(i => i.roadShare >= ROAD_MIN_ROAD_SHARE)),
+        };
+    });
+
+    // kmlCity/kmlRoad do veículo refletem o combustível usado por último
+    const latestFuelTypeId = allIntervals.length > 0 ? allIntervals[allIntervals.length - 1].fuelTypeId : null;
+    const ofLatest = allIntervals.filter(i => i.fuelTypeId === latestFuelTypeId);
+
+    return {
+        vehicleId: vehicle.id,
+        window,
+        manual: { kmlCity: vehicle.kmlCity, kmlRoad: vehicle.kmlRoad },
+        learned: {
+            fuelTypeId: latestFuelTypeId,
+            kmlCity: aggregateKmPerLiter(ofLatest.filter(i => i.roadShare <= CITY_MAX_ROAD_SHARE), MIN_INTERVALS_FOR_UPDATE),
+            kmlRoad: aggregateKmPerLiter(ofLatest.filter(i => i.roadShare >= ROAD_MIN_ROAD_SHARE), MIN_INTERVALS_FOR_UPDATE),
+        },
+        fuelTypes,
+        intervals,
+    };
+}
+
+/**
+ * Grava em kmlCity/kmlRoad os valores aprendidos (apenas os que têm medições suficientes).
+ */
+export async function applyLearnedEfficiency(
+    prisma: PrismaClient,
+    vehicleId: string
+): Promise<{ kmlCity: number | null; kmlRoad: number | null; updated: boolean }> {
+    const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId }, select: { id: true, kmlCity: true, kmlRoad: true } });
+    if (!vehicle) return { kmlCity: null, kmlRoad: null, updated: false };
+
+    const { learned } = await getVehicleEfficiencyReport(prisma, vehicle);
+    const data = {
+        ...(learned.kmlCity !== null && { kmlCity: learned.kmlCity }),
+        ...(learned.kmlRoad !== null && { kmlRoad: learned.kmlRoad }),
+    };
+    if (Object.keys(data).length === 0) {
+        return { kmlCity: vehicle.kmlCity, kmlRoad: vehicle.kmlRoad, updated: false };
+    }
+
+    const updated = await prisma.vehicle.update({ where: { id: vehicleId }, data, select: { kmlCity: true, kmlRoad: true } });
+    return { ...updated, updated: true };
+}
@@ -0,0 +1,94 @@
+// src/services/email.service.ts
+// Envio de emails com provedor configurável: console/arquivo local (dev e testes) ou HTTP (produção).
+
+export type EmailMessage = {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+};
+
+export interface EmailProvider {
+    send(message: EmailMessage): Promise<void>;
+}
+
+export type EmailEnv = {
+    EMAIL_PROVIDER?: string; // 'http' (padrão), 'console' ou 'file' (dev e testes)
+    EMAIL_FROM?: string;
+    EMAIL_FILE_PATH?: string; // Provedor 'file'
+    EMAIL_HTTP_URL?: string; // Provedor 'http': endpoint que recebe { from, to, subject, html, text }
+    EMAIL_HTTP_API_KEY?: string; // Enviada como Bearer token
+};
+
+const DEFAULT_FROM = 'Kontado <no-reply@kontado.app>';
+const DEFAULT_FILE_PATH = '.wrangler/emails.log';
+
+/**
+ * Apenas registra no log que o email seria enviado (desenvolvimento). O conteúdo não é logado,
+ * pois traz códigos de verificação e de redefinição de senha; para lê-lo, use o provedor 'file'.
+ */
+export class ConsoleEmailProvider implements EmailProvider {
+    constructor(private readonly from: string) { }
+
+    async send(message: EmailMessage): Promise<void> {
+        console.log(`[email] De: ${this.from} | Para: ${message.to} | Assunto: ${message.subject}`);
+    }
+}
+
+/**
+ * Acrescenta cada email (uma linha JSON) a um arquivo local, para inspeção em dev e testes.
+ * Depende do suporte a node:fs do runtime (wrangler dev com nodejs_compat).
+ */
+export class LocalFileEmailProvider implements EmailProvider {
+    constructor(private readonly from: string, private readonly filePath: string) { }
+
+    async send(message: EmailMessage): Promise<void> {
+        const { appendFile } = await import('node:fs/promises');
+        const entry = { from: this.from, ...message, sentAt: new Date().toISOString() };
+        await appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    }
+}
+
+/**
+ * Envia pela API HTTP de um serviço de email transacional (formato compatível com Resend).
+ */
+export class HttpEmailProvider implements EmailProvider {
+    constructor(private readonly from: string, private readonly url: string, private readonly apiKey?: string) { }
+
+    async send(message: EmailMessage): Promise<void> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+            },
+            body: JSON.stringify({ from: this.from, to: message.to, subject: message.subject, html: message.html, text: message.text }),
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`Falha ao enviar email (HTTP ${response.status}): ${detail.slice(0, 200)}`);
+        }
+    }
+}
+
+/**
+ * Escolhe o provedor a partir das variáveis de ambiente. Sem EMAIL_PROVIDER, usa o HTTP, que
+ * exige EMAIL_HTTP_URL: uma produção sem configuração falha em vez de não entregar os emails.
+ * Em dev, defina EMAIL_PROVIDER=console ou file (ex: no .dev.vars).
+ */
+export function getEmailProvider(env: EmailEnv): EmailProvider {
+    const from = env.EMAIL_FROM || DEFAULT_FROM;
+    switch (env.EMAIL_PROVIDER || 'http') {
+        case 'console':
+            return new ConsoleEmailProvider(from);
+        case 'file':
+            return new LocalFileEmailProvider(from, env.EMAIL_FILE_PATH || DEFAULT_FILE_PATH);
+        case 'http':
+            if (!env.EMAIL_HTTP_URL) {
+                throw new Error('EMAIL_HTTP_URL é obrigatório para o provedor HTTP. Configure-o ou defina EMAIL_PROVIDER (console/file) em dev.');
+            }
+            return new HttpEmailProvider(from, env.EMAIL_HTTP_URL, env.EMAIL_HTTP_API_KEY);
+        default:
+            throw new Error(`EMAIL_PROVIDER desconhecido: ${env.EMAIL_PROVIDER}`);
+    }
+}
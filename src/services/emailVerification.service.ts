@@ -0,0 +1,117 @@
+// src/services/emailVerification.service.ts
+// Verificação do email do cadastro por código (OTP), com reenvio limitado e limite de tentativas.
+import { PrismaClient } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { escapeHtml } from 'utils/html.util';
+import { generateOtp, hashOtp, otpMatches } from 'utils/otp.util';
+import { EmailProvider } from './email.service';
+
+const VERIFICATION_CODE_LENGTH = 6;
+const VERIFICATION_CODE_TTL_MINUTES = 30;
+// Intervalo mínimo entre envios do código para o mesmo usuário
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+// Tentativas erradas antes de descartar o código (é preciso pedir outro)
+const MAX_VERIFICATION_ATTEMPTS = 5;
+
+const invalidCodeError = () => new AppError('Código inválido ou expirado, ou email não corresponde.', 400);
+
+/**
+ * Gera e envia um novo código de verificação. Com `enforceCooldown`, recusa (429) reenvios
+ * antes de VERIFICATION_RESEND_COOLDOWN_SECONDS desde o último envio.
+ */
+export async function sendVerificationCode(
+    prisma: PrismaClient,
+    userId: string,
+    emailProvider: EmailProvider,
+    { enforceCooldown = true }: { enforceCooldown?: boolean } = {}
+): Promise<void> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, name: true, email: true, emailVerifiedAt: true, emailVerificationSentAt: true },
+    });
+    if (!user) throw new AppError('Usuário não encontrado.', 404);
+    if (user.emailVerifiedAt) throw new AppError('Email já verificado.', 409);
+
+    if (enforceCooldown && user.emailVerificationSentAt) {
+        const elapsedSeconds = (Date.now() - user.emailVerificationSentAt.getTime()) / 1000;
+        if (elapsedSeconds < VERIFICATION_RESEND_COOLDOWN_SECONDS) {
+            const wait = Math.ceil(VERIFICATION_RESEND_COOLDOWN_SECONDS - elapsedSeconds);
+            throw new AppError(`Aguarde ${wait} segundo(s) para solicitar um novo código.`, 429);
+        }
+    }
+
+    const code = generateOtp(VERIFICATION_CODE_LENGTH);
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            emailVerificationToken: hashOtp(user.id, code), // Só o HASH é salvo
+            emailVerificationExpires: new Date(Date.now() + VERIFICATION_CODE_TTL_MINUTES * 60 * 1000),
+            emailVerificationAttempts: 0,
+            emailVerificationSentAt: new Date(),
+        },
+    });
+
+    await emailProvider.send({
+        to: user.email,
+        subject: 'Confirme seu email - Kontado',
+        html: `
+      <p>Olá, ${escapeHtml(user.name)}.</p>
+      <p>Seu código de verificação de email é: <strong>${code}</strong></p>
+      <p>Este código expirará em ${VERIFICATION_CODE_TTL_MINUTES} minutos.</p>
+      <p>Se você não criou uma conta, ignore este email.</p>
+    `,
+        text: `Seu código de verificação de email é ${code}. Ele expira em ${VERIFICATION_CODE_TTL_MINUTES} minutos.`,
+    });
+}
+
+/**
+ * Confere o código e marca o email como verificado. Cada erro conta uma tentativa;
+ * ao atingir o limite o código é descartado.
+ */
+export async function verifyEmail(prisma: PrismaClient, email: string, code: string): Promise<Date> {
+    const user = await prisma.user.findUnique({
+        where: { email },
+        select: { id: true, emailVerifiedAt: true, emailVerificationToken: true, emailVerificationExpires: true, emailVerificationAttempts: true },
+    });
+    if (!user) throw invalidCodeError();
+    if (user.emailVerifiedAt) return user.emailVerifiedAt; // Idempotente: reenvio do mesmo código não é erro
+    if (!user.emailVerificationToken || !user.emailVerificationExpires || user.emailVerificationExpires <= new Date()) {
+        throw invalidCodeError();
+    }
+
+    if (!otpMatches(user.id, code, user.emailVerificationToken)) {
+        const attempts = user.emailVerificationAttempts + 1;
+        if (attempts >= MAX_VERIFICATION_ATTEMPTS) {
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { emailVerificationToken: null, emailVerificationExpires: null, emailVerificationAttempts: 0 },
+            });
+            throw new AppError('Muitas tentativas inválidas. Solicite um novo código.', 429);
+        }
+        await prisma.user.update({ where: { id: user.id }, data: { emailVerificationAttempts: attempts } });
+        throw new AppError(`Código inválido. Restam ${MAX_VERIFICATION_ATTEMPTS - attempts} tentativa(s).`, 400);
+    }
+
+    const verifiedAt = new Date();
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: verifiedAt, emailVerificationToken: null, emailVerificationExpires: null, emailVerificationAttempts: 0 },
+    });
+    return verifiedAt;
+}
+
+// Início da verificação de email: contas anteriores foram criadas sem código e são tratadas como
+// verificadas (o seed aceita outra data em EMAIL_VERIFICATION_CUTOVER, ex: a do deploy)
+export const EMAIL_VERIFICATION_CUTOVER = new Date('2026-10-20T00:00:00.000Z');
+
+/**
+ * Marca como verificados os emails das contas criadas antes da verificação (e que nunca receberam
+ * um código), para que requireVerifiedEmail não as bloqueie. Idempotente: roda no seed.
+ */
+export async function markLegacyEmailsVerified(prisma: PrismaClient, cutover = EMAIL_VERIFICATION_CUTOVER): Promise<number> {
+    const { count } = await prisma.user.updateMany({
+        where: { emailVerifiedAt: null, emailVerificationSentAt: null, createdAt: { lt: cutover } },
+        data: { emailVerifiedAt: new Date() },
+    });
+    return count;
+}
@@ -0,0 +1,141 @@
+// src/services/fuelLevel.service.ts
+// Nível simulado do tanque (appFuelTank): capacidade, limites, autonomia e histórico.
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export const DEFAULT_FUEL_TIMELINE_LIMIT = 50;
+
+// Campos necessários para resolver a capacidade efetiva do tanque
+export const tankCapacitySelect = {
+    tankCapacity: true,
+    category: { select: { defaultTankCapacity: true } },
+} satisfies Prisma.VehicleSelect;
+
+export type VehicleWithCapacity = {
+    tankCapacity: Decimal | null;
+    category: { defaultTankCapacity: Decimal | null } | null;
+};
+
+/**
+ * Capacidade do tanque do veículo ou, se não cadastrada, o padrão da categoria.
+ */
+export function getEffectiveTankCapacity(vehicle: VehicleWithCapacity): Decimal | null {
+    return vehicle.tankCapacity ?? vehicle.category?.defaultTankCapacity ?? null;
+}
+
+/**
+ * Mantém o nível entre 0 e a capacidade (sem capacidade conhecida, apenas o limite inferior).
+ */
+export function clampFuelLevel(level: Decimal, capacity: Decimal | null): Decimal {
+    const nonNegative = Decimal.max(0, level);
+    return capacity ? Decimal.min(nonNegative, capacity) : nonNegative;
+}
+
+/**
+ * Litros para completar o tanque a partir do nível simulado (null se a capacidade é desconhecida).
+ */
+export function getFillLiters(vehicle: { appFuelTank: Decimal } & VehicleWithCapacity): number | null {
+    const capacity = getEffectiveTankCapacity(vehicle);
+    return capacity
+        ? capacity.minus(clampFuelLevel(vehicle.appFuelTank, capacity)).toDecimalPlaces(2).toNumber()
+        : null;
+}
+
+export type FuelTimelineEvent = {
+    type: 'TRIP' | 'FUELING';
+    id: string;
+    timestamp: Date;
+    levelBefore: Decimal; // Snapshot momentAppFuelTank
+    levelAfter: Decimal;
+    change: Decimal; // Negativo para viagens, positivo para abastecimentos
+};
+
+export type FuelLevelReport = {
+    vehicleId: string;
+    tankCapacity: Decimal | null;
+    capacitySource: 'VEHICLE' | 'CATEGORY' | null;
+    currentLevel: Decimal;
+    percentFull: number | null;
+    estimatedRangeKm: { city: number | null; road: number | null };
+    timeline: FuelTimelineEvent[];
+};
+
+const rangeFor = (level: Decimal, kml: number | null): number | null =>
+    kml && kml > 0 ? Math.round(level.toNumber() * kml * 10) / 10 : null;
+
+/**
+ * Autonomia (km) do nível informado com o consumo de cidade e de estrada do veículo.
+ */
+export function estimateRangeKm(
+    level: Decimal,
+    vehicle: { kmlCity: number | null; kmlRoad: number | null }
+): { city: number | null; road: number | null } {
+    return { city: rangeFor(level, vehicle.kmlCity), road: rangeFor(level, vehicle.kmlRoad) };
+}
+
+/**
+ * Estimativa atual do tanque e linha do tempo reconstruída a partir dos snapshots
+ * momentAppFuelTank (nível antes de cada viagem/abastecimento), do mais recente ao mais antigo.
+ */
+export async function getFuelLevelReport(
+    prisma: PrismaClient,
+    vehicle: VehicleWithCapacity & { id: string; appFuelTank: Decimal; kmlCity: number | null; kmlRoad: number | null },
+    options: { since?: Date; limit?: number } = {}
+): Promise<FuelLevelReport> {
+    const limit = options.limit ?? DEFAULT_FUEL_TIMELINE_LIMIT;
+    const capacity = getEffectiveTankCapacity(vehicle);
+    const currentLevel = clampFuelLevel(vehicle.appFuelTank, capacity);
+
+    const [trips, fuelings] = await Promise.all([
+        prisma.trip.findMany({
+            where: { vehicleId: vehicle.id, ...(options.since && { startTime: { gte: options.since } }) },
+            orderBy: { startTime: 'desc' },
+            take: limit,
+            select: { id: true, startTime: true, fuelConsumed: true, momentAppFuelTank: true },
+        }),
+        prisma.fueling.findMany({
+            where: { vehicleId: vehicle.id, deletedAt: null, ...(options.since && { timestamp: { gte: options.since } }) },
+            orderBy: { timestamp: 'desc' },
+            take: limit,
+            select: { id: true, timestamp: true, cost: true, pricePerLiter: true, volume: true, momentAppFuelTank: true },
+        }),
+    ]);
+
+    const tripEvents: FuelTimelineEvent[] = trips.map(trip => {
+        const levelAfter = clampFuelLevel(trip.momentAppFuelTank.minus(trip.fuelConsumed), capacity);
+        return {
+            type: 'TRIP',
+            id: trip.id,
+            timestamp: trip.startTime,
+            levelBefore: trip.momentAppFuelTank,
+            levelAfter,
+            change: levelAfter.minus(trip.momentAppFuelTank),
+        };
+    });
+    const fuelingEvents: FuelTimelineEvent[] = fuelings.map(fueling => {
+        const volume = fueling.volume ?? fueling.cost.dividedBy(fueling.pricePerLiter);
+        const levelAfter = clampFuelLevel(fueling.momentAppFuelTank.plus(volume), capacity);
+        return {
+            type: 'FUELING',
+            id: fueling.id,
+            timestamp: fueling.timestamp,
+            levelBefore: fueling.momentAppFuelTank,
+            levelAfter,
+            change: levelAfter.minus(fueling.momentAppFuelTank),
+        };
+    });
+
+    const timeline = [...tripEvents, ...fuelingEvents]
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(0, limit);
+
+    return {
+        vehicleId: vehicle.id,
+        tankCapacity: capacity,
+        capacitySource: vehicle.tankCapacity ? 'VEHICLE' : capacity ? 'CATEGORY' : null,
+        currentLevel,
+        percentFull: capacity ? Math.round(currentLevel.dividedBy(capacity).toNumber() * 1000) / 10 : null,
+        estimatedRangeKm: estimateRangeKm(currentLevel, vehicle),
+        timeline,
+    };
+}
@@ -0,0 +1,199 @@
+// src/services/moderation.service.ts
+// Resolução direta de propostas por moderadores (admin:proposal:manage), com registro de auditoria.
+import { ModerationActionType, Prisma, PrismaClient, ProposalKind, ProposalReasonType, ReviewStatus, ReviewVote } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { applyGasStationOutcome, applyStationPriceOutcome } from './review.service';
+import { applyReputationForOutcome } from './reputation.service';
+
+const DEFAULT_FORCE_RESOLVE_NOTES = 'Resolvida diretamente por um moderador.';
+
+// Status a partir dos quais um moderador pode forçar a resolução
+const RESOLVABLE_STATUSES: ReviewStatus[] = [ReviewStatus.PENDING, ReviewStatus.PROTESTED];
+
+export type ForcedStatus = typeof ReviewStatus.VERIFIED | typeof ReviewStatus.REJECTED;
+
+export type ModerationResult = {
+    id: string;
+    previousStatus: ReviewStatus;
+    status: ReviewStatus;
+    resolutionNotes: string | null;
+};
+
+export type BulkResolveFilter = {
+    status?: ReviewStatus;
+    reasonType?: ProposalReasonType;
+    proposerId?: string;
+    createdBefore?: Date;
+    proposalIds?: string[];
+    limit: number;
+};
+
+type LoadedProposal = {
+    id: string;
+    status: ReviewStatus;
+    proposerId: string;
+    reviews: { reviewerId: string; vote: ReviewVote }[];
+    gasStationId?: string;
+    reasonType?: ProposalReasonType;
+    proposedData?: Prisma.JsonValue;
+    stationPriceId?: string;
+};
+
+async function loadProposal(tx: Prisma.TransactionClient, kind: ProposalKind, proposalId: string): Promise<LoadedProposal | null> {
+    const include = { reviews: { select: { reviewerId: true, vote: true } } };
+    if (kind === ProposalKind.GAS_STATION) {
+        return tx.gasStationProposal.findUnique({ where: { id: proposalId }, include });
+    }
+    return tx.stationPriceProposal.findUnique({ where: { id: proposalId }, include });
+}
+
+async function updateProposal(
+    tx: Prisma.TransactionClient,
+    kind: ProposalKind,
+    proposalId: string,
+    data: { status: ReviewStatus; resolutionNotes: string | null }
+): Promise<void> {
+    if (kind === ProposalKind.GAS_STATION) {
+        await tx.gasStationProposal.update({ where: { id: proposalId }, data });
+    } else {
+        await tx.stationPriceProposal.update({ where: { id: proposalId }, data });
+    }
+}
+
+/**
+ * Aprova ou rejeita uma proposta PENDING/PROTESTED ignorando a votação, aplicando os
+ * mesmos efeitos da resolução comunitária (posto/preço e reputação) e registrando a ação.
+ */
+export async function forceResolveProposal(
+    prisma: PrismaClient,
+    kind: ProposalKind,
+    proposalId: string,
+    status: ForcedStatus,
+    notes: string | undefined,
+    moderatorId: string
+): Promise<ModerationResult> {
+    return prisma.$transaction(async (tx) => {
+        const proposal = await loadProposal(tx, kind, proposalId);
+        if (!proposal) {
+            throw new AppError(`Proposta ${proposalId} não encontrada.`, 404);
+        }
+        if (!RESOLVABLE_STATUSES.includes(proposal.status)) {
+            throw new AppError(`Proposta ${proposalId} já foi resolvida (status: ${proposal.status}).`, 409);
+        }
+
+        const resolutionNotes = notes ?? DEFAULT_FORCE_RESOLVE_NOTES;
+        await updateProposal(tx, kind, proposal.id, { status, resolutionNotes });
+
+        if (kind === ProposalKind.GAS_STATION) {
+            await applyGasStationOutcome(tx, {
+                gasStationId: proposal.gasStationId!,
+                reasonType: proposal.reasonType!,
+                proposedData: proposal.proposedData ?? null,
+            }, status);
+            await applyReputationForOutcome(tx, proposal, status, { gasStationProposalId: proposal.id });
+        } else {
+            await applyStationPriceOutcome(tx, proposal.stationPriceId!, status);
+            await applyReputationForOutcome(tx, proposal, status, { stationPriceProposalId: proposal.id });
+        }
+
+        await tx.moderationAction.create({
+            data: {
+                moderatorId,
+                proposalKind: kind,
+                proposalId: proposal.id,
+                action: ModerationActionType.FORCE_RESOLVE,
+                previousStatus: proposal.status,
+                newStatus: status,
+                notes: resolutionNotes,
+            }
+        });
+
+        return { id: proposal.id, previousStatus: proposal.status, status, resolutionNotes };
+    });
+}
+
+/**
+ * Resolve em lote as propostas que atendem ao filtro. Cada proposta é resolvida em sua
+ * própria transação; falhas individuais são reportadas sem interromper o lote.
+ */
+export async function bulkResolveProposals(
+    prisma: PrismaClient,
+    kind: ProposalKind,
+    filter: BulkResolveFilter,
+    status: ForcedStatus,
+    notes: string | undefined,
+    moderatorId: string
+): Promise<{ resolved: ModerationResult[]; failed: { id: string; message: string }[] }> {
+    const where = {
+        status: filter.status ?? { in: RESOLVABLE_STATUSES },
+        ...(filter.reasonType && { reasonType: filter.reasonType }),
+        ...(filter.proposerId && { proposerId: filter.proposerId }),
+        ...(filter.createdBefore && { createdAt: { lte: filter.createdBefore } }),
+        ...(filter.proposalIds && { id: { in: filter.proposalIds } }),
+    };
+    const query = { where, select: { id: true }, orderBy: { createdAt: 'asc' as const }, take: filter.limit };
+
+    const proposals = kind === ProposalKind.GAS_STATION
+        ? await prisma.gasStationProposal.findMany(query)
+        : await prisma.stationPriceProposal.findMany(query);
+
+    const resolved: ModerationResult[] = [];
+    const failed: { id: string; message: string }[] = [];
+    for (const { id } of proposals) {
+        try {
+            resolved.push(await forceResolveProposal(prisma, kind, id, status, notes, moderatorId));
+        } catch (error) {
+            if (!(error instanceof AppError)) throw error;
+            failed.push({ id, message: error.message });
+        }
+    }
+    return { resolved, failed };
+}
+
+/**
+ * Devolve uma proposta PROTESTED para PENDING. Por padrão remove os votos existentes,
+ * para que o veto anterior não resolva a proposta novamente no próximo voto.
+ */
+export async function reopenProposal(
+    prisma: PrismaClient,
+    kind: ProposalKind,
+    proposalId: string,
+    notes: string | undefined,
+    clearVotes: boolean,
+    moderatorId: string
+): Promise<ModerationResult> {
+    return prisma.$transaction(async (tx) => {
+        const proposal = await loadProposal(tx, kind, proposalId);
+        if (!proposal) {
+            throw new AppError(`Proposta ${proposalId} não encontrada.`, 404);
+        }
+        if (proposal.status !== ReviewStatus.PROTESTED) {
+            throw new AppError(`Apenas propostas PROTESTED podem ser reabertas (status: ${proposal.status}).`, 409);
+        }
+
+        const resolutionNotes = notes ?? null;
+        await updateProposal(tx, kind, proposal.id, { status: ReviewStatus.PENDING, resolutionNotes });
+
+        if (clearVotes) {
+            if (kind === ProposalKind.GAS_STATION) {
+                await tx.gasStationReview.deleteMany({ where: { gasStationProposalId: proposal.id } });
+            } else {
+                await tx.stationPriceReview.deleteMany({ where: { stationPriceProposalId: proposal.id } });
+            }
+        }
+
+        await tx.moderationAction.create({
+            data: {
+                moderatorId,
+                proposalKind: kind,
+                proposalId: proposal.id,
+                action: ModerationActionType.REOPEN,
+                previousStatus: proposal.status,
+                newStatus: ReviewStatus.PENDING,
+                notes: resolutionNotes,
+            }
+        });
+
+        return { id: proposal.id, previousStatus: proposal.status, status: ReviewStatus.PENDING, resolutionNotes };
+    });
+}
@@ -0,0 +1,116 @@
+// src/services/passwordReset.service.ts
+// Recuperação de senha por código (OTP) enviado por email, com limite de tentativas.
+import { PrismaClient } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { escapeHtml } from 'utils/html.util';
+import { generateOtp, hashOtp, otpMatches } from 'utils/otp.util';
+import { hashPassword } from 'utils/password.util';
+import { EmailProvider } from './email.service';
+import { revokeUserSessions } from './session.service';
+
+const RESET_CODE_LENGTH = 6;
+const RESET_CODE_TTL_MINUTES = 10;
+// Tentativas erradas antes de invalidar o código e bloquear novas solicitações
+const MAX_RESET_ATTEMPTS = 5;
+const RESET_LOCKOUT_MINUTES = 15;
+
+const invalidCodeError = () => new AppError('Código inválido ou expirado, ou email não corresponde.', 400);
+
+const lockoutError = (lockedUntil: Date) => {
+    const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60000);
+    return new AppError(`Muitas tentativas inválidas. Tente novamente em ${minutes} minuto(s).`, 429);
+};
+
+/**
+ * Gera e envia um novo código. Não revela se o email existe: quem chama sempre responde igual.
+ * Durante o bloqueio por tentativas, nenhum código novo é emitido.
+ */
+export async function requestPasswordReset(prisma: PrismaClient, email: string, emailProvider: EmailProvider): Promise<void> {
+    const user = await prisma.user.findUnique({
+        where: { email },
+        select: { id: true, email: true, name: true, passwordResetLockedUntil: true },
+    });
+    if (!user) return;
+    if (user.passwordResetLockedUntil && user.passwordResetLockedUntil > new Date()) return;
+
+    const code = generateOtp(RESET_CODE_LENGTH);
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            passwordResetToken: hashOtp(user.id, code), // Só o HASH é salvo
+            passwordResetExpires: new Date(Date.now() + RESET_CODE_TTL_MINUTES * 60 * 1000),
+            passwordResetAttempts: 0,
+            passwordResetLockedUntil: null,
+        },
+    });
+
+    await emailProvider.send({
+        to: user.email,
+        subject: 'Código de Redefinição de Senha - Kontado',
+        html: `
+      <p>Olá, ${escapeHtml(user.name)}.</p>
+      <p>Você solicitou a redefinição de senha.</p>
+      <p>Seu código de verificação é: <strong>${code}</strong></p>
+      <p>Este código expirará em ${RESET_CODE_TTL_MINUTES} minutos.</p>
+      <p>Se você não solicitou isso, ignore este email.</p>
+    `,
+        text: `Seu código de redefinição de senha é ${code}. Ele expira em ${RESET_CODE_TTL_MINUTES} minutos. Se você não solicitou isso, ignore este email.`,
+    });
+}
+
+/**
+ * Confere o código do usuário. Cada erro conta uma tentativa; ao atingir o limite o código
+ * é descartado e novas solicitações ficam bloqueadas por RESET_LOCKOUT_MINUTES.
+ * Retorna o ID do usuário quando o código confere.
+ */
+export async function verifyResetCode(prisma: PrismaClient, email: string, code: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+        where: { email },
+        select: { id: true, passwordResetToken: true, passwordResetExpires: true, passwordResetAttempts: true, passwordResetLockedUntil: true },
+    });
+    if (!user) throw invalidCodeError();
+    if (user.passwordResetLockedUntil && user.passwordResetLockedUntil > new Date()) {
+        throw lockoutError(user.passwordResetLockedUntil);
+    }
+    if (!user.passwordResetToken || !user.passwordResetExpires || user.passwordResetExpires <= new Date()) {
+        throw invalidCodeError();
+    }
+
+    if (!otpMatches(user.id, code, user.passwordResetToken)) {
+        const attempts = user.passwordResetAttempts + 1;
+        if (attempts >= MAX_RESET_ATTEMPTS) {
+            const lockedUntil = new Date(Date.now() + RESET_LOCKOUT_MINUTES * 60 * 1000);
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { passwordResetToken: null, passwordResetExpires: null, passwordResetAttempts: 0, passwordResetLockedUntil: lockedUntil },
+            });
+            throw lockoutError(lockedUntil);
+        }
+        await prisma.user.update({ where: { id: user.id }, data: { passwordResetAttempts: attempts } });
+        throw new AppError(`Código inválido. Restam ${MAX_RESET_ATTEMPTS - attempts} tentativa(s).`, 400);
+    }
+    return user.id;
+}
+
+/**
+ * Troca a senha após conferir o código, descarta o código e encerra todas as sessões.
+ */
+export async function resetPassword(prisma: PrismaClient, email: string, code: string, newPassword: string): Promise<void> {
+    const userId = await verifyResetCode(prisma, email, code);
+    const hashedPassword = await hashPassword(newPassword);
+
+    // A condição no token impede que o mesmo código seja usado duas vezes em paralelo
+    const { count } = await prisma.user.updateMany({
+        where: { id: userId, passwordResetToken: hashOtp(userId, code) },
+        data: {
+            password: hashedPassword,
+            passwordResetToken: null,
+            passwordResetExpires: null,
+            passwordResetAttempts: 0,
+            passwordResetLockedUntil: null,
+        },
+    });
+    if (count === 0) throw invalidCodeError();
+
+    await revokeUserSessions(prisma, userId, 'PASSWORD_RESET');
+}
@@ -0,0 +1,162 @@
+// src/services/permissionCache.service.ts
+// Cache das permissões de cada role, com armazenamento em KV, D1 ou memória. Cada entrada guarda
+// a versão das permissões (Role.permissionsVersion); o access token carrega a versão vigente na
+// emissão, então uma entrada mais antiga que a do token é recarregada mesmo antes de a
+// invalidação se propagar (o KV é eventualmente consistente).
+import { PrismaD1 } from '@prisma/adapter-d1';
+import { PrismaClient } from '@prisma/client';
+import { Bindings } from 'types';
+
+export type CachedRolePermissions = {
+    version: number; // Role.permissionsVersion das permissões guardadas
+    permissions: string[];
+};
+
+export interface PermissionCacheStore {
+    get(roleId: string): Promise<CachedRolePermissions | null>;
+    set(roleId: string, entry: CachedRolePermissions, ttlSeconds: number): Promise<void>;
+    delete(roleId: string): Promise<void>;
+    clear(): Promise<void>; // Todos os roles
+}
+
+// Limite para tokens sem versão (emitidos antes dela) ou cuja role mudou depois da emissão
+export const PERMISSION_CACHE_TTL_SECONDS = 5 * 60;
+
+/**
+ * Armazenamento em memória do isolate: fallback em desenvolvimento. Em produção cada isolate
+ * teria seu próprio cache, e a invalidação só alcançaria o isolate que a executou.
+ */
+export class MemoryPermissionCacheStore implements PermissionCacheStore {
+    private readonly entries = new Map<string, { entry: CachedRolePermissions; expiresAt: number }>();
+
+    async get(roleId: string): Promise<CachedRolePermissions | null> {
+        const cached = this.entries.get(roleId);
+        if (!cached || cached.expiresAt <= Date.now()) return null;
+        return cached.entry;
+    }
+
+    async set(roleId: string, entry: CachedRolePermissions, ttlSeconds: number): Promise<void> {
+        this.entries.set(roleId, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+    }
+
+    async delete(roleId: string): Promise<void> {
+        this.entries.delete(roleId);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Armazenamento na tabela permission_cache do D1: uma leitura por chave primária no lugar
+ * do join role -> role_permissions -> permissions.
+ */
+export class D1PermissionCacheStore implements PermissionCacheStore {
+    constructor(private readonly prisma: PrismaClient) { }
+
+    async get(roleId: string): Promise<CachedRolePermissions | null> {
+        const row = await this.prisma.permissionCacheEntry.findUnique({ where: { roleId } });
+        if (!row || row.expiresAt <= new Date()) return null;
+        return { version: row.version, permissions: JSON.parse(row.permissions) as string[] };
+    }
+
+    async set(roleId: string, entry: CachedRolePermissions, ttlSeconds: number): Promise<void> {
+        const data = { version: entry.version, permissions: JSON.stringify(entry.permissions), expiresAt: new Date(Date.now() + ttlSeconds * 1000) };
+        await this.prisma.permissionCacheEntry.upsert({ where: { roleId }, create: { roleId, ...data }, update: data });
+    }
+
+    async delete(roleId: string): Promise<void> {
+        await this.prisma.permissionCacheEntry.deleteMany({ where: { roleId } });
+    }
+
+    async clear(): Promise<void> {
+        await this.prisma.permissionCacheEntry.deleteMany({});
+    }
+}
+
+// O KV não aceita expiração menor que 60 segundos
+const KV_MIN_TTL_SECONDS = 60;
+const KV_KEY_PREFIX = 'perm:role:';
+
+/**
+ * Armazenamento no Workers KV (leitura local na borda). Exclusões levam alguns segundos para
+ * chegar a outras regiões; a versão do token cobre os tokens emitidos depois da mudança.
+ */
+export class KvPermissionCacheStore implements PermissionCacheStore {
+    constructor(private readonly kv: KVNamespace) { }
+
+    async get(roleId: string): Promise<CachedRolePermissions | null> {
+        return this.kv.get<CachedRolePermissions>(`${KV_KEY_PREFIX}${roleId}`, 'json');
+    }
+
+    async set(roleId: string, entry: CachedRolePermissions, ttlSeconds: number): Promise<void> {
+        await this.kv.put(`${KV_KEY_PREFIX}${roleId}`, JSON.stringify(entry), { expirationTtl: Math.max(KV_MIN_TTL_SECONDS, ttlSeconds) });
+    }
+
+    async delete(roleId: string): Promise<void> {
+        await this.kv.delete(`${KV_KEY_PREFIX}${roleId}`);
+    }
+
+    async clear(): Promise<void> {
+        let cursor: string | undefined;
+        do {
+            const page = await this.kv.list({ prefix: KV_KEY_PREFIX, cursor });
+            await Promise.all(page.keys.map(key => this.kv.delete(key.name)));
+            cursor = page.list_complete ? undefined : page.cursor;
+        } while (cursor);
+    }
+}
+
+// Um único store em memória por isolate (as entradas precisam sobreviver entre requisições)
+const memoryStore = new MemoryPermissionCacheStore();
+
+/**
+ * Escolhe o armazenamento: PERMISSION_CACHE_STORE ('kv' | 'd1' | 'memory'); sem configuração,
+ * usa o KV quando o binding PERMISSION_CACHE_KV existe e o D1 caso contrário.
+ */
+export function getPermissionCacheStore(env: Bindings): PermissionCacheStore {
+    const kind = env.PERMISSION_CACHE_STORE ?? (env.PERMISSION_CACHE_KV ? 'kv' : 'd1');
+    switch (kind) {
+        case 'memory':
+            return memoryStore;
+        case 'kv':
+            if (!env.PERMISSION_CACHE_KV) throw new Error('Binding PERMISSION_CACHE_KV é obrigatório para PERMISSION_CACHE_STORE=kv.');
+            return new KvPermissionCacheStore(env.PERMISSION_CACHE_KV);
+        case 'd1':
+            return new D1PermissionCacheStore(new PrismaClient({ adapter: new PrismaD1(env.DB) }));
+        default:
+            throw new Error(`PERMISSION_CACHE_STORE desconhecido: ${kind}`);
+    }
+}
+
+/**
+ * Permissões do role pelo cache. A entrada só vale se for da versão do token (`minVersion`)
+ * ou mais nova; senão as permissões são lidas de novo com `load` e regravadas.
+ */
+export async function getCachedRolePermissions(
+    store: PermissionCacheStore,
+    roleId: string,
+    minVersion: number | undefined,
+    load: () => Promise<CachedRolePermissions | null>
+): Promise<Set<string>> {
+    try {
+        const cached = await store.get(roleId);
+        if (cached && cached.version >= (minVersion ?? 0)) {
+            return new Set(cached.permissions);
+        }
+    } catch (error) {
+        // Falha no cache não pode bloquear a autorização: segue para o banco
+        console.error(`Erro ao ler o cache de permissões do role ${roleId}:`, error);
+    }
+
+    const loaded = await load();
+    if (!loaded) return new Set();
+
+    try {
+        await store.set(roleId, loaded, PERMISSION_CACHE_TTL_SECONDS);
+    } catch (error) {
+        console.error(`Erro ao gravar o cache de permissões do role ${roleId}:`, error);
+    }
+    return new Set(loaded.permissions);
+}
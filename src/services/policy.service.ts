@@ -0,0 +1,179 @@
+// src/services/policy.service.ts
+// Avaliação central das permissões por recurso (<recurso>:<ação>:<escopo>):
+// com ":own" o usuário só age sobre os próprios dados (dono, ou compartilhamento do veículo com
+// papel suficiente); com ":any" age sobre os de qualquer usuário (ex: administradores).
+import { Prisma, PrismaClient, VehicleShareRole } from '@prisma/client';
+import AppError from 'utils/AppError';
+import permissions from 'utils/permissions';
+import { activeShareWhere, hasShareRole } from './vehicleShare.service';
+
+export type AccessScope = 'own' | 'any';
+
+// Quem "possui" o registro carregado
+type Ownership = {
+    ownerId: string | null; // Dono (do veículo, ou do orçamento)
+    shareRole: VehicleShareRole | null; // Papel do compartilhamento ativo do veículo com o usuário
+};
+
+type Loaded<T> = { record: T; ownership: Ownership } | null;
+
+type ResourcePolicy<T> = {
+    label: string; // Usado nas mensagens de erro
+    param: string; // Parâmetro de rota com o ID, por padrão
+    load: (prisma: PrismaClient | Prisma.TransactionClient, id: string, userId: string) => Promise<Loaded<T>>;
+    // Registro (ou veículo dele) na lixeira
+    isDeleted?: (record: T) => boolean;
+    // Permissões que só o dono exerce (autorizados no veículo não contam)
+    ownerOnly?: string[];
+};
+
+const vehicleOwnership = (vehicle: { ownerId: string; authorizedUsers: { role: VehicleShareRole }[] }): Ownership => ({
+    ownerId: vehicle.ownerId,
+    shareRole: vehicle.authorizedUsers[0]?.role ?? null,
+});
+
+// Registros desvinculados numa transferência de propriedade ficam só com quem os registrou
+const recordOwnership = (record: { userId: string; vehicle: { ownerId: string; authorizedUsers: { role: VehicleShareRole }[] } | null }): Ownership =>
+    record.vehicle ? vehicleOwnership(record.vehicle) : { ownerId: record.userId, shareRole: null };
+
+// Na lixeira o próprio registro ou o veículo a que pertence
+const inTrash = (record: { deletedAt: Date | null; vehicle?: { deletedAt: Date | null } | null }): boolean =>
+    record.deletedAt !== null || (record.vehicle?.deletedAt ?? null) !== null;
+
+// Só o compartilhamento ativo do usuário atual interessa para a posse
+const authorizedUserSelect = (userId: string) => ({ where: activeShareWhere(userId), select: { role: true } });
+
+// Permissões de leitura: basta o papel VIEWER; as demais pedem MANAGER, salvo indicação da rota
+const VIEWER_PERMISSIONS: string[] = [permissions.vehicle.read, permissions.note.read, permissions.expense.read];
+
+const resourcePolicies = {
+    vehicle: {
+        label: 'Veículo',
+        param: 'vehicleId',
+        load: async (prisma, id, userId) => {
+            const vehicle = await prisma.vehicle.findUnique({
+                where: { id },
+                include: { authorizedUsers: authorizedUserSelect(userId) },
+            });
+            return vehicle && { record: vehicle, ownership: vehicleOwnership(vehicle) };
+        },
+        ownerOnly: [permissions.vehicle.delete, permissions.vehicle.transfer, permissions.feature.authorize],
+        isDeleted: inTrash,
+    } satisfies ResourcePolicy<Prisma.VehicleGetPayload<{ include: { authorizedUsers: { select: { role: true } } } }>>,
+    note: {
+        label: 'Nota/Lembrete',
+        param: 'noteId',
+        load: async (prisma, id, userId) => {
+            const note = await prisma.noteReminder.findUnique({
+                where: { id },
+                include: { vehicle: { select: { id: true, ownerId: true, deletedAt: true, authorizedUsers: authorizedUserSelect(userId) } } },
+            });
+            return note && { record: note, ownership: vehicleOwnership(note.vehicle) };
+        },
+        isDeleted: inTrash,
+    } satisfies ResourcePolicy<Prisma.NoteReminderGetPayload<{ include: { vehicle: { select: { id: true, ownerId: true, deletedAt: true, authorizedUsers: { select: { role: true } } } } } }>>,
+    budget: {
+        label: 'Orçamento',
+        param: 'budgetId',
+        load: async (prisma, id) => {
+            const budget = await prisma.budget.findUnique({ where: { id } });
+            return budget && { record: budget, ownership: { ownerId: budget.userId, shareRole: null } };
+        },
+    } satisfies ResourcePolicy<Prisma.BudgetGetPayload<{}>>,
+    generalExpense: {
+        label: 'Gasto Geral',
+        param: 'expenseId',
+        load: async (prisma, id, userId) => {
+            const expense = await prisma.generalExpense.findUnique({
+                where: { id },
+                include: { vehicle: { select: { ownerId: true, deletedAt: true, authorizedUsers: authorizedUserSelect(userId) } } },
+            });
+            return expense && { record: expense, ownership: recordOwnership(expense) };
+        },
+        isDeleted: inTrash,
+    } satisfies ResourcePolicy<Prisma.GeneralExpenseGetPayload<{ include: { vehicle: { select: { ownerId: true, deletedAt: true, authorizedUsers: { select: { role: true } } } } } }>>,
+    fueling: {
+        label: 'Abastecimento',
+        param: 'fuelingId',
+        load: async (prisma, id, userId) => {
+            const fueling = await prisma.fueling.findUnique({
+                where: { id },
+                include: { vehicle: { select: { ownerId: true, deletedAt: true, authorizedUsers: authorizedUserSelect(userId) } } },
+            });
+            return fueling && { record: fueling, ownership: recordOwnership(fueling) };
+        },
+        isDeleted: inTrash,
+    } satisfies ResourcePolicy<Prisma.FuelingGetPayload<{ include: { vehicle: { select: { ownerId: true, deletedAt: true, authorizedUsers: { select: { role: true } } } } } }>>,
+};
+
+export type PolicyResource = keyof typeof resourcePolicies;
+
+export type ResourceRecord<R extends PolicyResource> =
+    NonNullable<Awaited<ReturnType<(typeof resourcePolicies)[R]['load']>>>['record'];
+
+export type ResourceAccess<R extends PolicyResource = PolicyResource> = {
+    resource: R;
+    scope: AccessScope;
+    record: ResourceRecord<R>;
+};
+
+export const getPolicyParam = (resource: PolicyResource): string => resourcePolicies[resource].param;
+
+/**
+ * Nome da permissão com escopo ":any" equivalente (ex: note:read:own -> note:read:any;
+ * permissões sem escopo, como expense:create, ganham o sufixo).
+ */
+export const toAnyScope = (permission: string): string =>
+    permission.endsWith(':own') ? `${permission.slice(0, -':own'.length)}:any` : `${permission}:any`;
+
+export type ResourceAccessOptions = {
+    shareRole?: VehicleShareRole; // Papel mínimo de compartilhamento exigido (padrão: VIEWER em leituras, MANAGER nas demais)
+    includeDeleted?: boolean; // Aceita registros na lixeira (restauração); por padrão eles são tratados como inexistentes
+};
+
+/**
+ * Carrega o recurso e decide o acesso: ":any" libera qualquer registro; a permissão pedida
+ * (escopo próprio) libera só os do usuário. Lança 404 (inexistente) ou 403.
+ */
+export async function evaluateResourceAccess<R extends PolicyResource>(
+    prisma: PrismaClient | Prisma.TransactionClient,
+    userId: string,
+    userPermissions: Set<string>,
+    resource: R,
+    permission: string,
+    id: string,
+    { shareRole: requiredShareRole, includeDeleted = false }: ResourceAccessOptions = {}
+): Promise<ResourceAccess<R>> {
+    const policy = resourcePolicies[resource] as unknown as ResourcePolicy<ResourceRecord<R>>;
+    const hasAny = userPermissions.has(toAnyScope(permission));
+    const hasOwn = userPermissions.has(permission);
+    if (!hasAny && !hasOwn) {
+        throw new AppError('Proibido. Permissões insuficientes.', 403);
+    }
+
+    const loaded = await policy.load(prisma, id, userId);
+    if (!loaded || (!includeDeleted && policy.isDeleted?.(loaded.record))) {
+        throw new AppError(`${policy.label} com ID ${id} não encontrado(a).`, 404);
+    }
+
+    const { ownerId, shareRole } = loaded.ownership;
+    const ownerOnly = policy.ownerOnly?.includes(permission) ?? false;
+    const minShareRole = requiredShareRole ?? (VIEWER_PERMISSIONS.includes(permission) ? VehicleShareRole.VIEWER : VehicleShareRole.MANAGER);
+    const isOwn = ownerId === userId || (shareRole !== null && !ownerOnly && hasShareRole(shareRole, minShareRole));
+    if (hasOwn && isOwn) {
+        return { resource, scope: 'own', record: loaded.record };
+    }
+    if (hasAny) {
+        return { resource, scope: 'any', record: loaded.record };
+    }
+
+    if (shareRole === null) {
+        throw new AppError(`Acesso proibido a este(a) ${policy.label.toLowerCase()}.`, 403);
+    }
+    throw new AppError(
+        ownerOnly
+            ? `Apenas o proprietário pode realizar esta ação (${policy.label.toLowerCase()}).`
+            : `Seu papel no compartilhamento do veículo (${shareRole}) não permite esta ação.`,
+        403
+    );
+}
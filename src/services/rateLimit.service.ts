@@ -0,0 +1,210 @@
+// src/services/rateLimit.service.ts
+// Contadores de limite de requisições (janela fixa) com armazenamento em D1, KV ou memória,
+// e bloqueio progressivo de login após falhas repetidas.
+import { PrismaD1 } from '@prisma/adapter-d1';
+import { PrismaClient } from '@prisma/client';
+import { Bindings } from 'types';
+import { normalizeIdentifier } from 'utils/identifier.util';
+
+export type RateLimitCounter = {
+    count: number;
+    resetAt: number; // Epoch (ms) em que a janela termina
+};
+
+export interface RateLimitStore {
+    // Soma 1 na janela atual da chave (abre uma nova janela se a anterior expirou)
+    increment(key: string, windowSeconds: number): Promise<RateLimitCounter>;
+    get(key: string): Promise<RateLimitCounter | null>;
+    set(key: string, count: number, ttlSeconds: number): Promise<void>;
+    reset(key: string): Promise<void>;
+}
+
+/**
+ * Armazenamento em memória do isolate: usado nos testes e como fallback em desenvolvimento.
+ * Em produção cada isolate teria seus próprios contadores.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly counters = new Map<string, RateLimitCounter>();
+
+    async increment(key: string, windowSeconds: number): Promise<RateLimitCounter> {
+        const now = Date.now();
+        const current = this.counters.get(key);
+        const counter = current && current.resetAt > now
+            ? { count: current.count + 1, resetAt: current.resetAt }
+            : { count: 1, resetAt: now + windowSeconds * 1000 };
+        this.counters.set(key, counter);
+        return counter;
+    }
+
+    async get(key: string): Promise<RateLimitCounter | null> {
+        const counter = this.counters.get(key);
+        if (!counter || counter.resetAt <= Date.now()) return null;
+        return counter;
+    }
+
+    async set(key: string, count: number, ttlSeconds: number): Promise<void> {
+        this.counters.set(key, { count, resetAt: Date.now() + ttlSeconds * 1000 });
+    }
+
+    async reset(key: string): Promise<void> {
+        this.counters.delete(key);
+    }
+}
+
+// Fração das gravações que também apagam janelas expiradas da tabela
+const D1_CLEANUP_PROBABILITY = 0.01;
+
+/**
+ * Armazenamento na tabela rate_limits do D1 (consistente entre isolates).
+ */
+export class D1RateLimitStore implements RateLimitStore {
+    constructor(private readonly prisma: PrismaClient) { }
+
+    async increment(key: string, windowSeconds: number): Promise<RateLimitCounter> {
+        const now = new Date();
+        if (Math.random() < D1_CLEANUP_PROBABILITY) {
+            await this.prisma.rateLimitEntry.deleteMany({ where: { resetAt: { lte: now } } });
+        }
+
+        // Janela em andamento: incremento atômico; senão, (re)abre a janela
+        const { count } = await this.prisma.rateLimitEntry.updateMany({
+            where: { key, resetAt: { gt: now } },
+            data: { count: { increment: 1 } },
+        });
+        if (count > 0) {
+            const entry = await this.prisma.rateLimitEntry.findUnique({ where: { key } });
+            if (entry) return { count: entry.count, resetAt: entry.resetAt.getTime() };
+        }
+
+        const resetAt = new Date(now.getTime() + windowSeconds * 1000);
+        await this.prisma.rateLimitEntry.upsert({
+            where: { key },
+            create: { key, count: 1, resetAt },
+            update: { count: 1, resetAt },
+        });
+        return { count: 1, resetAt: resetAt.getTime() };
+    }
+
+    async get(key: string): Promise<RateLimitCounter | null> {
+        const entry = await this.prisma.rateLimitEntry.findUnique({ where: { key } });
+        if (!entry || entry.resetAt <= new Date()) return null;
+        return { count: entry.count, resetAt: entry.resetAt.getTime() };
+    }
+
+    async set(key: string, count: number, ttlSeconds: number): Promise<void> {
+        const resetAt = new Date(Date.now() + ttlSeconds * 1000);
+        await this.prisma.rateLimitEntry.upsert({ where: { key }, create: { key, count, resetAt }, update: { count, resetAt } });
+    }
+
+    async reset(key: string): Promise<void> {
+        await this.prisma.rateLimitEntry.deleteMany({ where: { key } });
+    }
+}
+
+// O KV não aceita expiração menor que 60 segundos
+const KV_MIN_TTL_SECONDS = 60;
+
+/**
+ * Armazenamento no Workers KV. Mais barato que o D1, mas eventualmente consistente:
+ * rajadas simultâneas em regiões diferentes podem passar um pouco do limite.
+ */
+export class KvRateLimitStore implements RateLimitStore {
+    constructor(private readonly kv: KVNamespace) { }
+
+    private async write(key: string, counter: RateLimitCounter): Promise<void> {
+        const ttl = Math.max(KV_MIN_TTL_SECONDS, Math.ceil((counter.resetAt - Date.now()) / 1000));
+        await this.kv.put(key, JSON.stringify(counter), { expirationTtl: ttl });
+    }
+
+    async increment(key: string, windowSeconds: number): Promise<RateLimitCounter> {
+        const current = await this.get(key);
+        const counter = current
+            ? { count: current.count + 1, resetAt: current.resetAt }
+            : { count: 1, resetAt: Date.now() + windowSeconds * 1000 };
+        await this.write(key, counter);
+        return counter;
+    }
+
+    async get(key: string): Promise<RateLimitCounter | null> {
+        const counter = await this.kv.get<RateLimitCounter>(key, 'json');
+        if (!counter || counter.resetAt <= Date.now()) return null;
+        return counter;
+    }
+
+    async set(key: string, count: number, ttlSeconds: number): Promise<void> {
+        await this.write(key, { count, resetAt: Date.now() + ttlSeconds * 1000 });
+    }
+
+    async reset(key: string): Promise<void> {
+        await this.kv.delete(key);
+    }
+}
+
+// Um único store em memória por isolate (os contadores precisam sobreviver entre requisições)
+const memoryStore = new MemoryRateLimitStore();
+
+/**
+ * Escolhe o armazenamento: RATE_LIMIT_STORE ('d1' | 'kv' | 'memory'); sem configuração,
+ * usa o KV quando o binding RATE_LIMIT_KV existe e o D1 caso contrário.
+ */
+export function getRateLimitStore(env: Bindings): RateLimitStore {
+    const kind = env.RATE_LIMIT_STORE ?? (env.RATE_LIMIT_KV ? 'kv' : 'd1');
+    switch (kind) {
+        case 'memory':
+            return memoryStore;
+        case 'kv':
+            if (!env.RATE_LIMIT_KV) throw new Error('Binding RATE_LIMIT_KV é obrigatório para RATE_LIMIT_STORE=kv.');
+            return new KvRateLimitStore(env.RATE_LIMIT_KV);
+        case 'd1':
+            return new D1RateLimitStore(new PrismaClient({ adapter: new PrismaD1(env.DB) }));
+        default:
+            throw new Error(`RATE_LIMIT_STORE desconhecido: ${kind}`);
+    }
+}
+
+// --- Bloqueio Progressivo de Login ---
+
+// Falhas contadas dentro desta janela (zera após login bem-sucedido)
+const LOGIN_FAILURE_WINDOW_SECONDS = 24 * 60 * 60;
+// A partir desta falha o login é bloqueado; cada falha seguinte dobra o bloqueio
+const LOGIN_LOCKOUT_THRESHOLD = 5;
+const LOGIN_LOCKOUT_BASE_SECONDS = 60;
+const LOGIN_LOCKOUT_MAX_SECONDS = 60 * 60;
+
+const loginFailureKey = (accountKey: string) => `login:fail:${accountKey}`;
+const loginLockKey = (accountKey: string) => `login:lock:${accountKey}`;
+
+/**
+ * Chave da conta nos contadores de login: o id do usuário quando a conta existe, para que email e
+ * username dividam as mesmas falhas e bloqueios; senão, o identificador normalizado.
+ */
+export const loginAccountKey = (userId: string | null, identifier: string): string =>
+    userId ? `user:${userId}` : `identifier:${normalizeIdentifier(identifier)}`;
+
+/**
+ * Segundos restantes de bloqueio da conta (0 quando liberada).
+ */
+export async function getLoginLockoutSeconds(store: RateLimitStore, accountKey: string): Promise<number> {
+    const lock = await store.get(loginLockKey(accountKey));
+    return lock ? Math.max(1, Math.ceil((lock.resetAt - Date.now()) / 1000)) : 0;
+}
+
+/**
+ * Registra uma falha de login e, a partir do limite, bloqueia por um tempo que dobra
+ * a cada nova falha (1 min, 2 min, 4 min... até 1 h). Retorna a duração do bloqueio (0 se não bloqueou).
+ */
+export async function registerLoginFailure(store: RateLimitStore, accountKey: string): Promise<number> {
+    const failures = await store.increment(loginFailureKey(accountKey), LOGIN_FAILURE_WINDOW_SECONDS);
+    if (failures.count < LOGIN_LOCKOUT_THRESHOLD) return 0;
+
+    const lockSeconds = Math.min(
+        LOGIN_LOCKOUT_MAX_SECONDS,
+        LOGIN_LOCKOUT_BASE_SECONDS * 2 ** (failures.count - LOGIN_LOCKOUT_THRESHOLD)
+    );
+    await store.set(loginLockKey(accountKey), failures.count, lockSeconds);
+    return lockSeconds;
+}
+
+export async function clearLoginFailures(store: RateLimitStore, accountKey: string): Promise<void> {
+    await Promise.all([store.reset(loginFailureKey(accountKey)), store.reset(loginLockKey(accountKey))]);
+}
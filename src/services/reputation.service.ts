@@ -0,0 +1,87 @@
+// src/services/reputation.service.ts
+// Reputação dos usuários na revisão comunitária (pontuação de confiança e peso dos votos).
+import { Prisma, ReputationEventType, ReviewStatus, ReviewVote } from '@prisma/client';
+
+// Pontuação inicial de todo usuário (ver default de User.reputationScore no schema)
+export const REPUTATION_BASE_SCORE = 100;
+
+// O peso do voto é proporcional à pontuação, limitado a este intervalo
+const MIN_VOTE_WEIGHT = 0.25;
+const MAX_VOTE_WEIGHT = 3;
+
+const REPUTATION_DELTAS: Record<ReputationEventType, number> = {
+    [ReputationEventType.PROPOSAL_VERIFIED]: 10,
+    [ReputationEventType.PROPOSAL_REJECTED]: -15,
+    [ReputationEventType.VOTE_AGREED]: 2,
+    [ReputationEventType.VOTE_DISAGREED]: -3,
+};
+
+/**
+ * Converte a pontuação de reputação no peso do voto (1.0 para a pontuação inicial).
+ */
+export function getVoteWeight(reputationScore: number): number {
+    const weight = reputationScore / REPUTATION_BASE_SCORE;
+    return Math.min(MAX_VOTE_WEIGHT, Math.max(MIN_VOTE_WEIGHT, weight));
+}
+
+// Proposta que originou o evento (apenas uma das chaves é preenchida)
+export type ReputationProposalRef = {
+    gasStationProposalId?: string;
+    stationPriceProposalId?: string;
+};
+
+async function recordReputationEvent(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    type: ReputationEventType,
+    ref: ReputationProposalRef
+): Promise<void> {
+    const user = await tx.user.findUnique({ where: { id: userId }, select: { reputationScore: true } });
+    if (!user) return;
+
+    // Pontuação nunca fica negativa
+    const scoreAfter = Math.max(0, user.reputationScore + REPUTATION_DELTAS[type]);
+
+    await tx.user.update({ where: { id: userId }, data: { reputationScore: scoreAfter } });
+    await tx.reputationEvent.create({
+        data: {
+            userId,
+            type,
+            delta: scoreAfter - user.reputationScore,
+            scoreAfter,
+            ...ref,
+        }
+    });
+}
+
+/**
+ * Atualiza a reputação do proponente e dos revisores quando uma proposta é decidida.
+ * VERIFIED: votos ACCEPT concordaram com o resultado. REJECTED: votos REJECT/PROTEST concordaram.
+ * PROTESTED (ou PENDING) não altera reputação, pois ainda depende de um administrador.
+ */
+export async function applyReputationForOutcome(
+    tx: Prisma.TransactionClient,
+    proposal: { proposerId: string; reviews: { reviewerId: string; vote: ReviewVote }[] },
+    status: ReviewStatus,
+    ref: ReputationProposalRef
+): Promise<void> {
+    if (status !== ReviewStatus.VERIFIED && status !== ReviewStatus.REJECTED) return;
+
+    const proposerEvent = status === ReviewStatus.VERIFIED
+        ? ReputationEventType.PROPOSAL_VERIFIED
+        : ReputationEventType.PROPOSAL_REJECTED;
+    await recordReputationEvent(tx, proposal.proposerId, proposerEvent, ref);
+
+    for (const review of proposal.reviews) {
+        if (review.reviewerId === proposal.proposerId) continue; // Auto-votos não pontuam
+        const agreed = status === ReviewStatus.VERIFIED
+            ? review.vote === ReviewVote.ACCEPT
+            : review.vote !== ReviewVote.ACCEPT;
+        await recordReputationEvent(
+            tx,
+            review.reviewerId,
+            agreed ? ReputationEventType.VOTE_AGREED : ReputationEventType.VOTE_DISAGREED,
+            ref
+        );
+    }
+}
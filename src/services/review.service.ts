@@ -0,0 +1,324 @@
+// src/services/review.service.ts
+// Motor de resolução das propostas da comunidade (contagem de votos, quórum e consenso).
+import { GasStationStatus, Prisma, PrismaClient, ProposalReasonType, ReviewStatus, ReviewVote, StationPriceStatus } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { Bindings } from 'types';
+import { applyReputationForOutcome, getVoteWeight } from './reputation.service';
+
+// --- Configuração ---
+
+export type ReviewThresholds = {
+    quorum: number; // Quantidade mínima de votos (revisores) para que a proposta seja decidida
+    acceptRatio: number; // Fração mínima (0-1) do peso em ACCEPT para verificar a proposta
+    protestVeto: number | null; // Peso de votos PROTEST que leva a proposta para PROTESTED (null: sem veto)
+};
+
+const DEFAULT_THRESHOLDS = {
+    quorum: 5,
+    acceptRatio: 0.6,
+};
+
+// Veto padrão proporcional ao quórum (com o quórum padrão, peso 3 em PROTEST)
+const DEFAULT_PROTEST_VETO_QUORUM_RATIO = 0.6;
+// Além do peso, o veto exige este número de revisores protestando: um único protesto, mesmo
+// de um revisor de reputação alta (peso até 3), não tira a proposta da votação da comunidade
+const MIN_PROTEST_VETO_VOTERS = 2;
+
+const parseThreshold = (value: string | undefined, fallback: number): number => {
+    if (value === undefined || value === '') return fallback;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// REVIEW_PROTEST_VETO aceita '0' ou 'disabled' para desativar o veto
+const parseProtestVeto = (value: string | undefined, quorum: number): number | null => {
+    const trimmed = value?.trim().toLowerCase();
+    if (trimmed === '0' || trimmed === 'disabled') return null;
+    return parseThreshold(trimmed, quorum * DEFAULT_PROTEST_VETO_QUORUM_RATIO);
+};
+
+/**
+ * Lê os limites de quórum/consenso das variáveis de ambiente do Worker,
+ * usando os valores padrão quando não configurados ou inválidos.
+ */
+export const getReviewThresholds = (env: Bindings): ReviewThresholds => {
+    const quorum = parseThreshold(env.REVIEW_QUORUM, DEFAULT_THRESHOLDS.quorum);
+    return {
+        quorum,
+        acceptRatio: Math.min(parseThreshold(env.REVIEW_ACCEPT_RATIO, DEFAULT_THRESHOLDS.acceptRatio), 1),
+        protestVeto: parseProtestVeto(env.REVIEW_PROTEST_VETO, quorum),
+    };
+};
+
+// --- Contagem e Avaliação ---
+
+// Somas ponderadas pela reputação de cada revisor; 'voters' e 'protestVoters' são quantidades de votos
+export type VoteTally = {
+    accept: number;
+    reject: number;
+    protest: number;
+    total: number;
+    voters: number;
+    protestVoters: number;
+};
+
+export type VoteOutcome = {
+    status: ReviewStatus; // PENDING enquanto não houver decisão
+    resolutionNotes: string | null;
+};
+
+export function tallyVotes(votes: { vote: ReviewVote; weight?: number }[]): VoteTally {
+    const tally: VoteTally = { accept: 0, reject: 0, protest: 0, total: 0, voters: 0, protestVoters: 0 };
+    for (const { vote, weight = 1 } of votes) {
+        if (vote === ReviewVote.ACCEPT) tally.accept += weight;
+        else if (vote === ReviewVote.REJECT) tally.reject += weight;
+        else if (vote === ReviewVote.PROTEST) {
+            tally.protest += weight;
+            tally.protestVoters += 1;
+        }
+        tally.total += weight;
+        tally.voters += 1;
+    }
+    return tally;
+}
+
+// Votos como vêm do banco (com a reputação do revisor) => votos ponderados
+const toWeightedVotes = (reviews: { vote: ReviewVote; reviewer: { reputationScore: number } }[]) =>
+    reviews.map(r => ({ vote: r.vote, weight: getVoteWeight(r.reviewer.reputationScore) }));
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+const formatWeight = (weight: number) => weight.toFixed(1);
+
+/**
+ * Decide o status de uma proposta a partir da contagem de votos:
+ * - PROTEST atingindo o veto (se ativo) em peso e em revisores => PROTESTED (independente do quórum)
+ * - Menos votos que o quórum => continua PENDING
+ * - Fração do peso em ACCEPT >= acceptRatio => VERIFIED, senão REJECTED
+ */
+export function evaluateVotes(tally: VoteTally, thresholds: ReviewThresholds): VoteOutcome {
+    const vetoed = thresholds.protestVeto !== null
+        && tally.protest >= thresholds.protestVeto
+        && tally.protestVoters >= MIN_PROTEST_VETO_VOTERS;
+    if (vetoed) {
+        return {
+            status: ReviewStatus.PROTESTED,
+            resolutionNotes: `Protestada por ${tally.protestVoters} revisor(es) (peso ${formatWeight(tally.protest)} de ${formatWeight(tally.total)} em ${tally.voters} voto(s)). Requer análise de um administrador.`,
+        };
+    }
+
+    // O quórum conta revisores; a reputação pesa só na fração de ACCEPT e no veto
+    if (tally.voters < thresholds.quorum) {
+        return { status: ReviewStatus.PENDING, resolutionNotes: null };
+    }
+
+    const acceptRatio = tally.accept / tally.total;
+    if (acceptRatio >= thresholds.acceptRatio) {
+        return {
+            status: ReviewStatus.VERIFIED,
+            resolutionNotes: `Verificada pela comunidade: peso ${formatWeight(tally.accept)} de ${formatWeight(tally.total)} a favor (${formatPercent(acceptRatio)}) em ${tally.voters} voto(s).`,
+        };
+    }
+
+    return {
+        status: ReviewStatus.REJECTED,
+        resolutionNotes: `Rejeitada pela comunidade: peso ${formatWeight(tally.accept)} de ${formatWeight(tally.total)} a favor (${formatPercent(acceptRatio)}, mínimo ${formatPercent(thresholds.acceptRatio)}) em ${tally.voters} voto(s).`,
+    };
+}
+
+// --- Postos (GasStationProposal) ---
+
+// Campos do posto que uma proposta DATA_UPDATE pode alterar
+const STATION_EDITABLE_FIELDS = [
+    'name', 'latitude', 'longitude',
+    'street', 'number', 'complement', 'neighborhood',
+    'city', 'state', 'postalCode', 'country',
+] as const;
+
+/**
+ * Converte o proposedData (Json) de uma proposta DATA_UPDATE em dados de update do posto,
+ * ignorando qualquer chave fora da lista de campos editáveis.
+ */
+function buildStationUpdateFromProposal(proposedData: Prisma.JsonValue): Prisma.GasStationUpdateInput {
+    const data: Record<string, unknown> = {};
+    if (!proposedData || typeof proposedData !== 'object' || Array.isArray(proposedData)) {
+        return data;
+    }
+
+    for (const field of STATION_EDITABLE_FIELDS) {
+        const value = (proposedData as Prisma.JsonObject)[field];
+        if (value !== undefined) data[field] = value;
+    }
+
+    // Mesma normalização aplicada na criação do posto
+    if (typeof data.state === 'string') data.state = data.state.toUpperCase();
+    if (typeof data.postalCode === 'string') data.postalCode = data.postalCode.replace(/\D/g, '');
+
+    return data as Prisma.GasStationUpdateInput;
+}
+
+/**
+ * Aplica no GasStation o efeito de uma proposta resolvida.
+ * INITIAL_CREATION: VERIFIED => ACTIVE, REJECTED => REJECTED.
+ * DATA_UPDATE: VERIFIED => aplica proposedData; demais status não alteram o posto.
+ * PROTESTED não altera o posto (aguarda um administrador).
+ */
+export async function applyGasStationOutcome(
+    tx: Prisma.TransactionClient,
+    proposal: { gasStationId: string; reasonType: ProposalReasonType; proposedData: Prisma.JsonValue },
+    status: ReviewStatus
+): Promise<void> {
+    if (proposal.reasonType === ProposalReasonType.INITIAL_CREATION) {
+        if (status === ReviewStatus.VERIFIED) {
+            await tx.gasStation.update({ where: { id: proposal.gasStationId }, data: { status: GasStationStatus.ACTIVE } });
+        } else if (status === ReviewStatus.REJECTED) {
+            await tx.gasStation.update({ where: { id: proposal.gasStationId }, data: { status: GasStationStatus.REJECTED } });
+        }
+        return;
+    }
+
+    if (proposal.reasonType === ProposalReasonType.DATA_UPDATE && status === ReviewStatus.VERIFIED) {
+        const data = buildStationUpdateFromProposal(proposal.proposedData);
+        if (Object.keys(data).length > 0) {
+            await tx.gasStation.update({ where: { id: proposal.gasStationId }, data });
+        }
+    }
+}
+
+export type ProposalResolution = {
+    id: string;
+    status: ReviewStatus;
+    resolutionNotes: string | null;
+    tally: VoteTally;
+};
+
+/**
+ * Reavalia uma GasStationProposal após um voto. Se quórum/consenso (ou veto) forem atingidos,
+ * atualiza a proposta, o posto e a reputação dos envolvidos na mesma transação.
+ * Propostas já resolvidas não são alteradas.
+ */
+export async function resolveGasStationProposal(
+    prisma: PrismaClient,
+    proposalId: string,
+    thresholds: ReviewThresholds
+): Promise<ProposalResolution> {
+    return prisma.$transaction(async (tx) => {
+        const proposal = await tx.gasStationProposal.findUnique({
+            where: { id: proposalId },
+            include: { reviews: { select: { vote: true, reviewerId: true, reviewer: { select: { reputationScore: true } } } } }
+        });
+        if (!proposal) {
+            throw new AppError('Proposta não encontrada.', 404);
+        }
+
+        const tally = tallyVotes(toWeightedVotes(proposal.reviews));
+        if (proposal.status !== ReviewStatus.PENDING) {
+            return { id: proposal.id, status: proposal.status, resolutionNotes: proposal.resolutionNotes, tally };
+        }
+
+        const outcome = evaluateVotes(tally, thresholds);
+        if (outcome.status === ReviewStatus.PENDING) {
+            return { id: proposal.id, status: proposal.status, resolutionNotes: proposal.resolutionNotes, tally };
+        }
+
+        await tx.gasStationProposal.update({
+            where: { id: proposal.id },
+            data: { status: outcome.status, resolutionNotes: outcome.resolutionNotes }
+        });
+        await applyGasStationOutcome(tx, proposal, outcome.status);
+        await applyReputationForOutcome(tx, proposal, outcome.status, { gasStationProposalId: proposal.id });
+
+        return { id: proposal.id, status: outcome.status, resolutionNotes: outcome.resolutionNotes, tally };
+    });
+}
+
+// --- Preços (StationPriceProposal) ---
+
+/**
+ * Aplica no StationPrice o efeito de uma proposta resolvida.
+ * VERIFIED: o preço vira ACTIVE e os preços ACTIVE anteriores do mesmo posto/combustível viram OUTDATED.
+ * Se já existir um preço ACTIVE reportado depois deste, o preço verificado vai direto para OUTDATED.
+ * REJECTED: o preço vira REJECTED. PROTESTED mantém UNDER_REVIEW (aguarda um administrador).
+ */
+export async function applyStationPriceOutcome(
+    tx: Prisma.TransactionClient,
+    stationPriceId: string,
+    status: ReviewStatus
+): Promise<void> {
+    if (status === ReviewStatus.REJECTED) {
+        await tx.stationPrice.update({ where: { id: stationPriceId }, data: { status: StationPriceStatus.REJECTED } });
+        return;
+    }
+    if (status !== ReviewStatus.VERIFIED) return;
+
+    const price = await tx.stationPrice.findUnique({
+        where: { id: stationPriceId },
+        select: { id: true, gasStationId: true, fuelTypeId: true, reportedAt: true }
+    });
+    if (!price) {
+        throw new AppError('Preço associado à proposta não encontrado.', 404);
+    }
+
+    const newerActivePrice = await tx.stationPrice.findFirst({
+        where: {
+            gasStationId: price.gasStationId,
+            fuelTypeId: price.fuelTypeId,
+            status: StationPriceStatus.ACTIVE,
+            reportedAt: { gt: price.reportedAt },
+        },
+        select: { id: true }
+    });
+    if (newerActivePrice) {
+        await tx.stationPrice.update({ where: { id: price.id }, data: { status: StationPriceStatus.OUTDATED } });
+        return;
+    }
+
+    await tx.stationPrice.updateMany({
+        where: {
+            gasStationId: price.gasStationId,
+            fuelTypeId: price.fuelTypeId,
+            status: StationPriceStatus.ACTIVE,
+            id: { not: price.id },
+        },
+        data: { status: StationPriceStatus.OUTDATED }
+    });
+    await tx.stationPrice.update({ where: { id: price.id }, data: { status: StationPriceStatus.ACTIVE } });
+}
+
+/**
+ * Reavalia uma StationPriceProposal após um voto, atualizando proposta e preço(s)
+ * na mesma transação quando houver decisão.
+ */
+export async function resolveStationPriceProposal(
+    prisma: PrismaClient,
+    proposalId: string,
+    thresholds: ReviewThresholds
+): Promise<ProposalResolution> {
+    return prisma.$transaction(async (tx) => {
+        const proposal = await tx.stationPriceProposal.findUnique({
+            where: { id: proposalId },
+            include: { reviews: { select: { vote: true, reviewerId: true, reviewer: { select: { reputationScore: true } } } } }
+        });
+        if (!proposal) {
+            throw new AppError('Proposta não encontrada.', 404);
+        }
+
+        const tally = tallyVotes(toWeightedVotes(proposal.reviews));
+        if (proposal.status !== ReviewStatus.PENDING) {
+            return { id: proposal.id, status: proposal.status, resolutionNotes: proposal.resolutionNotes, tally };
+        }
+
+        const outcome = evaluateVotes(tally, thresholds);
+        if (outcome.status === ReviewStatus.PENDING) {
+            return { id: proposal.id, status: proposal.status, resolutionNotes: proposal.resolutionNotes, tally };
+        }
+
+        await tx.stationPriceProposal.update({
+            where: { id: proposal.id },
+            data: { status: outcome.status, resolutionNotes: outcome.resolutionNotes }
+        });
+        await applyStationPriceOutcome(tx, proposal.stationPriceId, outcome.status);
+        await applyReputationForOutcome(tx, proposal, outcome.status, { stationPriceProposalId: proposal.id });
+
+        return { id: proposal.id, status: outcome.status, resolutionNotes: outcome.resolutionNotes, tally };
+    });
+}
@@ -0,0 +1,206 @@
+// src/services/session.service.ts
+// Sessões de login: access token JWT curto + refresh token rotativo guardado (em hash) no D1.
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { generateToken } from 'utils/jwt.utils';
+
+export const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+export const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+export type SessionRevokedReason = 'LOGOUT' | 'REVOKED' | 'PASSWORD_CHANGED' | 'PASSWORD_RESET' | 'TOKEN_REUSE';
+
+export type SessionConfig = {
+    jwtSecret: string;
+    accessTokenExpiresIn: string;
+    refreshTokenTtlDays: number;
+};
+
+export type ClientInfo = {
+    userAgent: string | null;
+    ipAddress: string | null;
+    deviceName: string | null; // Informado pelo app (ex: "Pixel 8")
+};
+
+export type IssuedTokens = {
+    token: string; // Access token (JWT)
+    refreshToken: string;
+    sessionId: string;
+    refreshTokenExpiresAt: Date;
+};
+
+export const sessionSelect = {
+    id: true,
+    deviceName: true,
+    userAgent: true,
+    ipAddress: true,
+    createdAt: true,
+    lastUsedAt: true,
+    expiresAt: true,
+} satisfies Prisma.UserSessionSelect;
+
+const hashToken = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+// O refresh token carrega o ID da sessão: "<sessionId>.<segredo>"; só o hash do segredo é salvo
+const newRefreshSecret = (): string => crypto.randomBytes(32).toString('base64url');
+
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+    const separator = refreshToken.indexOf('.');
+    if (separator <= 0 || separator === refreshToken.length - 1) return null;
+    return { sessionId: refreshToken.slice(0, separator), secret: refreshToken.slice(separator + 1) };
+};
+
+const refreshExpiry = (config: SessionConfig): Date => new Date(Date.now() + config.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+/**
+ * Lê a configuração de tokens das variáveis de ambiente (com os padrões acima).
+ */
+export function getSessionConfig(env: { JWT_SECRET: string; JWT_EXPIRES_IN?: string; REFRESH_TOKEN_TTL_DAYS?: string }): SessionConfig {
+    const ttlDays = Number(env.REFRESH_TOKEN_TTL_DAYS);
+    return {
+        jwtSecret: env.JWT_SECRET || 'seu_super_segredo_jwt_aqui',
+        accessTokenExpiresIn: env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_EXPIRES_IN,
+        refreshTokenTtlDays: Number.isFinite(ttlDays) && ttlDays > 0 ? ttlDays : DEFAULT_REFRESH_TOKEN_TTL_DAYS,
+    };
+}
+
+/**
+ * Cria uma sessão para o usuário (login) e emite o par access/refresh token.
+ */
+export async function createSession(
+    prisma: PrismaClient,
+    user: { id: string; roleId: string },
+    client: ClientInfo,
+    config: SessionConfig,
+    { twoFactorVerified = false }: { twoFactorVerified?: boolean } = {}
+): Promise<IssuedTokens> {
+    const secret = newRefreshSecret();
+    const session = await prisma.userSession.create({
+        data: {
+            userId: user.id,
+            twoFactorVerified,
+            refreshTokenHash: hashToken(secret),
+            userAgent: client.userAgent,
+            ipAddress: client.ipAddress,
+            deviceName: client.deviceName,
+            expiresAt: refreshExpiry(config),
+        },
+        select: { id: true, expiresAt: true, user: { select: { role: { select: { permissionsVersion: true } } } } },
+    });
+    return {
+        token: generateToken(
+            { userId: user.id, roleId: user.roleId, sessionId: session.id, permissionsVersion: session.user.role.permissionsVersion },
+            config.jwtSecret,
+            config.accessTokenExpiresIn
+        ),
+        refreshToken: `${session.id}.${secret}`,
+        sessionId: session.id,
+        refreshTokenExpiresAt: session.expiresAt,
+    };
+}
+
+/**
+ * Troca um refresh token válido por um novo par (rotação). Apresentar de novo um refresh
+ * token já trocado indica vazamento: a sessão inteira é revogada.
+ */
+export async function rotateSession(
+    prisma: PrismaClient,
+    refreshToken: string,
+    client: Pick<ClientInfo, 'userAgent' | 'ipAddress'>,
+    config: SessionConfig
+): Promise<IssuedTokens> {
+    const invalid = new AppError('Refresh token inválido ou expirado.', 401);
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) throw invalid;
+
+    const session = await prisma.userSession.findUnique({
+        where: { id: parsed.sessionId },
+        select: {
+            id: true, refreshTokenHash: true, previousRefreshTokenHash: true, expiresAt: true, revokedAt: true,
+            user: { select: { id: true, roleId: true, role: { select: { permissionsVersion: true } } } },
+        },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) throw invalid;
+
+    const presentedHash = hashToken(parsed.secret);
+    if (presentedHash !== session.refreshTokenHash) {
+        if (presentedHash === session.previousRefreshTokenHash) {
+            await revokeSession(prisma, session.id, 'TOKEN_REUSE');
+        }
+        throw invalid;
+    }
+
+    const secret = newRefreshSecret();
+    // A condição no hash evita que duas trocas simultâneas do mesmo token gerem dois pares válidos
+    const { count } = await prisma.userSession.updateMany({
+        where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+        data: {
+            refreshTokenHash: hashToken(secret),
+            previousRefreshTokenHash: presentedHash,
+            lastUsedAt: new Date(),
+            expiresAt: refreshExpiry(config),
+            ...(client.userAgent && { userAgent: client.userAgent }),
+            ...(client.ipAddress && { ipAddress: client.ipAddress }),
+        },
+    });
+    if (count === 0) throw invalid;
+
+    return {
+        token: generateToken(
+            { userId: session.user.id, roleId: session.user.roleId, sessionId: session.id, permissionsVersion: session.user.role.permissionsVersion },
+            config.jwtSecret,
+            config.accessTokenExpiresIn
+        ),
+        refreshToken: `${session.id}.${secret}`,
+        sessionId: session.id,
+        refreshTokenExpiresAt: refreshExpiry(config),
+    };
+}
+
+/**
+ * Revoga a sessão do refresh token informado (logout). Tokens inválidos são ignorados.
+ */
+export async function revokeSessionByRefreshToken(prisma: PrismaClient, refreshToken: string): Promise<boolean> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) return false;
+    const { count } = await prisma.userSession.updateMany({
+        where: { id: parsed.sessionId, refreshTokenHash: hashToken(parsed.secret), revokedAt: null },
+        data: { revokedAt: new Date(), revokedReason: 'LOGOUT' satisfies SessionRevokedReason },
+    });
+    return count > 0;
+}
+
+export async function revokeSession(prisma: PrismaClient, sessionId: string, reason: SessionRevokedReason): Promise<void> {
+    await prisma.userSession.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: new Date(), revokedReason: reason },
+    });
+}
+
+/**
+ * Revoga todas as sessões ativas do usuário, exceto (opcionalmente) a atual.
+ */
+export async function revokeUserSessions(
+    prisma: PrismaClient | Prisma.TransactionClient,
+    userId: string,
+    reason: SessionRevokedReason,
+    exceptSessionId?: string
+): Promise<number> {
+    const { count } = await prisma.userSession.updateMany({
+        where: { userId, revokedAt: null, ...(exceptSessionId && { NOT: { id: exceptSessionId } }) },
+        data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return count;
+}
+
+/**
+ * Sessão válida para o access token (usada pelo middleware protect). Retorna o role ATUAL
+ * do usuário, para que trocas de role valham sem esperar o access token expirar; null se a sessão acabou.
+ */
+export async function getActiveSessionRoleId(prisma: PrismaClient, sessionId: string, userId: string): Promise<string | null> {
+    const session = await prisma.userSession.findFirst({
+        where: { id: sessionId, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        select: { user: { select: { roleId: true } } },
+    });
+    return session?.user.roleId ?? null;
+}
@@ -0,0 +1,147 @@
+// src/services/station.service.ts
+// Busca de postos próximos compatível com D1/SQLite (caixa delimitadora + haversine)
+// e comparação de preços verificados entre os postos encontrados.
+import { GasStationStatus, Prisma, PrismaClient, StationPriceStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Coordinates, getBoundingBox, haversineDistance } from 'utils/geo.util';
+
+export type NearbyStationsOptions = {
+    center: Coordinates;
+    radiusMeters: number;
+    where?: Prisma.GasStationWhereInput; // Filtros adicionais (status, nome...)
+    page: number;
+    limit: number;
+};
+
+export const nearbyStationSelect = {
+    id: true, name: true, latitude: true, longitude: true,
+    street: true, number: true, complement: true, neighborhood: true,
+    city: true, state: true, postalCode: true, country: true,
+    status: true, createdAt: true, updatedAt: true,
+} satisfies Prisma.GasStationSelect;
+
+export type NearbyStation = Prisma.GasStationGetPayload<{ select: typeof nearbyStationSelect }> & {
+    distance_meters: number;
+};
+
+/**
+ * Retorna todos os postos dentro do raio, ordenados pela distância ao centro.
+ * A caixa delimitadora usa o índice (latitude, longitude); a distância exata é
+ * calculada em memória, descartando os cantos da caixa fora do círculo.
+ */
+export async function findStationsWithinRadius(
+    prisma: PrismaClient,
+    center: Coordinates,
+    radiusMeters: number,
+    where: Prisma.GasStationWhereInput = {}
+): Promise<NearbyStation[]> {
+    const box = getBoundingBox(center, radiusMeters);
+    const longitudeFilter: Prisma.GasStationWhereInput = box.crossesAntimeridian
+        ? { OR: [{ longitude: { gte: box.minLongitude } }, { longitude: { lte: box.maxLongitude } }] }
+        : { longitude: { gte: box.minLongitude, lte: box.maxLongitude } };
+
+    const candidates = await prisma.gasStation.findMany({
+        where: {
+            AND: [
+                where,
+                { latitude: { gte: box.minLatitude, lte: box.maxLatitude } },
+                longitudeFilter,
+            ]
+        },
+        select: nearbyStationSelect,
+    });
+
+    return candidates
+        .map(station => ({ ...station, distance_meters: Math.round(haversineDistance(center, station)) }))
+        .filter(station => station.distance_meters <= radiusMeters)
+        .sort((a, b) => a.distance_meters - b.distance_meters);
+}
+
+/**
+ * Página de postos próximos (mais perto primeiro) e o total dentro do raio.
+ */
+export async function findNearbyStations(
+    prisma: PrismaClient,
+    { center, radiusMeters, where, page, limit }: NearbyStationsOptions
+): Promise<{ stations: NearbyStation[]; totalCount: number }> {
+    const withinRadius = await findStationsWithinRadius(prisma, center, radiusMeters, where);
+    const skip = (page - 1) * limit;
+    return { stations: withinRadius.slice(skip, skip + limit), totalCount: withinRadius.length };
+}
+
+// --- Comparação de Preços ---
+
+// O D1 limita a quantidade de parâmetros por consulta; listas de IDs são consultadas em lotes
+const ID_BATCH_SIZE = 50;
+
+// Idade (em horas) usada para classificar o frescor do preço
+const FRESH_PRICE_MAX_HOURS = 24;
+const RECENT_PRICE_MAX_HOURS = 72;
+
+export type PriceFreshness = 'FRESH' | 'RECENT' | 'STALE';
+
+export type StationPriceComparison = NearbyStation & {
+    rank: number;
+    stationPriceId: string;
+    price: Decimal;
+    reportedAt: Date;
+    priceAgeHours: number;
+    freshness: PriceFreshness;
+    estimatedFillCost: Decimal | null; // null quando não há litros para estimar
+};
+
+const classifyFreshness = (ageHours: number): PriceFreshness => {
+    if (ageHours <= FRESH_PRICE_MAX_HOURS) return 'FRESH';
+    if (ageHours <= RECENT_PRICE_MAX_HOURS) return 'RECENT';
+    return 'STALE';
+};
+
+/**
+ * Postos ATIVOS dentro do raio com preço verificado (ACTIVE) para o combustível,
+ * do mais barato para o mais caro (empate: o mais próximo primeiro).
+ * Postos sem preço verificado para o combustível ficam de fora.
+ */
+export async function compareNearbyStationPrices(
+    prisma: PrismaClient,
+    center: Coordinates,
+    radiusMeters: number,
+    fuelTypeId: string,
+    fillLiters: number | null
+): Promise<StationPriceComparison[]> {
+    const stations = await findStationsWithinRadius(prisma, center, radiusMeters, { status: GasStationStatus.ACTIVE });
+    if (stations.length === 0) return [];
+
+    // Preço ACTIVE mais recente de cada posto (ordenado por reportedAt desc, o primeiro vence)
+    const latestPriceByStation = new Map<string, { id: string; price: Decimal; reportedAt: Date }>();
+    for (let i = 0; i < stations.length; i += ID_BATCH_SIZE) {
+        const ids = stations.slice(i, i + ID_BATCH_SIZE).map(station => station.id);
+        const prices = await prisma.stationPrice.findMany({
+            where: { gasStationId: { in: ids }, fuelTypeId, status: StationPriceStatus.ACTIVE },
+            orderBy: { reportedAt: 'desc' },
+            select: { id: true, price: true, reportedAt: true, gasStationId: true },
+        });
+        for (const { gasStationId, ...price } of prices) {
+            if (!latestPriceByStation.has(gasStationId)) latestPriceByStation.set(gasStationId, price);
+        }
+    }
+
+    const now = Date.now();
+    return stations
+        .filter(station => latestPriceByStation.has(station.id))
+        .map(station => {
+            const { id: stationPriceId, price, reportedAt } = latestPriceByStation.get(station.id)!;
+            const priceAgeHours = Math.round((now - reportedAt.getTime()) / 36e5 * 10) / 10;
+            return {
+                ...station,
+                rank: 0,
+                stationPriceId,
+                price,
+                reportedAt,
+                priceAgeHours,
+                freshness: classifyFreshness(priceAgeHours),
+                estimatedFillCost: fillLiters !== null ? price.times(fillLiters).toDecimalPlaces(2) : null,
+            };
+        })
+        .sort((a, b) => a.price.comparedTo(b.price) || a.distance_meters - b.distance_meters)
+        .map((station, index) => ({ ...station, rank: index + 1 }));
+}
@@ -0,0 +1,107 @@
+// src/services/trash.service.ts
+// Lixeira: veículos, gastos, abastecimentos e notas excluídos recebem deletedAt e ficam fora das
+// listagens e relatórios; podem ser restaurados durante a retenção e depois são excluídos de vez.
+// Itens de um veículo na lixeira somem junto com ele e voltam quando ele é restaurado.
+import { Prisma, PrismaClient } from '@prisma/client';
+import AppError from 'utils/AppError';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Dias de retenção na lixeira (TRASH_RETENTION_DAYS, padrão 30).
+ */
+export function getTrashRetentionDays(env: { TRASH_RETENTION_DAYS?: string }): number {
+    const days = Number(env.TRASH_RETENTION_DAYS);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+const retentionCutoff = (retentionDays: number): Date => new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+const purgeDate = (deletedAt: Date, retentionDays: number): Date => new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+
+// Gastos e abastecimentos ativos: fora da lixeira e sem veículo na lixeira (desvinculados não têm veículo)
+export const activeGeneralExpenseWhere: Prisma.GeneralExpenseWhereInput = {
+    deletedAt: null,
+    OR: [{ vehicleId: null }, { vehicle: { deletedAt: null } }],
+};
+
+export const activeFuelingWhere: Prisma.FuelingWhereInput = {
+    deletedAt: null,
+    OR: [{ vehicleId: null }, { vehicle: { deletedAt: null } }],
+};
+
+/**
+ * Confere se o registro pode sair da lixeira: 409 se não está nela, 410 se a retenção acabou
+ * (a exclusão definitiva ainda não rodou) e 409 se o veículo dele também está na lixeira.
+ */
+export function assertRestorable(
+    record: { deletedAt: Date | null; vehicle?: { deletedAt: Date | null } | null },
+    retentionDays: number
+): void {
+    if (!record.deletedAt) {
+        throw new AppError('Este item não está na lixeira.', 409);
+    }
+    if (record.deletedAt <= retentionCutoff(retentionDays)) {
+        throw new AppError(`O prazo de ${retentionDays} dias para restaurar este item terminou.`, 410);
+    }
+    if (record.vehicle?.deletedAt) {
+        throw new AppError('O veículo deste item está na lixeira. Restaure o veículo primeiro.', 409);
+    }
+}
+
+/**
+ * Lixeira do usuário: veículos próprios e os itens excluídos dos seus veículos ativos (ou, se
+ * desvinculados numa transferência, registrados por ele), com a data da exclusão definitiva.
+ */
+export async function listTrash(prisma: PrismaClient, userId: string, retentionDays: number) {
+    const deletedSince = { deletedAt: { gt: retentionCutoff(retentionDays) } };
+    const ownActiveVehicle = { vehicle: { ownerId: userId, deletedAt: null } };
+    const vehicleSelect = { select: { id: true, alias: true } };
+
+    const [vehicles, generalExpenses, fuelings, notes] = await Promise.all([
+        prisma.vehicle.findMany({
+            where: { ownerId: userId, ...deletedSince },
+            orderBy: { deletedAt: 'desc' },
+            select: { id: true, alias: true, plate: true, brand: true, model: true, deletedAt: true },
+        }),
+        prisma.generalExpense.findMany({
+            where: { ...deletedSince, OR: [ownActiveVehicle, { vehicleId: null, userId }] },
+            orderBy: { deletedAt: 'desc' },
+            select: { id: true, description: true, cost: true, expenseDate: true, vehicleLabel: true, deletedAt: true, vehicle: vehicleSelect },
+        }),
+        prisma.fueling.findMany({
+            where: { ...deletedSince, OR: [ownActiveVehicle, { vehicleId: null, userId }] },
+            orderBy: { deletedAt: 'desc' },
+            select: { id: true, cost: true, volume: true, timestamp: true, vehicleLabel: true, deletedAt: true, vehicle: vehicleSelect },
+        }),
+        prisma.noteReminder.findMany({
+            where: { ...deletedSince, ...ownActiveVehicle },
+            orderBy: { deletedAt: 'desc' },
+            select: { id: true, title: true, reminderDate: true, deletedAt: true, vehicle: vehicleSelect },
+        }),
+    ]);
+
+    const withPurgeDate = <T extends { deletedAt: Date | null }>(item: T) => ({ ...item, purgeAt: purgeDate(item.deletedAt!, retentionDays) });
+    return {
+        retentionDays,
+        vehicles: vehicles.map(withPurgeDate),
+        generalExpenses: generalExpenses.map(withPurgeDate),
+        fuelings: fuelings.map(withPurgeDate),
+        notes: notes.map(withPurgeDate),
+    };
+}
+
+/**
+ * Exclui de vez o que está na lixeira há mais que a retenção (executada pelo cron do Worker).
+ * Veículos levam junto todo o histórico (exclusão em cascata).
+ */
+export async function purgeExpiredTrash(prisma: PrismaClient, retentionDays: number) {
+    const expired = { deletedAt: { lte: retentionCutoff(retentionDays) } };
+
+    const generalExpenses = await prisma.generalExpense.deleteMany({ where: expired });
+    const fuelings = await prisma.fueling.deleteMany({ where: expired });
+    const notes = await prisma.noteReminder.deleteMany({ where: expired });
+    const vehicles = await prisma.vehicle.deleteMany({ where: expired });
+
+    return { vehicles: vehicles.count, generalExpenses: generalExpenses.count, fuelings: fuelings.count, notes: notes.count };
+}
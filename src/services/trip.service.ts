@@ -0,0 +1,62 @@
+// src/services/trip.service.ts
+// Escolha da taxa de consumo (km/L) de uma viagem a partir da velocidade média.
+import { TripDrivingProfile } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import AppError from 'utils/AppError';
+
+// Até CITY_MAX_SPEED_KMH a viagem é urbana; a partir de ROAD_MIN_SPEED_KMH, estrada.
+// Entre os dois, a parcela de estrada cresce linearmente com a velocidade (getRoadShare).
+const CITY_MAX_SPEED_KMH = 35;
+const ROAD_MIN_SPEED_KMH = 70;
+
+export type ConsumptionSelection = {
+    drivingProfile: TripDrivingProfile;
+    averageSpeedKmh: Decimal | null; // null quando a duração da viagem é zero
+    roadShare: number; // Fração (0-1) da distância considerada estrada
+    consumptionRate: Decimal; // km/L
+};
+
+export const getRoadShare = (averageSpeedKmh: number): number => {
+    if (averageSpeedKmh <= CITY_MAX_SPEED_KMH) return 0;
+    if (averageSpeedKmh >= ROAD_MIN_SPEED_KMH) return 1;
+    return (averageSpeedKmh - CITY_MAX_SPEED_KMH) / (ROAD_MIN_SPEED_KMH - CITY_MAX_SPEED_KMH);
+};
+
+/**
+ * Classifica a viagem (CITY/ROAD/MIXED) pela velocidade média e calcula a taxa usando
+ * kmlCity/kmlRoad do veículo. Na mistura, a média é harmônica ponderada pela distância,
+ * para que o combustível seja a soma do consumido em cada parcela.
+ * Se o veículo tiver apenas uma das taxas, ela é usada para toda a viagem.
+ */
+export function selectConsumptionRate(
+    vehicle: { kmlCity: number | null; kmlRoad: number | null },
+    distanceKm: Decimal,
+    startTime: Date,
+    endTime: Date
+): ConsumptionSelection {
+    const kmlCity = vehicle.kmlCity && vehicle.kmlCity > 0 ? vehicle.kmlCity : null;
+    const kmlRoad = vehicle.kmlRoad && vehicle.kmlRoad > 0 ? vehicle.kmlRoad : null;
+    if (kmlCity === null && kmlRoad === null) {
+        throw new AppError('O veículo não possui consumo (kmlCity/kmlRoad) cadastrado. Informe a taxa de consumo da viagem.', 400);
+    }
+
+    const hours = (endTime.getTime() - startTime.getTime()) / 36e5;
+    const averageSpeed = hours > 0 ? distanceKm.toNumber() / hours : null;
+    // Sem duração não há velocidade: trata como meio a meio
+    const roadShare = averageSpeed !== null ? getRoadShare(averageSpeed) : 0.5;
+    const drivingProfile = roadShare === 0
+        ? TripDrivingProfile.CITY
+        : roadShare === 1 ? TripDrivingProfile.ROAD : TripDrivingProfile.MIXED;
+
+    let rate: number;
+    if (kmlCity === null) rate = kmlRoad!;
+    else if (kmlRoad === null) rate = kmlCity;
+    else rate = 1 / ((1 - roadShare) / kmlCity + roadShare / kmlRoad);
+
+    return {
+        drivingProfile,
+        averageSpeedKmh: averageSpeed !== null ? new Decimal(averageSpeed).toDecimalPlaces(2, Decimal.ROUND_HALF_UP) : null,
+        roadShare: Math.round(roadShare * 100) / 100,
+        consumptionRate: new Decimal(rate).toDecimalPlaces(3, Decimal.ROUND_HALF_UP),
+    };
+}
@@ -0,0 +1,140 @@
+// src/services/twoFactor.service.ts
+// Autenticação em dois fatores (TOTP): cadastro, confirmação, desativação e códigos de recuperação.
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { comparePassword } from 'utils/password.util';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from 'utils/totp.util';
+
+const TWO_FACTOR_ISSUER = 'Kontado';
+const RECOVERY_CODE_COUNT = 10;
+
+export type SecondFactorInput = {
+    code?: string; // Código TOTP do aplicativo autenticador
+    recoveryCode?: string; // Código de recuperação (uso único)
+};
+
+// Formato "xxxx-xxxx" (hex); o hash ignora o hífen e maiúsculas
+const generateRecoveryCode = (): string => {
+    const raw = crypto.randomBytes(4).toString('hex');
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+};
+const hashRecoveryCode = (code: string): string =>
+    crypto.createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+
+async function replaceRecoveryCodes(prisma: PrismaClient, userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await prisma.$transaction([
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        prisma.twoFactorRecoveryCode.createMany({ data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })) }),
+    ]);
+    return codes; // Exibidos uma única vez; só os hashes ficam salvos
+}
+
+/**
+ * Confere o segundo fator: código TOTP (não reutilizável) ou código de recuperação (consumido).
+ */
+export async function verifySecondFactor(prisma: PrismaClient, userId: string, input: SecondFactorInput): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorSecret: true, twoFactorEnabledAt: true, twoFactorLastUsedStep: true },
+    });
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) return false;
+
+    if (input.code) {
+        const step = verifyTotp(user.twoFactorSecret, input.code, user.twoFactorLastUsedStep);
+        if (step === null) return false;
+        // A condição impede que duas requisições simultâneas usem o mesmo código
+        const { count } = await prisma.user.updateMany({
+            where: { id: userId, OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }] },
+            data: { twoFactorLastUsedStep: step },
+        });
+        return count > 0;
+    }
+
+    if (input.recoveryCode) {
+        const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+            where: { userId, codeHash: hashRecoveryCode(input.recoveryCode), usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        return count > 0;
+    }
+    return false;
+}
+
+export async function getTwoFactorStatus(prisma: PrismaClient, userId: string) {
+    const [user, remainingRecoveryCodes] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId }, select: { twoFactorEnabledAt: true, twoFactorPendingSecret: true } }),
+        prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+    ]);
+    return {
+        enabled: Boolean(user?.twoFactorEnabledAt),
+        enabledAt: user?.twoFactorEnabledAt ?? null,
+        enrollmentPending: Boolean(user?.twoFactorPendingSecret),
+        remainingRecoveryCodes,
+    };
+}
+
+/**
+ * Gera um segredo pendente e a URI otpauth:// (para o QR code). Só passa a valer após confirmEnrollment.
+ */
+export async function startEnrollment(prisma: PrismaClient, userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true, twoFactorEnabledAt: true } });
+    if (!user) throw new AppError('Usuário não encontrado.', 404);
+    if (user.twoFactorEnabledAt) throw new AppError('A autenticação em dois fatores já está ativa.', 409);
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({ where: { id: userId }, data: { twoFactorPendingSecret: secret } });
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER) };
+}
+
+/**
+ * Confirma o cadastro com um código do autenticador, ativa o 2FA e devolve os códigos de recuperação.
+ */
+export async function confirmEnrollment(prisma: PrismaClient, userId: string, code: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { twoFactorPendingSecret: true, twoFactorEnabledAt: true } });
+    if (!user) throw new AppError('Usuário não encontrado.', 404);
+    if (user.twoFactorEnabledAt) throw new AppError('A autenticação em dois fatores já está ativa.', 409);
+    if (!user.twoFactorPendingSecret) throw new AppError('Inicie o cadastro do 2FA antes de confirmar.', 400);
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) throw new AppError('Código inválido.', 400);
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: {
+            twoFactorSecret: user.twoFactorPendingSecret,
+            twoFactorPendingSecret: null,
+            twoFactorEnabledAt: new Date(),
+            twoFactorLastUsedStep: step,
+        },
+    });
+    return replaceRecoveryCodes(prisma, userId);
+}
+
+/**
+ * Desativa o 2FA: exige a senha e um segundo fator válido.
+ */
+export async function disableTwoFactor(prisma: PrismaClient, userId: string, password: string, factor: SecondFactorInput): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { password: true, twoFactorEnabledAt: true } });
+    if (!user) throw new AppError('Usuário não encontrado.', 404);
+    if (!user.twoFactorEnabledAt) throw new AppError('A autenticação em dois fatores não está ativa.', 409);
+    if (!(await comparePassword(password, user.password))) throw new AppError('Senha incorreta.', 401);
+    if (!(await verifySecondFactor(prisma, userId, factor))) throw new AppError('Código de verificação inválido.', 401);
+
+    await prisma.$transaction([
+        prisma.user.update({
+            where: { id: userId },
+            data: { twoFactorSecret: null, twoFactorPendingSecret: null, twoFactorEnabledAt: null, twoFactorLastUsedStep: null },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+}
+
+/**
+ * Gera novos códigos de recuperação (invalida os anteriores) após conferir um código TOTP.
+ */
+export async function regenerateRecoveryCodes(prisma: PrismaClient, userId: string, code: string): Promise<string[]> {
+    if (!(await verifySecondFactor(prisma, userId, { code }))) throw new AppError('Código de verificação inválido.', 401);
+    return replaceRecoveryCodes(prisma, userId);
+}
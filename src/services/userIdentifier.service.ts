@@ -0,0 +1,56 @@
+// src/services/userIdentifier.service.ts
+// Migração dos usuários antigos para email/username normalizados (ver utils/identifier.util).
+import { PrismaClient } from '@prisma/client';
+import { normalizeEmail, normalizeUsername } from 'utils/identifier.util';
+
+const NORMALIZE_BATCH_SIZE = 200;
+
+export type NormalizeIdentifiersResult = {
+    updated: number;
+    // Usuários cujo valor normalizado já pertence a outra conta: precisam de ajuste manual
+    conflicts: { userId: string; field: 'email' | 'username'; value: string }[];
+};
+
+/**
+ * Normaliza email e username de todos os usuários. Idempotente: roda no seed e pode
+ * ser repetida. Registros que colidiriam com outra conta são mantidos e reportados.
+ */
+export async function normalizeUserIdentifiers(prisma: PrismaClient): Promise<NormalizeIdentifiersResult> {
+    const result: NormalizeIdentifiersResult = { updated: 0, conflicts: [] };
+    let cursor: string | undefined;
+
+    while (true) {
+        const users = await prisma.user.findMany({
+            select: { id: true, email: true, username: true },
+            orderBy: { id: 'asc' },
+            take: NORMALIZE_BATCH_SIZE,
+            ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+        if (users.length === 0) break;
+        cursor = users[users.length - 1].id;
+
+        for (const user of users) {
+            const data: { email?: string; username?: string } = {};
+            const email = normalizeEmail(user.email);
+            const username = normalizeUsername(user.username);
+
+            if (email !== user.email) {
+                const taken = await prisma.user.findFirst({ where: { email, NOT: { id: user.id } }, select: { id: true } });
+                if (taken) result.conflicts.push({ userId: user.id, field: 'email', value: email });
+                else data.email = email;
+            }
+            if (username !== user.username) {
+                const taken = await prisma.user.findFirst({ where: { username, NOT: { id: user.id } }, select: { id: true } });
+                if (taken) result.conflicts.push({ userId: user.id, field: 'username', value: username });
+                else data.username = username;
+            }
+
+            if (data.email || data.username) {
+                await prisma.user.update({ where: { id: user.id }, data });
+                result.updated++;
+            }
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,149 @@
+// src/services/vehicleShare.service.ts
+// Compartilhamento de veículos (UserVehicleAuthorization): papéis (VIEWER < DRIVER < MANAGER),
+// validade opcional e convites que o convidado aceita ou recusa.
+import { Prisma, PrismaClient, VehicleShareRole, VehicleShareStatus } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { escapeHtml } from 'utils/html.util';
+import { userWhereByIdentifier } from 'utils/identifier.util';
+import { EmailEnv, getEmailProvider } from './email.service';
+
+const SHARE_ROLE_RANK: Record<VehicleShareRole, number> = {
+    [VehicleShareRole.VIEWER]: 1,
+    [VehicleShareRole.DRIVER]: 2,
+    [VehicleShareRole.MANAGER]: 3,
+};
+
+export const hasShareRole = (role: VehicleShareRole, required: VehicleShareRole): boolean =>
+    SHARE_ROLE_RANK[role] >= SHARE_ROLE_RANK[required];
+
+/**
+ * Compartilhamentos que dão acesso ao veículo: aceitos e dentro da validade.
+ */
+export const activeShareWhere = (userId: string): Prisma.UserVehicleAuthorizationWhereInput => ({
+    userId,
+    status: VehicleShareStatus.ACCEPTED,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+export const vehicleShareSelect = {
+    role: true,
+    status: true,
+    expiresAt: true,
+    respondedAt: true,
+    createdAt: true,
+    user: { select: { id: true, username: true } },
+} satisfies Prisma.UserVehicleAuthorizationSelect;
+
+const invitationSelect = {
+    role: true,
+    status: true,
+    expiresAt: true,
+    createdAt: true,
+    vehicle: { select: { id: true, alias: true, plate: true, owner: { select: { id: true, username: true } } } },
+} satisfies Prisma.UserVehicleAuthorizationSelect;
+
+const isExpired = (share: { expiresAt: Date | null }): boolean => share.expiresAt !== null && share.expiresAt <= new Date();
+
+export type ShareInvitee = { userId: string } | { identifier: string }; // Identificador: email ou username
+
+/**
+ * Convida um usuário para o veículo. Convites recusados ou compartilhamentos expirados podem
+ * ser refeitos; um convite pendente ou um compartilhamento ativo retornam 409.
+ */
+export async function inviteToVehicle(
+    prisma: PrismaClient,
+    vehicle: { id: string; alias: string; ownerId: string },
+    invitee: ShareInvitee,
+    { role, expiresAt }: { role: VehicleShareRole; expiresAt?: Date },
+    emailEnv: EmailEnv
+) {
+    const user = await prisma.user.findUnique({
+        where: 'userId' in invitee ? { id: invitee.userId } : userWhereByIdentifier(invitee.identifier),
+        select: { id: true, name: true, email: true },
+    });
+    if (!user) throw new AppError('Usuário não encontrado.', 404);
+    if (user.id === vehicle.ownerId) throw new AppError('O proprietário não precisa ser convidado.', 400);
+
+    const existing = await prisma.userVehicleAuthorization.findUnique({
+        where: { userId_vehicleId: { userId: user.id, vehicleId: vehicle.id } },
+        select: { status: true, expiresAt: true },
+    });
+    if (existing?.status === VehicleShareStatus.PENDING) {
+        throw new AppError('Já existe um convite pendente para este usuário.', 409);
+    }
+    if (existing?.status === VehicleShareStatus.ACCEPTED && !isExpired(existing)) {
+        throw new AppError('O veículo já está compartilhado com este usuário. Altere o papel ou a validade do compartilhamento.', 409);
+    }
+
+    const data = { role, expiresAt: expiresAt ?? null, status: VehicleShareStatus.PENDING, respondedAt: null };
+    const share = await prisma.userVehicleAuthorization.upsert({
+        where: { userId_vehicleId: { userId: user.id, vehicleId: vehicle.id } },
+        create: { userId: user.id, vehicleId: vehicle.id, createdInApp: true, ...data },
+        update: data,
+        select: vehicleShareSelect,
+    });
+
+    // O convite vale mesmo se o email falhar (ou o provedor não estiver configurado):
+    // ele também aparece em /users/me/vehicle-invitations
+    try {
+        await getEmailProvider(emailEnv).send({
+            to: user.email,
+            subject: 'Convite para compartilhar um veículo - Kontado',
+            html: `
+      <p>Olá, ${escapeHtml(user.name)}.</p>
+      <p>Você foi convidado(a) para acessar o veículo <strong>${escapeHtml(vehicle.alias)}</strong> como ${escapeHtml(role)}.</p>
+      <p>Abra o app para aceitar ou recusar o convite.</p>
+    `,
+            text: `Você foi convidado(a) para acessar o veículo ${vehicle.alias} como ${role}. Abra o app para aceitar ou recusar o convite.`,
+        });
+    } catch (error) {
+        console.error(`Erro ao enviar o convite do veículo ${vehicle.id} para o usuário ${user.id}:`, error);
+    }
+
+    return share;
+}
+
+/**
+ * Convites pendentes (e ainda válidos) recebidos pelo usuário.
+ */
+export async function listPendingInvitations(prisma: PrismaClient, userId: string) {
+    return prisma.userVehicleAuthorization.findMany({
+        where: {
+            userId,
+            status: VehicleShareStatus.PENDING,
+            OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        orderBy: { createdAt: 'desc' },
+        select: invitationSelect,
+    });
+}
+
+/**
+ * Aceita ou recusa o convite pendente do veículo.
+ */
+export async function respondToInvitation(prisma: PrismaClient, userId: string, vehicleId: string, accept: boolean) {
+    const invitation = await prisma.userVehicleAuthorization.findUnique({
+        where: { userId_vehicleId: { userId, vehicleId } },
+        select: { status: true, expiresAt: true },
+    });
+    if (!invitation || invitation.status !== VehicleShareStatus.PENDING) {
+        throw new AppError('Convite não encontrado.', 404);
+    }
+    if (isExpired(invitation)) {
+        throw new AppError('Este convite expirou. Peça um novo convite ao proprietário.', 410);
+    }
+
+    // A condição no status impede responder duas vezes em requisições simultâneas
+    const { count } = await prisma.userVehicleAuthorization.updateMany({
+        where: { userId, vehicleId, status: VehicleShareStatus.PENDING },
+        data: { status: accept ? VehicleShareStatus.ACCEPTED : VehicleShareStatus.DECLINED, respondedAt: new Date() },
+    });
+    if (count === 0) throw new AppError('Convite não encontrado.', 404);
+
+    const share = await prisma.userVehicleAuthorization.findUnique({
+        where: { userId_vehicleId: { userId, vehicleId } },
+        select: invitationSelect,
+    });
+    if (!share) throw new AppError('Convite não encontrado.', 404);
+    return share;
+}
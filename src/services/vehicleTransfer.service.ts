@@ -0,0 +1,209 @@
+// src/services/vehicleTransfer.service.ts
+// Transferência de propriedade do veículo (venda/repasse): o proprietário indica o destinatário
+// por email ou username e escolhe o histórico que acompanha o veículo; o destinatário aceita ou recusa.
+import { Prisma, PrismaClient, VehicleTransferStatus } from '@prisma/client';
+import AppError from 'utils/AppError';
+import { escapeHtml } from 'utils/html.util';
+import { userWhereByIdentifier } from 'utils/identifier.util';
+import { EmailEnv, getEmailProvider } from './email.service';
+
+export const VEHICLE_TRANSFER_TTL_DAYS = 7;
+
+// Histórico que acompanha o veículo (padrão: todo)
+export type TransferHistoryOptions = {
+    fuelings: boolean;
+    expenses: boolean;
+    trips: boolean;
+    notes: boolean;
+};
+
+export const vehicleTransferSelect = {
+    id: true,
+    status: true,
+    transferFuelings: true,
+    transferExpenses: true,
+    transferTrips: true,
+    transferNotes: true,
+    expiresAt: true,
+    respondedAt: true,
+    createdAt: true,
+    vehicle: { select: { id: true, alias: true, plate: true } },
+    fromUser: { select: { id: true, username: true } },
+    toUser: { select: { id: true, username: true } },
+} satisfies Prisma.VehicleTransferSelect;
+
+const isExpired = (transfer: { expiresAt: Date }): boolean => transfer.expiresAt <= new Date();
+
+/**
+ * Inicia a transferência do veículo para outro usuário. Só pode haver uma pendente por veículo (409).
+ */
+export async function initiateVehicleTransfer(
+    prisma: PrismaClient,
+    vehicle: { id: string; alias: string; ownerId: string },
+    identifier: string,
+    history: TransferHistoryOptions,
+    emailEnv: EmailEnv
+) {
+    const recipient = await prisma.user.findUnique({
+        where: userWhereByIdentifier(identifier),
+        select: { id: true, name: true, email: true },
+    });
+    if (!recipient) throw new AppError('Usuário não encontrado.', 404);
+    if (recipient.id === vehicle.ownerId) throw new AppError('O veículo já pertence a este usuário.', 400);
+
+    const pending = await prisma.vehicleTransfer.findFirst({
+        where: { vehicleId: vehicle.id, status: VehicleTransferStatus.PENDING, expiresAt: { gt: new Date() } },
+        select: { id: true },
+    });
+    if (pending) {
+        throw new AppError('Já existe uma transferência pendente para este veículo. Cancele-a antes de iniciar outra.', 409);
+    }
+
+    const transfer = await prisma.vehicleTransfer.create({
+        data: {
+            vehicleId: vehicle.id,
+            fromUserId: vehicle.ownerId,
+            toUserId: recipient.id,
+            transferFuelings: history.fuelings,
+            transferExpenses: history.expenses,
+            transferTrips: history.trips,
+            transferNotes: history.notes,
+            expiresAt: new Date(Date.now() + VEHICLE_TRANSFER_TTL_DAYS * 24 * 60 * 60 * 1000),
+        },
+        select: vehicleTransferSelect,
+    });
+
+    // A transferência vale mesmo se o email falhar (ou o provedor não estiver configurado):
+    // ela também aparece em /users/me/vehicle-transfers
+    try {
+        await getEmailProvider(emailEnv).send({
+            to: recipient.email,
+            subject: 'Transferência de veículo - Kontado',
+            html: `
+      <p>Olá, ${escapeHtml(recipient.name)}.</p>
+      <p>O veículo <strong>${escapeHtml(vehicle.alias)}</strong> está sendo transferido para você.</p>
+      <p>Abra o app em até ${VEHICLE_TRANSFER_TTL_DAYS} dias para aceitar ou recusar a transferência.</p>
+    `,
+            text: `O veículo ${vehicle.alias} está sendo transferido para você. Abra o app em até ${VEHICLE_TRANSFER_TTL_DAYS} dias para aceitar ou recusar a transferência.`,
+        });
+    } catch (error) {
+        console.error(`Erro ao enviar a transferência do veículo ${vehicle.id} para o usuário ${recipient.id}:`, error);
+    }
+
+    return transfer;
+}
+
+/**
+ * Transferências iniciadas pelo proprietário atual do veículo (as de proprietários anteriores não aparecem).
+ */
+export async function listVehicleTransfers(prisma: PrismaClient, vehicle: { id: string; ownerId: string }) {
+    return prisma.vehicleTransfer.findMany({
+        where: { vehicleId: vehicle.id, fromUserId: vehicle.ownerId },
+        orderBy: { createdAt: 'desc' },
+        select: vehicleTransferSelect,
+    });
+}
+
+/**
+ * Transferências pendentes (e ainda válidas) recebidas pelo usuário.
+ */
+export async function listPendingTransfers(prisma: PrismaClient, userId: string) {
+    return prisma.vehicleTransfer.findMany({
+        where: { toUserId: userId, status: VehicleTransferStatus.PENDING, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' },
+        select: vehicleTransferSelect,
+    });
+}
+
+/**
+ * Cancela a transferência pendente (proprietário).
+ */
+export async function cancelVehicleTransfer(prisma: PrismaClient, vehicleId: string, transferId: string) {
+    const { count } = await prisma.vehicleTransfer.updateMany({
+        where: { id: transferId, vehicleId, status: VehicleTransferStatus.PENDING },
+        data: { status: VehicleTransferStatus.CANCELLED, respondedAt: new Date() },
+    });
+    if (count === 0) throw new AppError('Transferência pendente não encontrada.', 404);
+}
+
+/**
+ * Recusa a transferência pendente (destinatário).
+ */
+export async function declineVehicleTransfer(prisma: PrismaClient, userId: string, transferId: string) {
+    const { count } = await prisma.vehicleTransfer.updateMany({
+        where: { id: transferId, toUserId: userId, status: VehicleTransferStatus.PENDING },
+        data: { status: VehicleTransferStatus.DECLINED, respondedAt: new Date() },
+    });
+    if (count === 0) throw new AppError('Transferência não encontrada.', 404);
+
+    const transfer = await prisma.vehicleTransfer.findUnique({ where: { id: transferId }, select: vehicleTransferSelect });
+    if (!transfer) throw new AppError('Transferência não encontrada.', 404);
+    return transfer;
+}
+
+/**
+ * Aceita a transferência: o destinatário passa a ser o proprietário e os compartilhamentos
+ * (inclusive convites pendentes) são removidos. Abastecimentos, gastos e orçamentos anteriores são
+ * desvinculados do veículo e continuam com quem os registrou (e nos seus relatórios), fora do
+ * alcance do novo proprietário e da exclusão do veículo; os que acompanham o veículo são copiados
+ * para o novo proprietário. Viagens e notas que não acompanham o veículo são excluídas.
+ */
+export async function acceptVehicleTransfer(prisma: PrismaClient, userId: string, transferId: string) {
+    return prisma.$transaction(async (tx) => {
+        const transfer = await tx.vehicleTransfer.findUnique({
+            where: { id: transferId },
+            include: { vehicle: { select: { id: true, alias: true, plate: true, ownerId: true } } },
+        });
+        if (!transfer || transfer.toUserId !== userId || transfer.status !== VehicleTransferStatus.PENDING) {
+            throw new AppError('Transferência não encontrada.', 404);
+        }
+        if (isExpired(transfer)) {
+            throw new AppError('Esta transferência expirou. Peça ao proprietário para iniciá-la de novo.', 410);
+        }
+        if (transfer.vehicle.ownerId !== transfer.fromUserId) {
+            throw new AppError('O veículo mudou de proprietário desde o pedido de transferência.', 409);
+        }
+
+        // A condição no status impede aceitar duas vezes em requisições simultâneas
+        const { count } = await tx.vehicleTransfer.updateMany({
+            where: { id: transferId, status: VehicleTransferStatus.PENDING },
+            data: { status: VehicleTransferStatus.ACCEPTED, respondedAt: new Date() },
+        });
+        if (count === 0) throw new AppError('Transferência não encontrada.', 404);
+
+        const vehicleId = transfer.vehicleId;
+        // Histórico que acompanha o veículo, lido antes de desvincular (os da lixeira não vão junto)
+        const fuelings = transfer.transferFuelings ? await tx.fueling.findMany({ where: { vehicleId, deletedAt: null } }) : [];
+        const expenses = transfer.transferExpenses ? await tx.generalExpense.findMany({ where: { vehicleId, deletedAt: null } }) : [];
+
+        const detached = { vehicleId: null, vehicleLabel: `${transfer.vehicle.alias} (${transfer.vehicle.plate})` };
+        await tx.fueling.updateMany({ where: { vehicleId }, data: detached });
+        await tx.generalExpense.updateMany({ where: { vehicleId }, data: detached });
+        // Orçamentos de quem perde o veículo acompanham os gastos desvinculados (status pelo vehicleLabel)
+        await tx.budget.updateMany({ where: { vehicleId, userId: { not: userId } }, data: detached });
+
+        if (fuelings.length > 0) {
+            await tx.fueling.createMany({
+                data: fuelings.map(({ id, vehicleLabel, createdAt, updatedAt, deletedAt, ...fueling }) => ({ ...fueling, userId })),
+            });
+        }
+        if (expenses.length > 0) {
+            await tx.generalExpense.createMany({
+                data: expenses.map(({ id, vehicleLabel, createdAt, updatedAt, deletedAt, ...expense }) => ({ ...expense, userId })),
+            });
+        }
+        if (!transfer.transferTrips) {
+            await tx.trip.deleteMany({ where: { vehicleId } });
+        }
+        if (!transfer.transferNotes) {
+            await tx.noteReminder.deleteMany({ where: { vehicleId } });
+        }
+
+        await tx.userVehicleAuthorization.deleteMany({ where: { vehicleId } });
+        await tx.vehicle.update({ where: { id: vehicleId }, data: { ownerId: userId } });
+
+        const accepted = await tx.vehicleTransfer.findUnique({ where: { id: transferId }, select: vehicleTransferSelect });
+        if (!accepted) throw new AppError('Transferência não encontrada.', 404);
+        return accepted;
+    });
+}
@@ -1,16 +1,37 @@
 import { PrismaD1 } from "@prisma/adapter-d1";
 import { DefaultArgs } from "@prisma/client/runtime/library";
+import { ResourceAccess } from "services/policy.service";
 
 export type Bindings = {
     DB: D1Database,
     JWT_SECRET: string,
-    JWT_EXPIRES_IN: string,
+    JWT_EXPIRES_IN?: string, // Validade do access token (padrão "15m")
+    REFRESH_TOKEN_TTL_DAYS?: string, // Validade do refresh token em dias (padrão 30)
+    // Limite de requisições (ver services/rateLimit.service.ts)
+    RATE_LIMIT_STORE?: string, // 'd1' | 'kv' | 'memory'
+    RATE_LIMIT_KV?: KVNamespace,
+    // Cache das permissões dos roles (ver services/permissionCache.service.ts)
+    PERMISSION_CACHE_STORE?: string, // 'kv' | 'd1' | 'memory'
+    PERMISSION_CACHE_KV?: KVNamespace,
+    // Envio de emails (ver services/email.service.ts)
+    EMAIL_PROVIDER?: string,
+    EMAIL_FROM?: string,
+    EMAIL_FILE_PATH?: string,
+    EMAIL_HTTP_URL?: string,
+    EMAIL_HTTP_API_KEY?: string,
+    // Limites da revisão comunitária (opcionais, ver services/review.service.ts)
+    REVIEW_QUORUM?: string,
+    REVIEW_ACCEPT_RATIO?: string,
+    REVIEW_PROTEST_VETO?: string,
+    TRASH_RETENTION_DAYS?: string, // Dias para restaurar itens excluídos (padrão 30, ver services/trash.service.ts)
 }
 
 // Define the structure of the 'user' object we'll set in the context
 export type UserVariable = {
     id: string;
     roleId: string;
+    sessionId: string; // Sessão do access token (para revogar/identificar o dispositivo atual)
+    permissionsVersion?: number; // Versão das permissões do role no token (ausente se o role mudou depois da emissão)
     // Add other fields from JWT payload if needed
 };
 
@@ -20,6 +41,7 @@ export type Variables = {
     prisma?: PrismaClient<{
         adapter: PrismaD1;
     }, never, DefaultArgs>;
+    resourceAccess?: ResourceAccess; // Recurso autorizado por authorizeResource
     // Add other potential variables here if needed
 };
 
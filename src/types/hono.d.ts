@@ -3,6 +3,7 @@ import { PrismaD1 } from '@prisma/adapter-d1';
 import { DefaultArgs } from '@prisma/client/runtime/library';
 import 'hono'; // Import to ensure module augmentation works
 import { Bindings, UserVariable, Variables } from 'types';
+import { ResourceAccess } from 'services/policy.service';
 
 // Augment Hono's Context interface
 declare module 'hono' {
@@ -11,6 +12,7 @@ declare module 'hono' {
         prisma: PrismaClient<{
             adapter: PrismaD1;
         }, never, DefaultArgs> | undefined;
+        resourceAccess: ResourceAccess | undefined; // Definido por authorizeResource
         // Define types for other variables if you add them
     }
 
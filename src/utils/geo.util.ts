@@ -0,0 +1,60 @@
+// src/utils/geo.util.ts
+// Cálculos geográficos simples (sem PostGIS): distância haversine e caixa delimitadora.
+
+const EARTH_RADIUS_METERS = 6371008.8; // Raio médio da Terra
+const METERS_PER_DEGREE_LAT = 111320;
+
+export type Coordinates = {
+    latitude: number;
+    longitude: number;
+};
+
+export type BoundingBox = {
+    minLatitude: number;
+    maxLatitude: number;
+    minLongitude: number;
+    maxLongitude: number;
+    crossesAntimeridian: boolean; // Quando true, a longitude é [minLongitude, 180] ∪ [-180, maxLongitude]
+};
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/**
+ * Distância em metros entre dois pontos pela fórmula de haversine.
+ */
+export const haversineDistance = (from: Coordinates, to: Coordinates): number => {
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLon = toRadians(to.longitude - from.longitude);
+    const a = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Caixa que contém o círculo de raio `radiusMeters` em torno do centro.
+ * Usada como pré-filtro no índice (latitude, longitude) antes do cálculo exato.
+ */
+export const getBoundingBox = (center: Coordinates, radiusMeters: number): BoundingBox => {
+    const deltaLat = radiusMeters / METERS_PER_DEGREE_LAT;
+    const minLatitude = Math.max(-90, center.latitude - deltaLat);
+    const maxLatitude = Math.min(90, center.latitude + deltaLat);
+
+    // Perto dos polos (ou com raios enormes) a caixa cobre todas as longitudes
+    const cosLat = Math.cos(toRadians(Math.max(Math.abs(minLatitude), Math.abs(maxLatitude))));
+    const deltaLon = cosLat > 0 ? radiusMeters / (METERS_PER_DEGREE_LAT * cosLat) : 360;
+    if (deltaLon >= 180) {
+        return { minLatitude, maxLatitude, minLongitude: -180, maxLongitude: 180, crossesAntimeridian: false };
+    }
+
+    let minLongitude = center.longitude - deltaLon;
+    let maxLongitude = center.longitude + deltaLon;
+    let crossesAntimeridian = false;
+    if (minLongitude < -180) {
+        minLongitude += 360;
+        crossesAntimeridian = true;
+    } else if (maxLongitude > 180) {
+        maxLongitude -= 360;
+        crossesAntimeridian = true;
+    }
+    return { minLatitude, maxLatitude, minLongitude, maxLongitude, crossesAntimeridian };
+};
@@ -0,0 +1,13 @@
+// src/utils/html.util.ts
+// Escape de valores interpolados no HTML dos emails (nomes, apelidos de veículo etc. vêm do usuário).
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+export const escapeHtml = (value: string | number): string =>
+    String(value).replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
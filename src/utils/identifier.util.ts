@@ -0,0 +1,21 @@
+// src/utils/identifier.util.ts
+// Email e username são guardados normalizados (sem espaços nas pontas, minúsculos):
+// assim a busca exata no banco já é case-insensitive e os índices únicos continuam valendo.
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const normalizeUsername = (username: string): string => username.trim().toLowerCase();
+
+// Usernames não aceitam '@', então qualquer identificador com '@' é um email
+export const isEmailIdentifier = (identifier: string): boolean => identifier.includes('@');
+
+export const normalizeIdentifier = (identifier: string): string =>
+    isEmailIdentifier(identifier) ? normalizeEmail(identifier) : normalizeUsername(identifier);
+
+/**
+ * Filtro do Prisma para localizar o usuário pelo identificador do login (email ou username).
+ */
+export const userWhereByIdentifier = (identifier: string): { email: string } | { username: string } =>
+    isEmailIdentifier(identifier)
+        ? { email: normalizeEmail(identifier) }
+        : { username: normalizeUsername(identifier) };
@@ -12,6 +12,8 @@ import 'dotenv/config';
 interface JwtPayload {
   userId: string;
   roleId: string;
+  sessionId: string; // Sessão (refresh token) que emitiu o access token
+  permissionsVersion?: number; // Role.permissionsVersion na emissão (tokens antigos não têm)
   // Adicione outros dados que você queira no payload (ex: username, roles)
   // Mas mantenha o payload pequeno!
 }
@@ -29,4 +31,28 @@ export const verifyToken = (token: string, secret: string): JwtPayload | null =>
     console.error('Erro ao verificar token JWT:', error);
     return null;
   }
-};
\ No newline at end of file
+};
+
+// --- Desafio de 2FA (login com senha correta aguardando o segundo fator) ---
+
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: '2fa_challenge'; // Impede o uso como access token (não tem sessionId)
+  deviceName?: string;
+}
+
+export const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
+export const generateTwoFactorChallenge = (userId: string, secret: string, deviceName?: string): string => {
+  const payload: TwoFactorChallengePayload = { userId, purpose: '2fa_challenge', ...(deviceName && { deviceName }) };
+  return jwt.sign(payload, secret, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN } as jwt.SignOptions);
+};
+
+export const verifyTwoFactorChallenge = (token: string, secret: string): TwoFactorChallengePayload | null => {
+  try {
+    const payload = jwt.verify(token, secret) as TwoFactorChallengePayload;
+    return payload.purpose === '2fa_challenge' && payload.userId ? payload : null;
+  } catch {
+    return null;
+  }
+};
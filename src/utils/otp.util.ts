@@ -0,0 +1,21 @@
+// src/utils/otp.util.ts
+// Códigos numéricos de uso único (OTP) enviados por email: geração, hash e comparação.
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+
+export const generateOtp = (length: number = 6): string => {
+    if (length <= 0) {
+        throw new Error("OTP length must be positive");
+    }
+    return crypto.randomInt(0, 10 ** length).toString().padStart(length, '0');
+};
+
+// O ID do usuário entra no hash: códigos iguais de usuários diferentes não colidem em índices únicos
+export const hashOtp = (userId: string, code: string): string =>
+    crypto.createHash('sha256').update(`${userId}:${code}`).digest('hex');
+
+// Comparação em tempo constante do hash do código informado com o armazenado
+export const otpMatches = (userId: string, code: string, storedHash: string): boolean => {
+    const hash = hashOtp(userId, code);
+    return hash.length === storedHash.length && crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(storedHash));
+};
@@ -11,15 +11,27 @@ export default {
         read: 'note:read:own',
         update: 'note:update:own',
         delete: 'note:delete:own',
+        // Escopo ":any": dados de qualquer usuário (ver services/policy.service.ts)
+        create_any: 'note:create:any',
+        read_any: 'note:read:any',
+        update_any: 'note:update:any',
+        delete_any: 'note:delete:any',
     },
     todo: {
-        manage: 'todo:manage:own'
+        manage: 'todo:manage:own',
+        manage_any: 'todo:manage:any',
     },
     vehicle: {
         create: 'vehicle:create',
         read: 'vehicle:read:own',
         update: 'vehicle:update:own',
         delete: 'vehicle:delete:own',
+        transfer: 'vehicle:transfer:own',
+        read_any: 'vehicle:read:any',
+        update_any: 'vehicle:update:any',
+        delete_any: 'vehicle:delete:any',
+        authorize_any: 'vehicle:authorize:any',
+        transfer_any: 'vehicle:transfer:any',
     },
     station: {
         create: 'station:propose:create',
@@ -30,6 +42,10 @@ export default {
         update: 'price:propose:update',
         read: 'price:read:any',
     },
+    community: {
+        // Permite propor postos/preços e votar sem ter confirmado o email
+        unverified: 'community:participate:unverified',
+    },
     review: {
         review: 'proposal:review',
         read_pending: 'proposal:read:pending',
@@ -40,10 +56,15 @@ export default {
         read: 'expense:read:own',
         update: 'expense:update:own',
         delete: 'expense:delete:own',
+        create_any: 'expense:create:any',
+        read_any: 'expense:read:any',
+        update_any: 'expense:update:any',
+        delete_any: 'expense:delete:any',
     },
     feature: {
         advanced_report: 'feature:access:advanced_reports',
         price_comparison: 'feature:access:price_comparison',
+        two_factor: 'feature:access:two_factor',
         authorize: 'vehicle:authorize:own'
     },
     admin: {
@@ -64,6 +85,9 @@ export default {
         read: 'budget:read:own', 
         update: 'budget:update:own',
         delete: 'budget:delete:own',
+        read_any: 'budget:read:any',
+        update_any: 'budget:update:any',
+        delete_any: 'budget:delete:any',
     }
 
 } as const ;
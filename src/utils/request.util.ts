@@ -0,0 +1,8 @@
+// src/utils/request.util.ts
+import { Context } from 'hono';
+
+/**
+ * IP do cliente: o Cloudflare envia CF-Connecting-IP; X-Forwarded-For cobre proxies em desenvolvimento.
+ */
+export const getClientIp = (c: Context): string | null =>
+    c.req.header('CF-Connecting-IP') ?? c.req.header('X-Forwarded-For')?.split(',')[0].trim() ?? null;
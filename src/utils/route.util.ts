@@ -0,0 +1,193 @@
+// src/utils/route.util.ts
+// Trajetos de viagem: decodificação (GeoJSON/polyline), distância, saltos de GPS e simplificação.
+import { Coordinates, haversineDistance } from './geo.util';
+
+// Salto de GPS: o trajeto se afasta e volta (ida e volta) mais que isto em poucos pontos
+const GPS_SPIKE_MIN_METERS = 500;
+// ...e volta para perto de onde estava: a menos desta fração da distância do afastamento
+const GPS_SPIKE_RETURN_RATIO = 0.25;
+// Máximo de pontos consecutivos fora do trajeto num mesmo salto
+const GPS_SPIKE_MAX_POINTS = 3;
+// Trecho longo entre pontos consecutivos (rodovia com poucos pontos, túnel sem sinal): entra na
+// distância, mas é sinalizado no resumo do trajeto
+const LONG_SEGMENT_MIN_METERS = 2000;
+// Tolerância da simplificação Douglas-Peucker (desvio máximo da linha original)
+const SIMPLIFY_TOLERANCE_METERS = 10;
+
+export type GeoJsonLineString = {
+    type: 'LineString';
+    coordinates: [number, number][]; // [longitude, latitude], como na especificação GeoJSON
+};
+
+export type EncodedPolyline = {
+    type: 'Polyline';
+    encoded: string;
+    precision?: number; // 5 (Google) ou 6 (OSRM/Valhalla)
+};
+
+export type RouteInput = GeoJsonLineString | EncodedPolyline;
+
+export type GpsJump = {
+    index: number; // Índice do primeiro ponto descartado
+    pointCount: number; // Pontos descartados
+    distanceMeters: number; // Afastamento do trajeto
+};
+
+export type LongSegment = {
+    index: number; // Índice do ponto onde o trecho termina
+    distanceMeters: number;
+};
+
+export type ProcessedRoute = {
+    distanceMeters: number; // Soma dos trechos, sem os saltos de GPS
+    pointCount: number;
+    gpsJumps: GpsJump[];
+    longSegments: LongSegment[];
+    simplified: GeoJsonLineString;
+};
+
+/**
+ * Decodifica uma polyline no formato do Google (Encoded Polyline Algorithm).
+ */
+export function decodePolyline(encoded: string, precision = 5): Coordinates[] {
+    const factor = 10 ** precision;
+    const points: Coordinates[] = [];
+    let index = 0;
+    let latitude = 0;
+    let longitude = 0;
+
+    const readValue = (): number => {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            if (index >= encoded.length) throw new Error('Polyline truncada.');
+            byte = encoded.charCodeAt(index++) - 63;
+            result |= (byte & 0x1f) << shift;
+            shift += 5;
+        } while (byte >= 0x20);
+        return (result & 1) ? ~(result >> 1) : (result >> 1);
+    };
+
+    while (index < encoded.length) {
+        latitude += readValue();
+        longitude += readValue();
+        points.push({ latitude: latitude / factor, longitude: longitude / factor });
+    }
+    return points;
+}
+
+export function toCoordinates(route: RouteInput): Coordinates[] {
+    if (route.type === 'Polyline') {
+        return decodePolyline(route.encoded, route.precision);
+    }
+    return route.coordinates.map(([longitude, latitude]) => ({ latitude, longitude }));
+}
+
+export function toLineString(points: Coordinates[]): GeoJsonLineString {
+    return { type: 'LineString', coordinates: points.map(point => [point.longitude, point.latitude]) };
+}
+
+// Distância (m) de um ponto ao segmento AB, numa projeção plana local (suficiente para trechos curtos)
+function perpendicularDistance(point: Coordinates, a: Coordinates, b: Coordinates): number {
+    const metersPerDegreeLat = 111320;
+    const metersPerDegreeLon = metersPerDegreeLat * Math.cos(a.latitude * Math.PI / 180);
+    const project = (p: Coordinates) => ({
+        x: (p.longitude - a.longitude) * metersPerDegreeLon,
+        y: (p.latitude - a.latitude) * metersPerDegreeLat,
+    });
+    const p = project(point);
+    const end = project(b);
+    const lengthSquared = end.x ** 2 + end.y ** 2;
+    if (lengthSquared === 0) return Math.hypot(p.x, p.y);
+    const t = Math.max(0, Math.min(1, (p.x * end.x + p.y * end.y) / lengthSquared));
+    return Math.hypot(p.x - t * end.x, p.y - t * end.y);
+}
+
+/**
+ * Simplificação Douglas-Peucker (iterativa, para não estourar a pilha em trajetos longos).
+ */
+export function simplifyRoute(points: Coordinates[], toleranceMeters = SIMPLIFY_TOLERANCE_METERS): Coordinates[] {
+    if (points.length <= 2) return points.slice();
+
+    const keep = new Array<boolean>(points.length).fill(false);
+    keep[0] = keep[points.length - 1] = true;
+    const stack: [number, number][] = [[0, points.length - 1]];
+
+    while (stack.length > 0) {
+        const [start, end] = stack.pop()!;
+        let maxDistance = 0;
+        let maxIndex = -1;
+        for (let i = start + 1; i < end; i++) {
+            const distance = perpendicularDistance(points[i], points[start], points[end]);
+            if (distance > maxDistance) {
+                maxDistance = distance;
+                maxIndex = i;
+            }
+        }
+        if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+            keep[maxIndex] = true;
+            stack.push([start, maxIndex], [maxIndex, end]);
+        }
+    }
+    return points.filter((_, i) => keep[i]);
+}
+
+// Procura o retorno de um salto que começa em points[start]: o primeiro ponto, nos próximos
+// GPS_SPIKE_MAX_POINTS, que volta para perto de `from` depois de um trecho de volta longo.
+// Retorna o índice desse ponto ou -1 (não é salto).
+function findSpikeReturn(points: Coordinates[], from: Coordinates, start: number): number {
+    const excursion = haversineDistance(from, points[start]);
+    if (excursion <= GPS_SPIKE_MIN_METERS) return -1;
+
+    const last = Math.min(start + GPS_SPIKE_MAX_POINTS, points.length - 1);
+    for (let j = start + 1; j <= last; j++) {
+        const backLeg = haversineDistance(points[j - 1], points[j]);
+        if (backLeg > GPS_SPIKE_MIN_METERS && haversineDistance(from, points[j]) < excursion * GPS_SPIKE_RETURN_RATIO) {
+            return j;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Calcula a distância do trajeto com haversine e gera a versão simplificada. Saltos de GPS
+ * (o ponto se afasta e volta para perto de onde estava, ida e volta) são descartados; trechos
+ * longos sem esse retorno são percorridos de verdade e entram na distância, mas são sinalizados.
+ */
+export function processRoute(route: RouteInput): ProcessedRoute {
+    const points = toCoordinates(route);
+    const gpsJumps: GpsJump[] = [];
+    const longSegments: LongSegment[] = [];
+    const kept: Coordinates[] = points.slice(0, 1);
+    let distanceMeters = 0;
+
+    for (let i = 1; i < points.length; i++) {
+        const previous = kept[kept.length - 1];
+        const spikeReturn = findSpikeReturn(points, previous, i);
+        if (spikeReturn !== -1) {
+            gpsJumps.push({
+                index: i,
+                pointCount: spikeReturn - i,
+                distanceMeters: Math.round(haversineDistance(previous, points[i])),
+            });
+            i = spikeReturn - 1; // Continua do ponto de retorno
+            continue;
+        }
+
+        const segment = haversineDistance(previous, points[i]);
+        if (segment > LONG_SEGMENT_MIN_METERS) {
+            longSegments.push({ index: i, distanceMeters: Math.round(segment) });
+        }
+        distanceMeters += segment;
+        kept.push(points[i]);
+    }
+
+    return {
+        distanceMeters,
+        pointCount: points.length,
+        gpsJumps,
+        longSegments,
+        simplified: toLineString(simplifyRoute(kept)),
+    };
+}
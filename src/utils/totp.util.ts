@@ -0,0 +1,79 @@
+// src/utils/totp.util.ts
+// TOTP (RFC 6238) compatível com Google Authenticator/Authy: HMAC-SHA1, 6 dígitos, passos de 30 s.
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Passos aceitos antes/depois do atual (tolerância a relógio dessincronizado)
+const TOTP_WINDOW = 1;
+
+export function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+}
+
+export function base32Decode(input: string): Buffer {
+    const clean = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Segredo base32 inválido.');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * Segredo aleatório de 160 bits em base32 (tamanho recomendado pela RFC 4226).
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string =>
+    `otpauth://totp/${encodeURIComponent(`${issuer}:${accountName}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+export const getTotpStep = (at: number = Date.now()): number => Math.floor(at / 1000 / TOTP_STEP_SECONDS);
+
+export function generateTotp(secret: string, step: number = getTotpStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Confere o código dentro da janela de tolerância. Retorna o passo que casou (para impedir
+ * reuso do mesmo código) ou null. Passos até `afterStep` (inclusive) são recusados.
+ */
+export function verifyTotp(secret: string, code: string, afterStep: number | null = null): number | null {
+    if (!/^\d{6}$/.test(code)) return null;
+    const current = getTotpStep();
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+        const step = current + offset;
+        if (afterStep !== null && step <= afterStep) continue;
+        const expected = generateTotp(secret, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+    }
+    return null;
+}
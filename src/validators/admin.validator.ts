@@ -0,0 +1,84 @@
+// src/validators/admin.validator.ts
+import { z } from 'zod';
+
+const roleNameSchema = z.string({ required_error: 'Nome do role é obrigatório.' })
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z][A-Z0-9_]{1,49}$/, { message: 'Nome do role deve ter de 2 a 50 caracteres (letras, números e _), ex: FLEET_MANAGER.' });
+
+const paginationQuery = {
+    page: z.coerce.number().int().positive().default(1).optional(),
+    limit: z.coerce.number().int().positive().max(100).default(20).optional(),
+};
+
+export const roleIdParamSchema = z.object({
+    params: z.object({
+        roleId: z.string().uuid({ message: 'ID do role inválido (deve ser UUID).' }),
+    }),
+});
+
+export const userIdParamSchema = z.object({
+    params: z.object({
+        userId: z.string().uuid({ message: 'ID de usuário inválido (deve ser UUID).' }),
+    }),
+});
+
+// Schema para Criar Role (POST /admin/roles)
+export const createRoleSchema = z.object({
+    body: z.object({
+        name: roleNameSchema,
+        description: z.string().trim().max(255).optional(),
+        requiresTwoFactor: z.boolean().optional(),
+    }),
+});
+
+// Schema para Atualizar Role (PATCH /admin/roles/:roleId)
+export const updateRoleSchema = z.object({
+    body: z.object({
+        name: roleNameSchema.optional(),
+        description: z.string().trim().max(255).nullable().optional(),
+        requiresTwoFactor: z.boolean().optional(),
+    }).refine(data => Object.keys(data).length > 0, {
+        message: 'Pelo menos um campo (name, description ou requiresTwoFactor) deve ser fornecido.',
+    }),
+});
+
+// Schema para Vincular Permissões a um Role (POST /admin/roles/:roleId/permissions)
+export const attachPermissionsSchema = z.object({
+    body: z.object({
+        permissions: z.array(z.string().trim().min(1), { required_error: 'Lista de permissões é obrigatória.' })
+            .min(1, { message: 'Informe pelo menos uma permissão.' })
+            .max(100),
+    }),
+});
+
+// Schema para Desvincular Permissão (DELETE /admin/roles/:roleId/permissions/:permissionId)
+export const rolePermissionParamSchema = z.object({
+    params: z.object({
+        roleId: z.string().uuid({ message: 'ID do role inválido (deve ser UUID).' }),
+        permissionId: z.string().uuid({ message: 'ID da permissão inválido (deve ser UUID).' }),
+    }),
+});
+
+// Schema para Atribuir Role a um Usuário (PUT /admin/users/:userId/role)
+export const assignRoleSchema = z.object({
+    body: z.object({
+        roleId: z.string({ required_error: 'ID do role é obrigatório.' }).uuid({ message: 'ID do role inválido (deve ser UUID).' }),
+    }),
+});
+
+// Schema para Listar Usuários de um Role (GET /admin/roles/:roleId/users)
+export const roleUsersQuerySchema = z.object({
+    query: z.object({
+        ...paginationQuery,
+        search: z.string().trim().toLowerCase().min(1).max(100).optional(), // Parte do email ou username
+    }).optional(),
+});
+
+
+// Tipos inferidos para uso nos controladores
+export type CreateRoleInput = z.infer<typeof createRoleSchema>['body'];
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>['body'];
+export type AttachPermissionsInput = z.infer<typeof attachPermissionsSchema>['body'];
+export type AssignRoleInput = z.infer<typeof assignRoleSchema>['body'];
+export type RoleUsersQuery = z.infer<typeof roleUsersQuerySchema>['query'];
@@ -0,0 +1,35 @@
+// src/validators/alert.validator.ts
+import { VehicleAlertStatus } from '@prisma/client';
+import { z } from 'zod';
+
+const vehicleIdParamSchema = z.object({
+    vehicleId: z.string().uuid("ID do veículo inválido."),
+});
+
+const alertIdParamSchema = z.object({
+    alertId: z.string().uuid("ID do alerta inválido."),
+});
+
+// Schema para Listar Alertas do veículo
+export const listAlertsSchema = z.object({
+    params: vehicleIdParamSchema,
+    query: z.object({
+        status: z.nativeEnum(VehicleAlertStatus, { errorMap: () => ({ message: 'Status do alerta inválido.' }) }).optional(),
+        // Posição atual do usuário; sem ela, as recomendações usam o fim do trajeto da viagem
+        lat: z.coerce.number().min(-90, "Latitude inválida.").max(90, "Latitude inválida.").optional(),
+        lng: z.coerce.number().min(-180, "Longitude inválida.").max(180, "Longitude inválida.").optional(),
+        radius: z.coerce.number().positive().max(100).default(10).optional(), // km
+        page: z.coerce.number().int().positive().default(1).optional(),
+        limit: z.coerce.number().int().positive().max(50).default(15).optional(),
+    }).refine(data => (data.lat === undefined) === (data.lng === undefined), {
+        message: "Informe latitude e longitude juntas.",
+        path: ['lat'],
+    }).optional(),
+});
+
+// Schema para Reconhecer/Dispensar um alerta
+export const alertActionSchema = z.object({
+    params: vehicleIdParamSchema.merge(alertIdParamSchema),
+});
+
+export type ListAlertsQuery = z.infer<typeof listAlertsSchema>['query'];
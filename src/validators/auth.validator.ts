@@ -1,18 +1,27 @@
 // src/validators/auth.validator.ts
 import { z } from 'zod';
 
+// Email e username chegam normalizados (trim + minúsculas), como são guardados no banco
+const emailSchema = z.string({ required_error: 'Email é obrigatório.' })
+    .trim()
+    .toLowerCase()
+    .email({ message: 'Formato de email inválido.' });
+
 // Schema para Registro
 export const registerSchema = z.object({
     body: z.object({
         name: z.string({ required_error: 'Nome é obrigatório.' })
             .min(1, { message: 'Nome não pode ser vazio.' }),
         username: z.string({ required_error: 'Nome de usuário é obrigatório.' })
+            .trim()
+            .toLowerCase()
             .min(3, { message: 'Nome de usuário deve ter pelo menos 3 caracteres.' })
+            // Sem '@', para o login distinguir username de email
+            .regex(/^[^@\s]+$/, { message: 'Nome de usuário não pode conter @ nem espaços.' })
         // Regex opcional para validar caracteres permitidos (ex: letras, números, _)
         // .regex(/^[a-zA-Z0-9_]+$/, { message: 'Nome de usuário pode conter apenas letras, números e _' })
         ,
-        email: z.string({ required_error: 'Email é obrigatório.' })
-            .email({ message: 'Formato de email inválido.' }),
+        email: emailSchema,
         password: z.string({ required_error: 'Senha é obrigatória.' })
             .min(8, { message: 'Senha deve ter pelo menos 8 caracteres.' })
         // Opcional: Adicionar regex para complexidade (ex: maiúscula, minúscula, número)
@@ -27,31 +36,66 @@ export const testSchema = z.object({
     }),
 });
 
-// Schema para Login
+// Schema para Login (por email ou nome de usuário)
 export const loginSchema = z.object({
     body: z.object({
-        email: z.string({ required_error: 'Email é obrigatório.' })
-            .email({ message: 'Formato de email inválido.' }),
+        identifier: z.string({ required_error: 'Email ou nome de usuário é obrigatório.' })
+            .trim()
+            .toLowerCase()
+            .min(1, { message: 'Email ou nome de usuário não pode ser vazio.' }),
         password: z.string({ required_error: 'Senha é obrigatória.' })
             .min(1, { message: 'Senha não pode ser vazia.' }), // Mínimo 1, a verificação real é no compare
+        deviceName: z.string().trim().min(1).max(100).optional(), // Exibido na lista de sessões
+    }),
+});
+
+// Schema para concluir o login com o segundo fator (TOTP ou código de recuperação)
+export const loginTwoFactorSchema = z.object({
+    body: z.object({
+        challengeToken: z.string({ required_error: 'Token de desafio é obrigatório.' })
+            .min(1, { message: 'Token de desafio não pode ser vazio.' }),
+        code: z.string().regex(/^\d{6}$/, { message: 'Código deve ter 6 dígitos.' }).optional(),
+        recoveryCode: z.string().trim().min(1).max(20).optional(),
+    }).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+        message: 'Informe o código do autenticador ou um código de recuperação.',
+        path: ['code'],
+    }),
+});
+
+// Schema para Renovar o Access Token / Logout
+export const refreshTokenSchema = z.object({
+    body: z.object({
+        refreshToken: z.string({ required_error: 'Refresh token é obrigatório.' })
+            .min(1, { message: 'Refresh token não pode ser vazio.' }),
     }),
 });
 
 // Schema para Solicitar Reset de Senha
 export const forgotPasswordSchema = z.object({
     body: z.object({
-        email: z.string({ required_error: 'Email é obrigatório.' })
-            .email({ message: 'Formato de email inválido.' }),
+        email: emailSchema,
     }),
 });
 
+const resetCodeSchema = z.string({ required_error: 'Código de verificação é obrigatório.' })
+    .regex(/^\d{6}$/, { message: 'Código deve ter 6 dígitos.' });
+
+// Schema para Verificar o Código de Reset
+export const verifyResetCodeSchema = z.object({
+    body: z.object({
+        email: emailSchema,
+        code: resetCodeSchema,
+    }),
+});
+
+// Schema para Verificar o Email do cadastro (mesmo formato do código de reset)
+export const verifyEmailSchema = verifyResetCodeSchema;
+
 export const resetPasswordSchema = z.object({
     // Não tem mais params.token
     body: z.object({
-        email: z.string({ required_error: 'Email é obrigatório.' })
-            .email({ message: 'Formato de email inválido.' }),
-        code: z.string({ required_error: 'Código de verificação é obrigatório.' })
-            .length(6, { message: 'Código deve ter 6 dígitos.' }), // Ajuste o tamanho se necessário
+        email: emailSchema,
+        code: resetCodeSchema,
         password: z.string({ required_error: 'Nova senha é obrigatória.' })
             .min(8, { message: 'Nova senha deve ter pelo menos 8 caracteres.' }),
         // .regex(...) // Validação de complexidade opcional
@@ -63,4 +107,8 @@ export const resetPasswordSchema = z.object({
 export type RegisterInput = z.infer<typeof registerSchema>['body'];
 export type LoginInput = z.infer<typeof loginSchema>['body'];
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>['body'];
-export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>['body'];
\ No newline at end of file
+export type VerifyResetCodeInput = z.infer<typeof verifyResetCodeSchema>['body'];
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>['body'];
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>['body'];
+export type LoginTwoFactorInput = z.infer<typeof loginTwoFactorSchema>['body'];
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>['body'];
\ No newline at end of file
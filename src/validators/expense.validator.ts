@@ -71,10 +71,11 @@ const fuelingBaseSchema = {
     pricePerLiter: z.coerce.number({ invalid_type_error: "Preço por litro deve ser um número." })
         .positive("Preço por litro deve ser positivo.")
         .optional(), // <<<<<<< MADE OPTIONAL HERE
-    // volume: z.coerce.number({ invalid_type_error: "Volume deve ser um número." }).positive("Volume deve ser positivo.").optional(),
+    volume: z.coerce.number({ invalid_type_error: "Volume deve ser um número." }).positive("Volume deve ser positivo.").optional(), // Litros (padrão: custo / preço)
     timestamp: z.coerce.date({ invalid_type_error: "Timestamp inválido." }).optional(), // Defaults to now
     fuelTypeId: z.string({ required_error: "ID do tipo de combustível é obrigatório." }).uuid(),
-    // odometer: z.coerce.number({ invalid_type_error: "Hodômetro deve ser um número." }).nonnegative("Hodômetro não pode ser negativo.").optional(),
+    odometer: z.coerce.number({ invalid_type_error: "Hodômetro deve ser um número." }).nonnegative("Hodômetro não pode ser negativo.").optional(),
+    isFullTank: z.boolean({ invalid_type_error: "isFullTank deve ser booleano." }).default(true),
     gasStationId: z.string().uuid({ message: "ID do posto inválido." }).optional(),
     // Latitude and Longitude are now REQUIRED input
     latitude: z.coerce.number({ required_error: "Latitude é obrigatória.", invalid_type_error: "Latitude inválida." }).min(-90).max(90),
@@ -91,10 +92,10 @@ export const createFuelingSchema = z.object({
             if (data.gasStationId) {
                 return true;
             }
-            // If gasStationId is NOT provided, pricePerLiter MUST be provided
-            return data.pricePerLiter !== undefined && data.pricePerLiter !== null;
+            // If gasStationId is NOT provided, pricePerLiter MUST be provided (or derived from volume)
+            return (data.pricePerLiter !== undefined && data.pricePerLiter !== null) || data.volume !== undefined;
         }, {
-            message: "Preço por litro é obrigatório quando um posto não é selecionado.",
+            message: "Preço por litro (ou volume) é obrigatório quando um posto não é selecionado.",
             path: ["pricePerLiter"], // Apply error specifically to pricePerLiter field
         })
 });
@@ -105,10 +106,11 @@ export const updateFuelingSchema = z.object({
     body: z.object({
         cost: fuelingBaseSchema.cost.optional(),
         pricePerLiter: fuelingBaseSchema.pricePerLiter.optional(), // Optional in input
-        // volume: fuelingBaseSchema.volume.optional().nullable(),
+        volume: fuelingBaseSchema.volume.optional(),
         timestamp: fuelingBaseSchema.timestamp.optional(),
         fuelTypeId: fuelingBaseSchema.fuelTypeId.optional(),
-        // odometer: fuelingBaseSchema.odometer.optional().nullable(),
+        odometer: fuelingBaseSchema.odometer.optional().nullable(),
+        isFullTank: z.boolean({ invalid_type_error: "isFullTank deve ser booleano." }).optional(),
         gasStationId: fuelingBaseSchema.gasStationId.optional().nullable(), // Allow linking/unlinking
         latitude: fuelingBaseSchema.latitude.optional(), // Allow updating location
         longitude: fuelingBaseSchema.longitude.optional(),
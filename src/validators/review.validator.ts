@@ -1,6 +1,6 @@
 // src/validators/review.validator.ts (Novo Arquivo)
 import { z } from 'zod';
-import { ReviewVote, ReviewStatus } from '@prisma/client';
+import { ReviewVote, ReviewStatus, ProposalReasonType, ProposalKind } from '@prisma/client';
 
 export const proposalIdParamSchema = (proposalType: 'gasStation' | 'stationPrice') => z.object({
     params: z.object({
@@ -26,6 +26,58 @@ export const listProposalsSchema = z.object({
 });
 
 
+// --- Moderação (admin:proposal:manage) ---
+
+const forcedStatusSchema = z.enum([ReviewStatus.VERIFIED, ReviewStatus.REJECTED], {
+    required_error: "Status da resolução é obrigatório.",
+    invalid_type_error: "Status da resolução deve ser VERIFIED ou REJECTED.",
+});
+const resolutionNotesSchema = z.string().min(1, "Notas da resolução não podem ser vazias.").max(1000).optional();
+
+export const forceResolveSchema = z.object({
+    body: z.object({
+        status: forcedStatusSchema,
+        resolutionNotes: resolutionNotesSchema,
+    }),
+});
+
+export const bulkResolveSchema = z.object({
+    body: z.object({
+        status: forcedStatusSchema,
+        resolutionNotes: resolutionNotesSchema,
+        filter: z.object({
+            status: z.enum([ReviewStatus.PENDING, ReviewStatus.PROTESTED]).optional(), // Padrão: ambos
+            reasonType: z.nativeEnum(ProposalReasonType).optional(),
+            proposerId: z.string().uuid("ID do proponente inválido.").optional(),
+            createdBefore: z.coerce.date({ invalid_type_error: "Data inválida." }).optional(),
+            proposalIds: z.array(z.string().uuid("ID da proposta inválido.")).min(1).max(100).optional(),
+        }).default({}),
+        limit: z.coerce.number().int().positive().max(100).default(50),
+    }),
+});
+
+export const reopenProposalSchema = z.object({
+    body: z.object({
+        resolutionNotes: resolutionNotesSchema,
+        clearVotes: z.boolean().default(true), // Remove os votos anteriores (inclusive os PROTEST)
+    }),
+});
+
+export const listModerationActionsSchema = z.object({
+    query: z.object({
+        proposalKind: z.nativeEnum(ProposalKind).optional(),
+        proposalId: z.string().uuid("ID da proposta inválido.").optional(),
+        moderatorId: z.string().uuid("ID do moderador inválido.").optional(),
+        page: z.coerce.number().int().positive().default(1).optional(),
+        limit: z.coerce.number().int().positive().max(50).default(20).optional(),
+    }).optional(),
+});
+
+
 // Tipos
 export type SubmitReviewInput = z.infer<typeof submitReviewSchema>['body'];
-export type ListProposalsQuery = z.infer<typeof listProposalsSchema>['query'];
\ No newline at end of file
+export type ListProposalsQuery = z.infer<typeof listProposalsSchema>['query'];
+export type ForceResolveInput = z.infer<typeof forceResolveSchema>['body'];
+export type BulkResolveInput = z.infer<typeof bulkResolveSchema>['body'];
+export type ReopenProposalInput = z.infer<typeof reopenProposalSchema>['body'];
+export type ListModerationActionsQuery = z.infer<typeof listModerationActionsSchema>['query'];
@@ -83,18 +83,34 @@ export const reportStationPriceSchema = z.object({
 // Schema para GET /stations (Query Params)
 export const getStationsSchema = z.object({
     query: z.object({
-        latitude: latitudeSchema.optional(),
-        longitude: longitudeSchema.optional(),
-        radius: z.coerce.number().positive("Raio deve ser positivo.").optional(),
+        // Query params chegam como string: coerção antes dos limites
+        latitude: z.coerce.number({ invalid_type_error: "Latitude deve ser um número." }).min(-90).max(90).optional(),
+        longitude: z.coerce.number({ invalid_type_error: "Longitude deve ser um número." }).min(-180).max(180).optional(),
+        radius: z.coerce.number().positive("Raio deve ser positivo.").max(100, "Raio máximo é 100 km.").optional(), // Em km
         // Filtro por status (para admins/revisores talvez?)
         status: z.nativeEnum(GasStationStatus).optional(),
         name: z.string().optional(),
-        // Paginação?
+        page: z.coerce.number().int().positive().default(1).optional(),
+        limit: z.coerce.number().int().positive().max(100).default(20).optional(),
     }).refine(data => (data.latitude !== undefined && data.longitude !== undefined && data.radius !== undefined) || (data.latitude === undefined && data.longitude === undefined && data.radius === undefined), {
         message: "Latitude, longitude e raio devem ser fornecidos juntos.",
     }),
 });
 
+// Schema para GET /stations/price-comparison (Query Params)
+export const priceComparisonSchema = z.object({
+    query: z.object({
+        fuelTypeId: z.string({ required_error: "ID do tipo de combustível é obrigatório." }).uuid({ message: "ID do tipo de combustível inválido." }),
+        lat: z.coerce.number({ required_error: "Latitude é obrigatória.", invalid_type_error: "Latitude deve ser um número." }).min(-90).max(90),
+        lng: z.coerce.number({ required_error: "Longitude é obrigatória.", invalid_type_error: "Longitude deve ser um número." }).min(-180).max(180),
+        radius: z.coerce.number().positive("Raio deve ser positivo.").max(100, "Raio máximo é 100 km.").default(10), // Em km
+        vehicleId: z.string().uuid({ message: "ID do veículo inválido." }).optional(), // Estima o custo de completar o tanque deste veículo
+        liters: z.coerce.number().positive("Litros deve ser positivo.").optional(), // Volume da estimativa quando não há veículo
+        page: z.coerce.number().int().positive().default(1).optional(),
+        limit: z.coerce.number().int().positive().max(100).default(20).optional(),
+    }),
+});
+
 // Schema para ID Param genérico
 export const idParamSchema = (paramName: string, entityName: string) => z.object({
     params: z.object({
@@ -128,5 +144,6 @@ export type CreateGasStationInput = z.infer<typeof createGasStationSchema>['body
 export type ReportStationPriceInput = z.infer<typeof reportStationPriceSchema>['body'];
 export type ReportStationPriceParams = z.infer<typeof reportStationPriceSchema>['params'];
 export type GetStationsQuery = z.infer<typeof getStationsSchema>['query'];
+export type PriceComparisonQuery = z.infer<typeof priceComparisonSchema>['query'];
 
 export type StationIdParams = z.infer<typeof stationIdSchema>['params'];
\ No newline at end of file
@@ -1,5 +1,43 @@
 // src/validators/trip.validator.ts (Novo Arquivo)
 import { z } from 'zod';
+import { decodePolyline } from '../utils/route.util';
+
+// Limite de pontos aceitos por trajeto (o app envia um ponto a cada poucos segundos)
+const MAX_ROUTE_POINTS = 20000;
+
+// [longitude, latitude] (altitude opcional é descartada)
+const positionSchema = z.tuple([
+    z.number().min(-180, "Longitude inválida.").max(180, "Longitude inválida."),
+    z.number().min(-90, "Latitude inválida.").max(90, "Latitude inválida."),
+]).rest(z.number()).transform(([longitude, latitude]) => [longitude, latitude] as [number, number]);
+
+// Trajeto: GeoJSON LineString ou polyline codificada (precisão 5 ou 6)
+export const routePathSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('LineString'),
+        coordinates: z.array(positionSchema)
+            .min(2, "O trajeto deve ter pelo menos 2 pontos.")
+            .max(MAX_ROUTE_POINTS, `O trajeto pode ter no máximo ${MAX_ROUTE_POINTS} pontos.`),
+    }),
+    z.object({
+        type: z.literal('Polyline'),
+        encoded: z.string().min(1, "Polyline vazia."),
+        precision: z.union([z.literal(5), z.literal(6)]).default(5),
+    }).superRefine((data, ctx) => {
+        let points;
+        try {
+            points = decodePolyline(data.encoded, data.precision);
+        } catch {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Polyline inválida.", path: ['encoded'] });
+            return;
+        }
+        if (points.length < 2 || points.length > MAX_ROUTE_POINTS) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `O trajeto deve ter entre 2 e ${MAX_ROUTE_POINTS} pontos.`, path: ['encoded'] });
+        } else if (points.some(p => Math.abs(p.latitude) > 90 || Math.abs(p.longitude) > 180)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Polyline contém coordenadas fora dos limites.", path: ['encoded'] });
+        }
+    }),
+]);
 
 export const createTripSchema = z.object({
     params: z.object({
@@ -8,19 +46,24 @@ export const createTripSchema = z.object({
     body: z.object({
         startTime: z.coerce.date({ required_error: "Hora de início é obrigatória." }),
         endTime: z.coerce.date({ required_error: "Hora de fim é obrigatória." }),
-        distance: z.coerce.number({ required_error: "Distância é obrigatória." })
-                    .positive({ message: "Distância deve ser positiva." }),
-        // Taxa de consumo USADA para esta viagem específica (ex: app detectou que era cidade)
-        // Ou poderia ser um enum 'city' | 'road' e a API buscaria a taxa do veículo?
-        // Enviar a taxa usada é mais explícito.
-        consumptionRateUsed: z.coerce.number({ required_error: "Taxa de consumo usada é obrigatória." })
-                                .positive({ message: "Taxa de consumo deve ser positiva." }),
+        // Distância informada pelo app; com trajeto, a distância é recalculada no servidor
+        distance: z.coerce.number()
+                    .positive({ message: "Distância deve ser positiva." })
+                    .optional(),
+        // Taxa de consumo USADA para esta viagem específica (ex: app detectou que era cidade).
+        // Se omitida, o servidor escolhe entre kmlCity/kmlRoad do veículo pela velocidade média.
+        consumptionRateUsed: z.coerce.number()
+                                .positive({ message: "Taxa de consumo deve ser positiva." })
+                                .optional(),
         // Opcionais
-        routePath: z.any().optional(), // Aceita qualquer estrutura JSON por enquanto
+        routePath: routePathSchema.optional(),
         notes: z.string().optional(),
     }).refine(data => data.endTime >= data.startTime, {
         message: "Hora de fim deve ser maior ou igual à hora de início.",
         path: ["endTime"],
+    }).refine(data => data.distance !== undefined || data.routePath !== undefined, {
+        message: "Informe a distância ou o trajeto da viagem.",
+        path: ["distance"],
     }),
 });
 
@@ -40,6 +83,7 @@ export const listTripsSchema = z.object({
     query: z.object({
         startDate: z.coerce.date().optional(),
         endDate: z.coerce.date().optional(),
+        driverId: z.string().uuid("ID do motorista inválido.").optional(), // Filtra as viagens de um motorista
         page: z.coerce.number().int().positive().default(1).optional(),
         limit: z.coerce.number().int().positive().max(50).default(15).optional(),
     }).optional(),
@@ -59,7 +103,7 @@ export const updateTripSchema = z.object({
         endTime: z.coerce.date().optional(),
         distance: z.coerce.number().positive("Distância deve ser positiva.").optional(),
         consumptionRateUsed: z.coerce.number().positive("Taxa de consumo deve ser positiva.").optional(),
-        routePath: z.any().optional().nullable(), // Permitir limpar path
+        routePath: routePathSchema.optional().nullable(), // Permitir limpar path
         notes: z.string().optional().nullable(), // Permitir limpar notas
     }).refine(data => Object.keys(data).length > 0, {
         message: "Pelo menos um campo deve ser fornecido para atualização.",
@@ -78,4 +122,5 @@ export type ListTripsParams = z.infer<typeof listTripsSchema>['params'];
 export type ListTripsQuery = z.infer<typeof listTripsSchema>['query'];
 export type GetOrDeleteTripParams = z.infer<typeof getOrDeleteTripSchema>['params'];
 export type UpdateTripParams = z.infer<typeof updateTripSchema>['params'];
-export type UpdateTripInput = z.infer<typeof updateTripSchema>['body'];
\ No newline at end of file
+export type UpdateTripInput = z.infer<typeof updateTripSchema>['body'];
+export type RoutePathInput = z.infer<typeof routePathSchema>;
\ No newline at end of file
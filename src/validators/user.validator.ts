@@ -8,10 +8,15 @@ export const updateUserSchema = z.object({
             .min(1, { message: 'Nome não pode ser vazio.' })
             .optional(), // Torna o campo opcional na requisição
         username: z.string()
+            .trim()
+            .toLowerCase()
             .min(3, { message: 'Nome de usuário deve ter pelo menos 3 caracteres.' })
+            .regex(/^[^@\s]+$/, { message: 'Nome de usuário não pode conter @ nem espaços.' })
             // .regex(/^[a-zA-Z0-9_]+$/, { message: 'Nome de usuário pode conter apenas letras, números e _' })
             .optional(),
         email: z.string()
+            .trim()
+            .toLowerCase()
             .email({ message: 'Formato de email inválido.' })
             .optional(),
         // NÃO incluir 'password' aqui para evitar atualização por esta rota
@@ -44,7 +49,61 @@ export const getUserByIdSchema = z.object({
 });
 
 
+// Schema para Histórico de Reputação (GET /me/reputation)
+export const reputationHistorySchema = z.object({
+    query: z.object({
+        page: z.coerce.number().int().positive().default(1).optional(),
+        limit: z.coerce.number().int().positive().max(50).default(20).optional(),
+    }).optional(),
+});
+
+// Schema para Revogar uma Sessão (DELETE /me/sessions/:sessionId)
+export const sessionIdParamSchema = z.object({
+    params: z.object({
+        sessionId: z.string().uuid({ message: "ID da sessão inválido (deve ser UUID)." }),
+    }),
+});
+
+export const vehicleInvitationParamSchema = z.object({
+    params: z.object({
+        vehicleId: z.string().uuid({ message: "ID do veículo inválido (deve ser UUID)." }),
+    }),
+});
+
+export const vehicleTransferParamSchema = z.object({
+    params: z.object({
+        transferId: z.string().uuid({ message: "ID da transferência inválido (deve ser UUID)." }),
+    }),
+});
+
+const totpCodeSchema = z.string({ required_error: 'Código do autenticador é obrigatório.' })
+    .regex(/^\d{6}$/, { message: 'Código deve ter 6 dígitos.' });
+
+// Schema para Confirmar o 2FA / Gerar novos códigos de recuperação
+export const twoFactorCodeSchema = z.object({
+    body: z.object({
+        code: totpCodeSchema,
+    }),
+});
+
+// Schema para Desativar o 2FA (senha + código do autenticador ou de recuperação)
+export const disableTwoFactorSchema = z.object({
+    body: z.object({
+        password: z.string({ required_error: 'Senha é obrigatória.' })
+            .min(1, { message: 'Senha não pode ser vazia.' }),
+        code: totpCodeSchema.optional(),
+        recoveryCode: z.string().trim().min(1).max(20).optional(),
+    }).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+        message: 'Informe o código do autenticador ou um código de recuperação.',
+        path: ['code'],
+    }),
+});
+
+
 // Tipos inferidos para uso nos controladores
 export type UpdateUserInput = z.infer<typeof updateUserSchema>['body'];
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>['body'];
-export type GetUserByIdParams = z.infer<typeof getUserByIdSchema>['params'];
\ No newline at end of file
+export type GetUserByIdParams = z.infer<typeof getUserByIdSchema>['params'];
+export type ReputationHistoryQuery = z.infer<typeof reputationHistorySchema>['query'];
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>['body'];
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>['body'];
\ No newline at end of file
@@ -1,5 +1,6 @@
 // src/validators/vehicle.validator.ts
 import { z } from 'zod';
+import { VehicleShareRole } from '@prisma/client';
 
 const commonVehicleFields = {
     alias: z.string({ required_error: 'Apelido é obrigatório.' })
@@ -29,6 +30,15 @@ const commonVehicleFields = {
     appOdometer: z.coerce.number({ invalid_type_error: 'Hodômetro deve ser um número.' })
         .nonnegative({ message: 'Hodômetro não pode ser negativo.' })
         .optional(),
+    tankCapacity: z.coerce.number({ invalid_type_error: 'Capacidade do tanque deve ser um número.' })
+        .positive({ message: 'Capacidade do tanque deve ser positiva.' })
+        .max(2000, { message: 'Capacidade do tanque parece inválida.' })
+        .optional(),
+    autoUpdateKml: z.boolean({ invalid_type_error: 'autoUpdateKml deve ser booleano.' }).optional(),
+    lowFuelRangeKm: z.coerce.number({ invalid_type_error: 'Autonomia mínima deve ser um número.' })
+        .positive({ message: 'Autonomia mínima deve ser positiva.' })
+        .max(2000, { message: 'Autonomia mínima parece inválida.' })
+        .optional(),
 };
 
 // Schema for Creating a Vehicle
@@ -56,6 +66,13 @@ export const updateVehicleSchema = z.object({
         color: commonVehicleFields.color.optional(),
         categoryId: commonVehicleFields.categoryId.optional(),
         appOdometer: commonVehicleFields.appOdometer.optional(),
+        tankCapacity: commonVehicleFields.tankCapacity.nullable(), // null remove a capacidade
+        // Correção manual do nível simulado (ex: após conferir o marcador do painel)
+        appFuelTank: z.coerce.number({ invalid_type_error: 'Nível do tanque deve ser um número.' })
+            .nonnegative({ message: 'Nível do tanque não pode ser negativo.' })
+            .optional(),
+        autoUpdateKml: commonVehicleFields.autoUpdateKml,
+        lowFuelRangeKm: commonVehicleFields.lowFuelRangeKm.nullable(), // null desativa o alerta de combustível baixo
     }).refine(data => Object.keys(data).length > 0, { // Ensure at least one field is provided
         message: "Pelo menos um campo deve ser fornecido para atualização.",
     }),
@@ -66,12 +83,39 @@ export const vehicleIdSchema = z.object({
     params: paramsSchema,
 });
 
-// Schema for Granting Authorization
+// Schema for Vehicle Efficiency (consumo real)
+export const vehicleEfficiencySchema = z.object({
+    params: paramsSchema,
+    query: z.object({
+        fuelTypeId: z.string().uuid({ message: 'ID do tipo de combustível inválido.' }).optional(),
+        window: z.coerce.number().int().min(1).max(10).default(3).optional(), // Tamanho da média móvel
+    }).optional(),
+});
+
+// Schema for Vehicle Fuel Level (nível do tanque)
+export const vehicleFuelLevelSchema = z.object({
+    params: paramsSchema,
+    query: z.object({
+        since: z.coerce.date({ invalid_type_error: 'Data inicial inválida.' }).optional(),
+        limit: z.coerce.number().int().positive().max(200).default(50).optional(), // Eventos na linha do tempo
+    }).optional(),
+});
+
+const shareRoleSchema = z.nativeEnum(VehicleShareRole, { errorMap: () => ({ message: 'Papel inválido (VIEWER, DRIVER ou MANAGER).' }) });
+const shareExpiresAtSchema = z.coerce.date({ invalid_type_error: 'Data de validade inválida.' })
+    .refine(date => date > new Date(), { message: 'A validade do compartilhamento deve ser uma data futura.' });
+
+// Schema for Granting Authorization (convite: o usuário aceita ou recusa)
 export const grantAuthorizationSchema = z.object({
     params: paramsSchema, // vehicleId
     body: z.object({
-        userId: z.string({ required_error: 'ID do usuário a ser autorizado é obrigatório.' })
-            .uuid({ message: 'ID do usuário inválido (deve ser UUID).' }),
+        userId: z.string().uuid({ message: 'ID do usuário inválido (deve ser UUID).' }).optional(),
+        identifier: z.string().trim().min(1, { message: 'Informe o email ou username do usuário.' }).optional(), // Email ou username
+        role: shareRoleSchema.default(VehicleShareRole.VIEWER),
+        expiresAt: shareExpiresAtSchema.optional(),
+    }).refine(data => (data.userId === undefined) !== (data.identifier === undefined), {
+        message: 'Informe o ID (userId) ou o email/username (identifier) do usuário a convidar.',
+        path: ['identifier'],
     }),
 });
 
@@ -83,11 +127,47 @@ export const revokeAuthorizationSchema = z.object({
     }),
 });
 
+// Alteração do papel/validade de um compartilhamento (ou convite pendente)
+export const updateAuthorizationSchema = z.object({
+    params: revokeAuthorizationSchema.shape.params,
+    body: z.object({
+        role: shareRoleSchema.optional(),
+        expiresAt: shareExpiresAtSchema.nullable().optional(), // null: sem validade
+    }).refine(data => Object.keys(data).length > 0, {
+        message: 'Informe o papel e/ou a validade do compartilhamento.',
+    }),
+});
+
+// Transferência de propriedade: destinatário e histórico que acompanha o veículo
+export const initiateTransferSchema = z.object({
+    params: paramsSchema, // vehicleId
+    body: z.object({
+        identifier: z.string({ required_error: 'Informe o email ou username do destinatário.' })
+            .trim().min(1, { message: 'Informe o email ou username do destinatário.' }),
+        history: z.object({
+            fuelings: z.boolean().default(true),
+            expenses: z.boolean().default(true),
+            trips: z.boolean().default(true),
+            notes: z.boolean().default(true),
+        }).default({}),
+    }),
+});
+
+export const vehicleTransferIdSchema = z.object({
+    params: z.object({
+        vehicleId: z.string().uuid({ message: "ID do veículo inválido." }),
+        transferId: z.string().uuid({ message: "ID da transferência inválido." }),
+    }),
+});
+
 
 // Types for Controller usage
 export type CreateVehicleInput = z.infer<typeof createVehicleSchema>['body'];
 export type UpdateVehicleInput = z.infer<typeof updateVehicleSchema>['body'];
 export type VehicleIdParams = z.infer<typeof vehicleIdSchema>['params'];
+export type VehicleEfficiencyQuery = z.infer<typeof vehicleEfficiencySchema>['query'];
 export type GrantAuthorizationInput = z.infer<typeof grantAuthorizationSchema>['body'];
 export type GrantAuthorizationParams = z.infer<typeof grantAuthorizationSchema>['params'];
-export type RevokeAuthorizationParams = z.infer<typeof revokeAuthorizationSchema>['params'];
\ No newline at end of file
+export type RevokeAuthorizationParams = z.infer<typeof revokeAuthorizationSchema>['params'];
+export type UpdateAuthorizationInput = z.infer<typeof updateAuthorizationSchema>['body'];
+export type InitiateTransferInput = z.infer<typeof initiateTransferSchema>['body'];
\ No newline at end of file
@@ -4,6 +4,9 @@ import { z } from 'zod';
 const baseSchema = {
     name: z.string({ required_error: "Nome da categoria é obrigatório." }).min(1, "Nome não pode ser vazio."),
     iconName: z.string({ required_error: "Nome do ícone é obrigatório." }).min(1, "Nome do ícone não pode ser vazio."),
+    defaultTankCapacity: z.coerce.number({ invalid_type_error: "Capacidade padrão do tanque deve ser um número." })
+        .positive("Capacidade padrão do tanque deve ser positiva.")
+        .optional(),
 };
 
 export const createVehicleCategorySchema = z.object({
@@ -17,8 +20,9 @@ export const updateVehicleCategorySchema = z.object({
     body: z.object({ // Optional fields for PATCH
         name: baseSchema.name.optional(),
         iconName: baseSchema.iconName.optional(),
+        defaultTankCapacity: baseSchema.defaultTankCapacity.nullable(),
     }).refine(data => Object.keys(data).length > 0, {
-        message: "Pelo menos um campo (name ou iconName) deve ser fornecido.",
+        message: "Pelo menos um campo (name, iconName ou defaultTankCapacity) deve ser fornecido.",
     }),
 });
 